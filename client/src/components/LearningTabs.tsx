@@ -1,39 +1,50 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BookOpen, HelpCircle, FileText, Loader2, TrendingUp } from "lucide-react";
-import { trpc } from "@/lib/trpc";
+import { BookOpen, Calculator, CheckCircle2, HelpCircle, FileText, Loader2, RotateCcw, TrendingUp, XCircle } from "lucide-react";
+import { isQuotaExceededError, QUOTA_EXCEEDED_MESSAGE, trpc } from "@/lib/trpc";
+import { TRPCClientError } from "@trpc/client";
+import { MathMarkdown } from "@/components/MathMarkdown";
+import ReviewQueue from "@/components/ReviewQueue";
+import ModelSimulator from "@/components/ModelSimulator";
+import PerformanceHistory from "@/components/PerformanceHistory";
 import { z } from "zod";
+import { toast } from "sonner";
 
 interface LearningTabsProps {
   sessionId: string;
   topic: string;
-  onAddMessage?: (content: string, sender: "user" | "assistant") => void;
+  // Show an assistant message in the chat. It is not saved: generated problems are saved by the server
+  onAddMessage?: (content: string) => void;
 }
 
-interface Problem {
-  id?: number;
-  problem: string;
-  solution: string;
-}
+const DIFFICULTY_LABELS = { easy: "簡単", medium: "普通", hard: "難しい" } as const;
 
-interface Quiz {
-  id?: number;
-  question: string;
-  options: string[];
-  correctAnswer?: string;
-  explanation?: string;
-}
+// The server reports UNPROCESSABLE_CONTENT when the AI output failed schema validation
+const generationErrorMessage = (error: unknown, fallback: string) =>
+  isQuotaExceededError(error)
+    ? QUOTA_EXCEEDED_MESSAGE
+    : error instanceof TRPCClientError && error.data?.code === "UNPROCESSABLE_CONTENT"
+      ? `${fallback}AIの応答形式が正しくありませんでした。もう一度お試しください。`
+      : fallback;
 
 export default function LearningTabs({ sessionId, topic, onAddMessage }: LearningTabsProps) {
   const [noteText, setNoteText] = useState("");
-  const [selectedDifficulty, setSelectedDifficulty] = useState<"easy" | "medium" | "hard">("medium");
+  // "auto" lets the server pick the difficulty from the learner's mastery
+  const [selectedDifficulty, setSelectedDifficulty] = useState<"auto" | "easy" | "medium" | "hard">("auto");
   const [isLoadingProblems, setIsLoadingProblems] = useState(false);
   const [isLoadingQuiz, setIsLoadingQuiz] = useState(false);
 
   const generateProblems = trpc.learning.generatePracticeProblems.useMutation();
   const generateQuizMutation = trpc.learning.generateQuiz.useMutation();
+  const submitQuizAnswerMutation = trpc.learning.submitQuizAnswer.useMutation();
+  const markPracticeProblemMutation = trpc.learning.markPracticeProblem.useMutation();
+  const [openSolutionId, setOpenSolutionId] = useState<number | null>(null);
+  const evaluateAnswerMutation = trpc.chat.evaluateAnswer.useMutation();
+  const [answerDrafts, setAnswerDrafts] = useState<Record<number, string>>({});
+  const [answerFeedback, setAnswerFeedback] = useState<Record<number, { isCorrect: boolean; evaluation: string }>>({});
   const createNoteMutation = trpc.learning.createNote.useMutation();
   const updatePerformanceMutation = trpc.learning.updateSessionPerformance.useMutation();
   
@@ -43,31 +54,30 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
     { refetchInterval: 1000 } // Refetch every second to show real-time updates
   );
 
+  const { data: quizzes = [], refetch: refetchQuizzes } = trpc.learning.getQuizzes.useQuery({ sessionId });
+  const { data: practiceProblems = [], refetch: refetchPracticeProblems } =
+    trpc.learning.getPracticeProblems.useQuery({ sessionId });
+  const { data: dueReviews } = trpc.learning.getDueReviews.useQuery({ limit: 20 });
+  const { data: mastery, refetch: refetchMastery } = trpc.learning.getMastery.useQuery({ sessionId });
+
   const handleGenerateProblems = async () => {
     setIsLoadingProblems(true);
     try {
       const result = await generateProblems.mutateAsync({
         sessionId,
         topic,
-        difficulty: selectedDifficulty,
+        difficulty: selectedDifficulty === "auto" ? undefined : selectedDifficulty,
         count: 3,
       });
 
-      const problems = result.problems || [];
+      await refetchPracticeProblems();
 
-      if (onAddMessage && problems.length > 0) {
-        // 各問題を個別に AI 解答欄に出力
-        problems.forEach((problem: Problem, index: number) => {
-          onAddMessage(
-            `**問題 ${index + 1}:**\n${problem.problem}`,
-            "assistant"
-          );
-        });
-      }
+      // 各問題を個別に AI 解答欄に出力（チャットへの保存はサーバー側で済んでいる）
+      result.chatMessages.forEach((message) => onAddMessage?.(message));
     } catch (error) {
       console.error("Failed to generate problems:", error);
       if (onAddMessage) {
-        onAddMessage("練習問題の生成に失敗しました。", "assistant");
+        onAddMessage(generationErrorMessage(error, "練習問題の生成に失敗しました。"));
       }
     } finally {
       setIsLoadingProblems(false);
@@ -83,31 +93,60 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
         count: 3,
       });
 
-      const quizzes = result.quizzes || [];
+      await refetchQuizzes();
 
-      if (onAddMessage && quizzes.length > 0) {
-        // 各クイズを個別に AI 解答欄に出力
-        quizzes.forEach((quiz: Quiz, index: number) => {
-          const optionsText = quiz.options
-            .map((opt, i) => `(${String.fromCharCode(65 + i)}) ${opt}`)
-            .join("\n");
-          
-          onAddMessage(
-            `**クイズ ${index + 1}:**\n${quiz.question}\n\n${optionsText}`,
-            "assistant"
-          );
-        });
+      if (onAddMessage && result.count > 0) {
+        onAddMessage(`クイズを ${result.count} 問生成しました。クイズタブで選択肢を選んで回答してください。`);
       }
     } catch (error) {
       console.error("Failed to generate quiz:", error);
       if (onAddMessage) {
-        onAddMessage("クイズの生成に失敗しました。", "assistant");
+        onAddMessage(generationErrorMessage(error, "クイズの生成に失敗しました。"));
       }
     } finally {
       setIsLoadingQuiz(false);
     }
   };
 
+  const handleSubmitQuizAnswer = async (quizId: number, selectedIndex: number) => {
+    try {
+      await submitQuizAnswerMutation.mutateAsync({ sessionId, quizId, selectedIndex });
+      await Promise.all([refetchQuizzes(), refetchPerformance(), refetchMastery()]);
+    } catch (error) {
+      console.error("Failed to submit quiz answer:", error);
+      // A quiz answered elsewhere (another tab or the chat) shows its result instead
+      await refetchQuizzes();
+    }
+  };
+
+  // Unsolved problems are added to the review queue by the server
+  const handleMarkPracticeProblem = async (problemId: number, solved: boolean) => {
+    try {
+      await markPracticeProblemMutation.mutateAsync({ sessionId, problemId, solved });
+      await Promise.all([refetchPracticeProblems(), refetchPerformance(), refetchMastery()]);
+      if (!solved) {
+        toast.success("復習リストに追加しました");
+      }
+    } catch (error) {
+      console.error("Failed to mark practice problem:", error);
+    }
+  };
+
+  // Numeric and algebraic answers are checked on the server without an LLM call
+  const handleCheckAnswer = async (problemId: number, question: string) => {
+    const userAnswer = answerDrafts[problemId]?.trim();
+    if (!userAnswer) return;
+
+    try {
+      const result = await evaluateAnswerMutation.mutateAsync({ sessionId, problemId, question, userAnswer });
+      setAnswerFeedback((prev) => ({ ...prev, [problemId]: result }));
+      await Promise.all([refetchPracticeProblems(), refetchPerformance(), refetchMastery()]);
+    } catch (error) {
+      console.error("Failed to check answer:", error);
+      toast.error("採点に失敗しました");
+    }
+  };
+
   const handleCreateNote = async () => {
     if (!noteText.trim()) return;
 
@@ -120,7 +159,7 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
 
       setNoteText("");
       if (onAddMessage) {
-        onAddMessage(`ノートを作成しました: ${noteText}`, "assistant");
+        onAddMessage(`ノートを作成しました: ${noteText}`);
       }
     } catch (error) {
       console.error("Failed to create note:", error);
@@ -150,7 +189,7 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
 
   return (
     <Tabs defaultValue="practice" className="w-full">
-      <TabsList className="grid w-full grid-cols-4">
+      <TabsList className="grid w-full grid-cols-6">
         <TabsTrigger value="practice" className="flex items-center gap-2">
           <BookOpen className="w-4 h-4" />
           <span className="hidden sm:inline">練習</span>
@@ -159,6 +198,17 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
           <HelpCircle className="w-4 h-4" />
           <span className="hidden sm:inline">クイズ</span>
         </TabsTrigger>
+        <TabsTrigger value="review" className="flex items-center gap-2">
+          <RotateCcw className="w-4 h-4" />
+          <span className="hidden sm:inline">復習</span>
+          {!!dueReviews?.dueCount && (
+            <span className="rounded-full bg-red-500 px-1.5 text-xs text-white">{dueReviews.dueCount}</span>
+          )}
+        </TabsTrigger>
+        <TabsTrigger value="models" className="flex items-center gap-2">
+          <Calculator className="w-4 h-4" />
+          <span className="hidden sm:inline">モデル</span>
+        </TabsTrigger>
         <TabsTrigger value="notes" className="flex items-center gap-2">
           <FileText className="w-4 h-4" />
           <span className="hidden sm:inline">ノート</span>
@@ -187,11 +237,12 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
                     value={selectedDifficulty}
                     onChange={(e) =>
                       setSelectedDifficulty(
-                        e.target.value as "easy" | "medium" | "hard"
+                        e.target.value as "auto" | "easy" | "medium" | "hard"
                       )
                     }
                     className="px-3 py-2 border rounded"
                   >
+                    <option value="auto">おまかせ</option>
                     <option value="easy">簡単</option>
                     <option value="medium">普通</option>
                     <option value="hard">難しい</option>
@@ -215,6 +266,86 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
               <p className="text-sm text-gray-600">
                 「練習問題を生成」をクリックすると、AI が生成した問題が下の会話欄に表示されます。
               </p>
+              {practiceProblems.map((problem, index) => (
+                <div key={problem.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="font-medium">
+                    <div>問題 {index + 1}</div>
+                    <MathMarkdown>{problem.problemText}</MathMarkdown>
+                  </div>
+                  {openSolutionId === problem.id && problem.solution && (
+                    <div className="p-3 bg-gray-50 rounded border text-sm">
+                      <MathMarkdown>{problem.solution}</MathMarkdown>
+                    </div>
+                  )}
+                  {problem.solved !== 1 && (
+                    <div className="flex gap-2">
+                      <Input
+                        value={answerDrafts[problem.id] ?? ""}
+                        onChange={(e) => setAnswerDrafts((prev) => ({ ...prev, [problem.id]: e.target.value }))}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleCheckAnswer(problem.id, problem.problemText);
+                        }}
+                        placeholder="答えを入力（例: 2x + 1, 3/4）"
+                      />
+                      <Button
+                        size="sm"
+                        disabled={evaluateAnswerMutation.isPending || !answerDrafts[problem.id]?.trim()}
+                        onClick={() => handleCheckAnswer(problem.id, problem.problemText)}
+                      >
+                        採点
+                      </Button>
+                    </div>
+                  )}
+                  {answerFeedback[problem.id] && (
+                    <div
+                      className={`flex gap-2 text-sm ${
+                        answerFeedback[problem.id].isCorrect ? "text-green-700" : "text-red-700"
+                      }`}
+                    >
+                      {answerFeedback[problem.id].isCorrect ? (
+                        <CheckCircle2 className="w-4 h-4 shrink-0 mt-0.5" />
+                      ) : (
+                        <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                      )}
+                      <MathMarkdown>{answerFeedback[problem.id].evaluation}</MathMarkdown>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOpenSolutionId(openSolutionId === problem.id ? null : problem.id)}
+                    >
+                      {openSolutionId === problem.id ? "解答を隠す" : "解答を表示"}
+                    </Button>
+                    {problem.solved === 1 ? (
+                      <span className="flex items-center gap-1 text-sm text-green-700">
+                        <CheckCircle2 className="w-4 h-4" />
+                        解けた
+                      </span>
+                    ) : (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={markPracticeProblemMutation.isPending}
+                          onClick={() => handleMarkPracticeProblem(problem.id, true)}
+                        >
+                          解けた
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={markPracticeProblemMutation.isPending}
+                          onClick={() => handleMarkPracticeProblem(problem.id, false)}
+                        >
+                          解けなかった（復習する）
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -245,14 +376,108 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
                   "クイズを生成"
                 )}
               </Button>
-              <p className="text-sm text-gray-600">
-                「クイズを生成」をクリックすると、AI が生成したクイズが下の会話欄に表示されます。
-              </p>
+              {quizzes.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  「クイズを生成」をクリックすると、AI が生成したクイズがここに表示されます。
+                </p>
+              ) : (
+                quizzes.map((quiz, index) => (
+                  <div key={quiz.id} className="p-4 border rounded-lg space-y-3">
+                    <div className="font-medium">
+                      <div>クイズ {index + 1}</div>
+                      <MathMarkdown>{quiz.question}</MathMarkdown>
+                    </div>
+                    <div className="grid gap-2">
+                      {quiz.options.map((option, optionIndex) => {
+                        const answered = quiz.lastAttempt !== null;
+                        const isSelected = quiz.lastAttempt?.selectedIndex === optionIndex;
+                        const isCorrectOption = quiz.correctIndex === optionIndex;
+                        return (
+                          <Button
+                            key={optionIndex}
+                            variant="outline"
+                            disabled={answered || !quiz.gradable || submitQuizAnswerMutation.isPending}
+                            onClick={() => handleSubmitQuizAnswer(quiz.id, optionIndex)}
+                            className={`justify-start h-auto whitespace-normal text-left disabled:opacity-100 ${
+                              answered && isCorrectOption
+                                ? "border-green-500 bg-green-50"
+                                : answered && isSelected
+                                  ? "border-red-500 bg-red-50"
+                                  : ""
+                            }`}
+                          >
+                            <span className="mr-2 shrink-0">({String.fromCharCode(65 + optionIndex)})</span>
+                            <MathMarkdown>{option}</MathMarkdown>
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    {!quiz.gradable && !quiz.lastAttempt && (
+                      <p className="text-sm text-gray-600">
+                        このクイズは以前の形式で作成されたため、正解が記録されておらず採点できません。
+                      </p>
+                    )}
+                    {quiz.lastAttempt && (
+                      <div
+                        className={`flex gap-2 text-sm ${
+                          quiz.lastAttempt.isCorrect ? "text-green-700" : "text-red-700"
+                        }`}
+                      >
+                        {quiz.lastAttempt.isCorrect ? (
+                          <CheckCircle2 className="w-4 h-4 shrink-0 mt-0.5" />
+                        ) : (
+                          <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                        )}
+                        <div>
+                          <div className="font-medium">
+                            {quiz.lastAttempt.isCorrect ? "正解！" : "不正解"}
+                          </div>
+                          {quiz.explanation && (
+                            <div className="text-gray-700 mt-1">
+                              <MathMarkdown>{quiz.explanation}</MathMarkdown>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
             </div>
           </CardContent>
         </Card>
       </TabsContent>
 
+      {/* Review Tab */}
+      <TabsContent value="review">
+        <Card>
+          <CardHeader>
+            <CardTitle>復習</CardTitle>
+            <CardDescription>
+              間違えた問題を忘れかけた頃にもう一度解いて定着させましょう
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ReviewQueue />
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      {/* Economics Models Tab */}
+      <TabsContent value="models">
+        <Card>
+          <CardHeader>
+            <CardTitle>経済モデル</CardTitle>
+            <CardDescription>
+              パラメータを動かして、均衡や成長経路がどう変わるかを確かめましょう
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ModelSimulator />
+          </CardContent>
+        </Card>
+      </TabsContent>
+
       {/* Notes Tab */}
       <TabsContent value="notes">
         <Card>
@@ -311,17 +536,38 @@ export default function LearningTabs({ sessionId, topic, onAddMessage }: Learnin
                     <div className="text-sm text-gray-600 mt-2">正答率</div>
                   </div>
                 </div>
-                <div className="p-4 bg-gray-50 rounded-lg">
-                  <div className="text-sm font-medium text-gray-700 mb-2">現在の難易度</div>
-                  <div className="text-lg font-semibold text-gray-900">
-                    {performance.currentDifficulty === "easy" && "簡単"}
-                    {performance.currentDifficulty === "medium" && "普通"}
-                    {performance.currentDifficulty === "hard" && "難しい"}
+                <PerformanceHistory sessionId={sessionId} totalProblems={performance.totalProblems} />
+                {mastery && (
+                  <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+                    <div>
+                      <div className="text-sm font-medium text-gray-700 mb-2">おすすめの難易度</div>
+                      <div className="text-lg font-semibold text-gray-900">
+                        {DIFFICULTY_LABELS[mastery.recommendedDifficulty]}
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                          （習熟度レーティング {mastery.rating}）
+                        </span>
+                      </div>
+                    </div>
+                    {mastery.skills.length > 0 && (
+                      <div>
+                        <div className="text-sm font-medium text-gray-700 mb-2">スキル別の習熟度（苦手な順）</div>
+                        <ul className="space-y-1 text-sm">
+                          {mastery.skills.map((skill) => (
+                            <li key={skill.skill} className="flex justify-between">
+                              <span>{skill.skill}</span>
+                              <span className="text-gray-600">
+                                {skill.rating}（{skill.correct}/{skill.attempts} 正解）
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
-                </div>
+                )}
                 <div className="p-4 bg-blue-100 rounded-lg border border-blue-200">
                   <p className="text-sm text-blue-800">
-                    💡 ヒント: 正答率が高い場合は、難易度を上げてみてください。難しい問題に挑戦することで、さらに理解を深めることができます。
+                    💡 ヒント: 難易度を「おまかせ」にすると、これまでの全セッションの成績から難易度を選び、苦手なスキルを重点的に出題します。
                   </p>
                 </div>
               </div>
@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useDeferredValue, useMemo, useState } from "react";
 import {
   LineChart,
   Line,
@@ -15,34 +15,45 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
+import type { GraphData } from "@shared/graph";
+import { parameterStep, samplePlot } from "@shared/plotting";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { MessageSquarePlus } from "lucide-react";
 
 interface GraphDataPoint {
   [key: string]: number | string | undefined;
 }
 
-interface GraphSeries {
-  name: string;
-  data: (number | null)[];
-}
-
-interface GraphData {
-  type: "line" | "bar" | "scatter" | "area";
-  title: string;
-  xAxis: {
-    label: string;
-    data: (string | number)[];
-  };
-  yAxis: {
-    label: string;
-  };
-  series: GraphSeries[];
-}
-
 interface MathGraphProps {
   data: GraphData;
+  /** Called with a description of the current parameter values to use as chat context. */
+  onShareParameters?: (text: string) => void;
 }
 
-export default function MathGraph({ data }: MathGraphProps) {
+const formatNumber = (value: number) => `${Number(value.toPrecision(4))}`;
+
+export default function MathGraph({ data: savedData, onShareParameters }: MathGraphProps) {
+  const parameters = savedData.plot?.parameters ?? [];
+  const [values, setValues] = useState<Record<string, number>>(() =>
+    Object.fromEntries(parameters.map((p) => [p.name, p.value]))
+  );
+  // Keep the sliders responsive while the series are recomputed
+  const deferredValues = useDeferredValue(values);
+
+  const data = useMemo(() => {
+    const plot = savedData.plot;
+    if (!plot || plot.parameters.every((p) => deferredValues[p.name] === p.value)) {
+      return savedData;
+    }
+    return samplePlot(plot, deferredValues);
+  }, [savedData, deferredValues]);
+
+  const shareParameters = () => {
+    const settings = parameters.map((p) => `${p.name} = ${formatNumber(values[p.name])}`).join(", ");
+    onShareParameters?.(`（グラフ「${savedData.title}」を ${settings} に設定）`);
+  };
+
   const chartData = useMemo(() => {
     // Transform data into recharts format
     const transformed: GraphDataPoint[] = [];
@@ -84,6 +95,19 @@ export default function MathGraph({ data }: MathGraphProps) {
     "#ec4899", // pink
   ];
 
+  // Sampled function plots have uneven x spacing, so place points by value rather than index
+  const numericX = data.type !== "bar" && data.xAxis.data.every((x) => typeof x === "number");
+  const xAxisProps = {
+    dataKey: "x",
+    label: { value: data.xAxis.label, position: "insideBottomRight", offset: -5 },
+    ...(numericX && {
+      type: "number" as const,
+      domain: ["dataMin", "dataMax"],
+      tickFormatter: (x: number) => `${Number(x.toPrecision(4))}`,
+    }),
+  };
+  const formatValue = (value: number | string) => (typeof value === "number" ? Number(value.toPrecision(6)) : value);
+
   const renderChart = () => {
     const commonProps = {
       data: chartData,
@@ -95,9 +119,9 @@ export default function MathGraph({ data }: MathGraphProps) {
         return (
           <LineChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="x" label={{ value: data.xAxis.label, position: "insideBottomRight", offset: -5 }} />
+            <XAxis {...xAxisProps} />
             <YAxis label={{ value: data.yAxis.label, angle: -90, position: "insideLeft" }} />
-            <Tooltip />
+            <Tooltip formatter={formatValue} labelFormatter={formatValue} />
             <Legend />
             {data.series.map((series, idx) => (
               <Line
@@ -116,9 +140,9 @@ export default function MathGraph({ data }: MathGraphProps) {
         return (
           <BarChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="x" label={{ value: data.xAxis.label, position: "insideBottomRight", offset: -5 }} />
+            <XAxis {...xAxisProps} />
             <YAxis label={{ value: data.yAxis.label, angle: -90, position: "insideLeft" }} />
-            <Tooltip />
+            <Tooltip formatter={formatValue} labelFormatter={formatValue} />
             <Legend />
             {data.series.map((series, idx) => (
               <Bar
@@ -134,9 +158,9 @@ export default function MathGraph({ data }: MathGraphProps) {
         return (
           <ScatterChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="x" label={{ value: data.xAxis.label, position: "insideBottomRight", offset: -5 }} />
+            <XAxis {...xAxisProps} />
             <YAxis label={{ value: data.yAxis.label, angle: -90, position: "insideLeft" }} />
-            <Tooltip />
+            <Tooltip formatter={formatValue} labelFormatter={formatValue} />
             <Legend />
             {data.series.map((series, idx) => (
               <Scatter
@@ -153,9 +177,9 @@ export default function MathGraph({ data }: MathGraphProps) {
         return (
           <AreaChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="x" label={{ value: data.xAxis.label, position: "insideBottomRight", offset: -5 }} />
+            <XAxis {...xAxisProps} />
             <YAxis label={{ value: data.yAxis.label, angle: -90, position: "insideLeft" }} />
-            <Tooltip />
+            <Tooltip formatter={formatValue} labelFormatter={formatValue} />
             <Legend />
             {data.series.map((series, idx) => (
               <Area
@@ -189,6 +213,30 @@ export default function MathGraph({ data }: MathGraphProps) {
       <ResponsiveContainer width="100%" height={400}>
         {renderChart()}
       </ResponsiveContainer>
+      {parameters.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {parameters.map((p) => (
+            <div key={p.name} className="flex items-center gap-3 text-sm">
+              <span className="w-24 shrink-0 font-mono">
+                {p.name} = {formatNumber(values[p.name])}
+              </span>
+              <Slider
+                min={p.min}
+                max={p.max}
+                step={parameterStep(p)}
+                value={[values[p.name]]}
+                onValueChange={([value]) => setValues((prev) => ({ ...prev, [p.name]: value }))}
+              />
+            </div>
+          ))}
+          {onShareParameters && (
+            <Button variant="outline" size="sm" onClick={shareParameters}>
+              <MessageSquarePlus className="h-4 w-4" />
+              この設定で質問する
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,22 @@
+import remarkMath from "remark-math";
+import { defaultRemarkPlugins, Streamdown, type StreamdownProps } from "streamdown";
+
+type Pluggable = NonNullable<StreamdownProps["remarkPlugins"]>[number];
+
+// Streamdown only parses $$...$$ by default; the tutor prompts also emit inline $...$
+const remarkPlugins: Pluggable[] = Object.values({
+  ...defaultRemarkPlugins,
+  math: [remarkMath, { singleDollarTextMath: true }] as Pluggable,
+});
+
+/**
+ * Streamdown with inline and display LaTeX math rendered by KaTeX.
+ * Use this for any AI-generated content.
+ */
+export function MathMarkdown({ children, ...props }: StreamdownProps) {
+  return (
+    <Streamdown remarkPlugins={remarkPlugins} {...props}>
+      {children}
+    </Streamdown>
+  );
+}
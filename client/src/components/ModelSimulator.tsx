@@ -0,0 +1,86 @@
+import { useDeferredValue, useState } from "react";
+import { keepPreviousData } from "@tanstack/react-query";
+import { Slider } from "@/components/ui/slider";
+import MathGraph from "@/components/MathGraph";
+import { trpc } from "@/lib/trpc";
+import type { ModelId } from "../../../server/economicModels";
+import { Loader2 } from "lucide-react";
+
+const formatNumber = (value: number) => `${Number(value.toPrecision(6))}`;
+
+/**
+ * Built-in economics models: pick a model, move its parameters with sliders
+ * and see the computed equilibria and graph.
+ */
+export default function ModelSimulator() {
+  const [modelId, setModelId] = useState<ModelId>("supply_demand");
+  // Slider values per model, so switching back keeps earlier settings
+  const [values, setValues] = useState<Partial<Record<ModelId, Record<string, number>>>>({});
+  const parameters = useDeferredValue(values[modelId] ?? {});
+
+  const { data: models } = trpc.models.list.useQuery();
+  const { data: simulation, isFetching } = trpc.models.simulate.useQuery(
+    { model: modelId, parameters },
+    { placeholderData: keepPreviousData }
+  );
+
+  const model = models?.find((m) => m.id === modelId);
+
+  const setValue = (name: string, value: number) =>
+    setValues((prev) => ({ ...prev, [modelId]: { ...prev[modelId], [name]: value } }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <select
+          value={modelId}
+          onChange={(e) => setModelId(e.target.value as ModelId)}
+          className="px-3 py-2 border rounded"
+        >
+          {models?.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.name}
+            </option>
+          ))}
+        </select>
+        {isFetching && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+      </div>
+
+      {model && (
+        <div className="space-y-3">
+          {model.parameters.map((p) => {
+            const value = values[modelId]?.[p.name] ?? p.value;
+            return (
+              <div key={p.name} className="flex items-center gap-3 text-sm">
+                <span className="w-48 shrink-0">
+                  {p.label} = {formatNumber(value)}
+                </span>
+                <Slider
+                  min={p.min}
+                  max={p.max}
+                  step={p.step}
+                  value={[value]}
+                  onValueChange={([v]) => setValue(p.name, v)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {simulation && simulation.model === modelId && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {simulation.results.map((r) => (
+              <div key={r.name} className="p-2 bg-gray-50 rounded text-sm">
+                <div className="text-gray-600">{r.label}</div>
+                <div className="font-mono font-medium">{r.value === null ? "—" : formatNumber(r.value)}</div>
+              </div>
+            ))}
+          </div>
+          <MathGraph data={simulation.graph} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { trpc } from "@/lib/trpc";
+
+interface PerformanceHistoryProps {
+  sessionId: string;
+  // Changes whenever an attempt is graded, wherever it was graded
+  totalProblems: number;
+}
+
+const DIFFICULTY_LABELS = { easy: "簡単", medium: "普通", hard: "難しい" } as const;
+
+const formatPercent = (value: number) => `${value}%`;
+
+export default function PerformanceHistory({ sessionId, totalProblems }: PerformanceHistoryProps) {
+  const { data: history, refetch } = trpc.learning.getPerformanceHistory.useQuery({ sessionId });
+
+  useEffect(() => {
+    refetch();
+  }, [totalProblems, refetch]);
+
+  if (!history || history.timeline.length === 0) return null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-2">正答率の推移</div>
+        <ResponsiveContainer width="100%" height={240}>
+          <LineChart data={history.timeline} margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="attempt" allowDecimals={false} />
+            <YAxis domain={[0, 100]} tickFormatter={formatPercent} width={48} />
+            <Tooltip
+              formatter={(value: number) => formatPercent(value)}
+              labelFormatter={(attempt) => `${attempt} 問目`}
+            />
+            <Legend />
+            <Line
+              type="monotone"
+              dataKey="accuracyRate"
+              name="累計の正答率"
+              stroke="#7c3aed"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="recentAccuracyRate"
+              name="直近5問の正答率"
+              stroke="#16a34a"
+              strokeDasharray="4 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {history.byDifficulty.length > 0 && (
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">難易度別の成績</div>
+          <ul className="space-y-2 text-sm">
+            {history.byDifficulty.map((row) => (
+              <li key={row.difficulty ?? "none"}>
+                <div className="flex justify-between">
+                  <span>{row.difficulty ? DIFFICULTY_LABELS[row.difficulty] : "難易度なし"}</span>
+                  <span className="text-gray-600">
+                    {row.accuracyRate}%（{row.correct}/{row.attempts} 正解）
+                  </span>
+                </div>
+                <div className="h-2 mt-1 bg-gray-200 rounded">
+                  <div className="h-2 bg-purple-500 rounded" style={{ width: `${row.accuracyRate}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
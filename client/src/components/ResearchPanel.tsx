@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MathMarkdown } from "@/components/MathMarkdown";
+import ScenarioComparisonTable from "@/components/ScenarioComparisonTable";
+import { isQuotaExceededError, QUOTA_EXCEEDED_MESSAGE, trpc } from "@/lib/trpc";
+import { RESEARCH_KIND_LABELS, ResearchEntry, ResearchKind } from "@shared/research";
+import { Columns3, FlaskConical, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ResearchPanelProps {
+  sessionId: string;
+  /** Called with each new result; the server has already saved it to the chat log. */
+  onResult: (entry: ResearchEntry) => void;
+}
+
+const PLACEHOLDERS: Record<ResearchKind, string> = {
+  analysis: "分析したい問い（例: なぜ限界効用は逓減するのか）",
+  scenarios: "思考実験の状況（例: 最低賃金を 20% 引き上げたら）",
+  application: "理論（例: 複利計算）",
+};
+
+// How many scenario results can be compared side by side
+const MAX_COMPARED = 3;
+
+/**
+ * Research / 思考実験 panel: runs the research router procedures and lets
+ * students compare thought-experiment results side by side.
+ */
+export default function ResearchPanel({ sessionId, onResult }: ResearchPanelProps) {
+  const [kind, setKind] = useState<ResearchKind>("scenarios");
+  const [prompt, setPrompt] = useState("");
+  const [context, setContext] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: entries = [] } = trpc.research.getEntries.useQuery({ sessionId });
+  const analyzeMutation = trpc.research.analyzeQuestion.useMutation();
+  const scenariosMutation = trpc.research.generateScenarios.useMutation();
+  const applyMutation = trpc.research.applyToRealWorld.useMutation();
+  const isRunning = analyzeMutation.isPending || scenariosMutation.isPending || applyMutation.isPending;
+
+  const scenarioEntries = entries.filter((entry) => entry.kind === "scenarios");
+  const compared = scenarioEntries.filter((entry) => selectedIds.includes(entry.id));
+
+  const run = async () => {
+    if (!prompt.trim() || (kind === "application" && !context.trim())) return;
+
+    try {
+      const { entry } =
+        kind === "analysis"
+          ? await analyzeMutation.mutateAsync({ sessionId, question: prompt })
+          : kind === "scenarios"
+            ? await scenariosMutation.mutateAsync({ sessionId, scenario: prompt })
+            : await applyMutation.mutateAsync({ sessionId, theory: prompt, context });
+
+      onResult(entry);
+      setPrompt("");
+      setContext("");
+      await utils.research.getEntries.invalidate({ sessionId });
+    } catch (error) {
+      console.error("Failed to run research:", error);
+      toast.error(isQuotaExceededError(error) ? QUOTA_EXCEEDED_MESSAGE : `${RESEARCH_KIND_LABELS[kind]}に失敗しました`);
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-MAX_COMPARED)
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 font-medium">
+        <FlaskConical className="w-4 h-4" />
+        思考実験・リサーチ
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {(Object.keys(RESEARCH_KIND_LABELS) as ResearchKind[]).map((k) => (
+          <Button key={k} size="sm" variant={kind === k ? "default" : "outline"} onClick={() => setKind(k)}>
+            {RESEARCH_KIND_LABELS[k]}
+          </Button>
+        ))}
+      </div>
+
+      <Input value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={PLACEHOLDERS[kind]} />
+      {kind === "application" && (
+        <Input
+          value={context}
+          onChange={(e) => setContext(e.target.value)}
+          placeholder="現実の状況（例: 住宅ローンの返済計画）"
+        />
+      )}
+      <Button onClick={run} disabled={isRunning || !prompt.trim()} className="w-full">
+        {isRunning ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            実行中...
+          </>
+        ) : (
+          `${RESEARCH_KIND_LABELS[kind]}を実行`
+        )}
+      </Button>
+
+      {scenarioEntries.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">比較する思考実験を選択（最大 {MAX_COMPARED} 件）</p>
+          {scenarioEntries.map((entry) => (
+            <label key={entry.id} className="flex items-center gap-2 text-sm">
+              <Checkbox checked={selectedIds.includes(entry.id)} onCheckedChange={() => toggleSelected(entry.id)} />
+              <span className="truncate">{entry.prompt}</span>
+            </label>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={compared.length < 2}
+            onClick={() => setIsComparing(true)}
+            className="w-full"
+          >
+            <Columns3 className="mr-2 h-4 w-4" />
+            並べて比較
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={isComparing} onOpenChange={setIsComparing}>
+        <DialogContent className="sm:max-w-6xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>思考実験の比較</DialogTitle>
+          </DialogHeader>
+          {compared.every((entry) => entry.comparison) ? (
+            // Structured results are merged into one table, one column per scenario
+            <ScenarioComparisonTable
+              scenarios={compared.flatMap((entry) =>
+                entry.comparison!.scenarios.map((scenario) => ({
+                  ...scenario,
+                  name: `${entry.prompt} / ${scenario.name}`,
+                }))
+              )}
+            />
+          ) : (
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${compared.length}, minmax(0, 1fr))` }}>
+              {compared.map((entry) => (
+                <div key={entry.id} className="space-y-2 border rounded-lg p-3 text-sm">
+                  <div className="font-medium">{entry.prompt}</div>
+                  <MathMarkdown>{entry.body}</MathMarkdown>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MathMarkdown } from "@/components/MathMarkdown";
+import { trpc } from "@/lib/trpc";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+type ReviewRating = "again" | "hard" | "good" | "easy";
+
+const RATING_LABELS: Array<{ rating: ReviewRating; label: string }> = [
+  { rating: "again", label: "もう一度" },
+  { rating: "hard", label: "難しい" },
+  { rating: "good", label: "できた" },
+  { rating: "easy", label: "簡単" },
+];
+
+interface QuizResult {
+  selectedIndex: number;
+  isCorrect: boolean;
+  correctIndex: number | null;
+  explanation: string | null;
+  intervalDays: number;
+}
+
+/**
+ * Spaced-repetition review of missed quizzes and practice problems from all
+ * of the user's sessions. Shows one due item at a time.
+ */
+export default function ReviewQueue() {
+  const [showSolution, setShowSolution] = useState(false);
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.learning.getDueReviews.useQuery({ limit: 20 });
+  const recordReviewMutation = trpc.learning.recordReview.useMutation();
+
+  const item = data?.items[0];
+
+  const nextItem = async () => {
+    setShowSolution(false);
+    setQuizResult(null);
+    await utils.learning.getDueReviews.invalidate();
+  };
+
+  const answerQuiz = async (reviewId: number, selectedIndex: number) => {
+    try {
+      const result = await recordReviewMutation.mutateAsync({ reviewId, selectedIndex });
+      setQuizResult({
+        selectedIndex,
+        isCorrect: result.isCorrect === true,
+        correctIndex: result.correctIndex,
+        explanation: result.explanation,
+        intervalDays: result.intervalDays,
+      });
+    } catch (error) {
+      console.error("Failed to record review:", error);
+      toast.error("復習の記録に失敗しました");
+    }
+  };
+
+  const rateProblem = async (reviewId: number, rating: ReviewRating) => {
+    try {
+      const result = await recordReviewMutation.mutateAsync({ reviewId, rating });
+      toast.success(`次の復習は ${result.intervalDays} 日後です`);
+      await nextItem();
+    } catch (error) {
+      console.error("Failed to record review:", error);
+      toast.error("復習の記録に失敗しました");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!item) {
+    return (
+      <p className="text-sm text-gray-600">
+        今日復習する問題はありません。間違えたクイズや解けなかった練習問題は、ここに復習として表示されます。
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Badge variant="secondary">{item.topic}</Badge>
+        <span className="text-sm text-gray-600">残り {data?.dueCount ?? 0} 問</span>
+      </div>
+
+      {item.quiz && (
+        <div className="space-y-3">
+          <MathMarkdown>{item.quiz.question}</MathMarkdown>
+          <div className="grid gap-2">
+            {item.quiz.options.map((option, optionIndex) => (
+              <Button
+                key={optionIndex}
+                variant="outline"
+                disabled={quizResult !== null || recordReviewMutation.isPending}
+                onClick={() => answerQuiz(item.id, optionIndex)}
+                className={`justify-start h-auto whitespace-normal text-left disabled:opacity-100 ${
+                  quizResult && quizResult.correctIndex === optionIndex
+                    ? "border-green-500 bg-green-50"
+                    : quizResult && quizResult.selectedIndex === optionIndex
+                      ? "border-red-500 bg-red-50"
+                      : ""
+                }`}
+              >
+                <span className="mr-2 shrink-0">({String.fromCharCode(65 + optionIndex)})</span>
+                <MathMarkdown>{option}</MathMarkdown>
+              </Button>
+            ))}
+          </div>
+
+          {quizResult && (
+            <div className="space-y-3">
+              <div
+                className={`flex gap-2 text-sm ${
+                  quizResult.isCorrect ? "text-green-700" : "text-red-700"
+                }`}
+              >
+                {quizResult.isCorrect ? (
+                  <CheckCircle2 className="w-4 h-4 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                )}
+                <div>
+                  <div className="font-medium">
+                    {quizResult.isCorrect ? "正解！" : "不正解"}（次の復習は {quizResult.intervalDays} 日後）
+                  </div>
+                  {quizResult.explanation && (
+                    <div className="text-gray-700 mt-1">
+                      <MathMarkdown>{quizResult.explanation}</MathMarkdown>
+                    </div>
+                  )}
+                </div>
+              </div>
+              <Button onClick={nextItem} className="w-full">
+                次へ
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {item.problem && (
+        <div className="space-y-3">
+          <MathMarkdown>{item.problem.problemText}</MathMarkdown>
+          {showSolution ? (
+            <>
+              <div className="p-3 bg-gray-50 rounded border text-sm">
+                <MathMarkdown>{item.problem.solution ?? ""}</MathMarkdown>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {RATING_LABELS.map(({ rating, label }) => (
+                  <Button
+                    key={rating}
+                    variant={rating === "again" ? "destructive" : "outline"}
+                    size="sm"
+                    disabled={recordReviewMutation.isPending}
+                    onClick={() => rateProblem(item.id, rating)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => setShowSolution(true)} className="w-full">
+              解答を表示
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
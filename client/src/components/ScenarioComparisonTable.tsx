@@ -0,0 +1,84 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MathMarkdown } from "@/components/MathMarkdown";
+import MathGraph from "@/components/MathGraph";
+import { samplePlot } from "@shared/plotting";
+import { Scenario } from "@shared/research";
+import { ChartLine } from "lucide-react";
+
+interface ScenarioComparisonTableProps {
+  scenarios: Scenario[];
+  onShareParameters?: (text: string) => void;
+}
+
+const ROWS: Array<{ label: string; render: (scenario: Scenario) => string }> = [
+  { label: "初期条件", render: (s) => s.initialConditions },
+  { label: "モデル", render: (s) => s.equations.map((equation) => `- ${equation}`).join("\n") },
+  { label: "変数", render: (s) => s.variables.map((v) => `- ${v.symbol}: ${v.meaning}`).join("\n") },
+  { label: "予測される結果", render: (s) => s.predictedOutcome },
+  { label: "仮定", render: (s) => s.assumptions.map((assumption) => `- ${assumption}`).join("\n") },
+];
+
+/**
+ * Thought-experiment scenarios side by side, one column per scenario. A
+ * scenario whose model can be drawn gets a button that plots it below.
+ */
+export default function ScenarioComparisonTable({ scenarios, onShareParameters }: ScenarioComparisonTableProps) {
+  const [plotted, setPlotted] = useState<number | null>(null);
+  const plottedScenario = plotted === null ? null : scenarios[plotted];
+  const graph = useMemo(
+    () => (plottedScenario?.plot ? samplePlot(plottedScenario.plot) : null),
+    [plottedScenario]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 bg-gray-50 w-24" />
+              {scenarios.map((scenario, i) => (
+                <th key={i} className="border p-2 bg-gray-50 text-left align-top">
+                  {scenario.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map((row) => (
+              <tr key={row.label}>
+                <th className="border p-2 bg-gray-50 text-left align-top font-medium">{row.label}</th>
+                {scenarios.map((scenario, i) => (
+                  <td key={i} className="border p-2 align-top">
+                    <MathMarkdown>{row.render(scenario) || "—"}</MathMarkdown>
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <th className="border p-2 bg-gray-50 text-left align-top font-medium">グラフ</th>
+              {scenarios.map((scenario, i) => (
+                <td key={i} className="border p-2 align-top">
+                  {scenario.plot ? (
+                    <Button
+                      variant={plotted === i ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setPlotted(plotted === i ? null : i)}
+                    >
+                      <ChartLine className="mr-2 h-4 w-4" />
+                      {plotted === i ? "閉じる" : "グラフ化"}
+                    </Button>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {graph && <MathGraph key={plotted} data={graph} onShareParameters={onShareParameters} />}
+    </div>
+  );
+}
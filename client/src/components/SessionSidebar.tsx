@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import { trpc } from "@/lib/trpc";
+import {
+  Archive,
+  ArchiveRestore,
+  Loader2,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+
+interface SessionSidebarProps {
+  activeSessionId: string | null;
+  onSelectSession: (sessionId: string) => void;
+  onNewSession: () => void;
+  onSessionDeleted: (sessionId: string) => void;
+}
+
+export default function SessionSidebar({
+  activeSessionId,
+  onSelectSession,
+  onNewSession,
+  onSessionDeleted,
+}: SessionSidebarProps) {
+  const [searchText, setSearchText] = useState("");
+  const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const renameMutation = trpc.sessions.rename.useMutation();
+  const archiveMutation = trpc.sessions.archive.useMutation();
+  const deleteMutation = trpc.sessions.delete.useMutation();
+
+  // Debounce the search box so we don't query on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchText.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const sessionsQuery = trpc.sessions.list.useInfiniteQuery(
+    { search: search || undefined, archived: showArchived, limit: 20 },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+  const sessions = sessionsQuery.data?.pages.flatMap((page) => page.sessions) ?? [];
+
+  const startRename = (sessionId: string, topic: string) => {
+    setRenamingId(sessionId);
+    setRenameText(topic);
+  };
+
+  const submitRename = async () => {
+    if (!renamingId) return;
+    const topic = renameText.trim();
+    const sessionId = renamingId;
+    setRenamingId(null);
+    if (!topic) return;
+
+    try {
+      await renameMutation.mutateAsync({ sessionId, topic });
+      await Promise.all([
+        utils.sessions.list.invalidate(),
+        utils.sessions.get.invalidate({ sessionId }),
+      ]);
+    } catch (error) {
+      console.error("Failed to rename session:", error);
+    }
+  };
+
+  const toggleArchive = async (sessionId: string, archived: boolean) => {
+    try {
+      await archiveMutation.mutateAsync({ sessionId, archived });
+      await utils.sessions.list.invalidate();
+    } catch (error) {
+      console.error("Failed to archive session:", error);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingId) return;
+    const sessionId = deletingId;
+    setDeletingId(null);
+
+    try {
+      await deleteMutation.mutateAsync({ sessionId });
+      await utils.sessions.list.invalidate();
+      onSessionDeleted(sessionId);
+    } catch (error) {
+      console.error("Failed to delete session:", error);
+    }
+  };
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader className="gap-3">
+          <Button onClick={onNewSession} className="w-full">
+            <Plus className="mr-2 h-4 w-4" />
+            新しいセッション
+          </Button>
+          <SidebarInput
+            placeholder="トピックで検索..."
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+          />
+        </SidebarHeader>
+
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>
+              {showArchived ? "アーカイブ済み" : "学習履歴"}
+            </SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {sessionsQuery.isLoading &&
+                  Array.from({ length: 4 }).map((_, i) => (
+                    <SidebarMenuItem key={i}>
+                      <SidebarMenuSkeleton />
+                    </SidebarMenuItem>
+                  ))}
+
+                {!sessionsQuery.isLoading && sessions.length === 0 && (
+                  <p className="px-2 py-4 text-sm text-muted-foreground">
+                    {search ? "一致するセッションがありません" : "セッションはまだありません"}
+                  </p>
+                )}
+
+                {sessions.map((session) => (
+                  <SidebarMenuItem key={session.id}>
+                    {renamingId === session.id ? (
+                      <Input
+                        autoFocus
+                        value={renameText}
+                        onChange={(e) => setRenameText(e.target.value)}
+                        onBlur={submitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") submitRename();
+                          if (e.key === "Escape") setRenamingId(null);
+                        }}
+                        className="h-8"
+                      />
+                    ) : (
+                      <SidebarMenuButton
+                        isActive={session.id === activeSessionId}
+                        onClick={() => onSelectSession(session.id)}
+                        className="h-auto py-2"
+                      >
+                        <MessageSquare className="h-4 w-4 shrink-0" />
+                        <div className="min-w-0">
+                          <div className="truncate">{session.topic}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {new Date(session.updatedAt).toLocaleString("ja-JP")}
+                          </div>
+                        </div>
+                      </SidebarMenuButton>
+                    )}
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover>
+                          <MoreHorizontal />
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onClick={() => startRename(session.id, session.topic)}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          名前を変更
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => toggleArchive(session.id, !showArchived)}>
+                          {showArchived ? (
+                            <>
+                              <ArchiveRestore className="mr-2 h-4 w-4" />
+                              アーカイブから戻す
+                            </>
+                          ) : (
+                            <>
+                              <Archive className="mr-2 h-4 w-4" />
+                              アーカイブ
+                            </>
+                          )}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => setDeletingId(session.id)}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          削除
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+
+              {sessionsQuery.hasNextPage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full mt-2"
+                  onClick={() => sessionsQuery.fetchNextPage()}
+                  disabled={sessionsQuery.isFetchingNextPage}
+                >
+                  {sessionsQuery.isFetchingNextPage ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "さらに読み込む"
+                  )}
+                </Button>
+              )}
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+
+        <SidebarFooter>
+          <Button variant="ghost" size="sm" onClick={() => setShowArchived((prev) => !prev)}>
+            {showArchived ? (
+              <>
+                <MessageSquare className="mr-2 h-4 w-4" />
+                学習履歴を表示
+              </>
+            ) : (
+              <>
+                <Archive className="mr-2 h-4 w-4" />
+                アーカイブを表示
+              </>
+            )}
+          </Button>
+        </SidebarFooter>
+      </Sidebar>
+
+      <AlertDialog open={deletingId !== null} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>セッションを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              会話履歴・練習問題・クイズ・ノートもすべて削除されます。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>削除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from "react";
+import { MAX_VOICE_SECONDS, VOICE_MIME_TYPES, VoiceMimeType } from "@shared/voice";
+import { usePersistFn } from "./usePersistFn";
+
+export type VoiceRecording = {
+  // Base64 without the data: URL prefix, as voice.transcribe expects
+  base64: string;
+  mimeType: VoiceMimeType;
+  durationMs: number;
+};
+
+// Container formats to try, in order of preference
+const RECORDER_FORMATS = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// "audio/webm;codecs=opus" -> "audio/webm"; null for formats the server does not accept
+const toVoiceMimeType = (type: string) => {
+  const base = type.split(";")[0].trim().toLowerCase();
+  return (VOICE_MIME_TYPES as readonly string[]).includes(base) ? (base as VoiceMimeType) : null;
+};
+
+/**
+ * Record audio from the microphone with MediaRecorder. Recording stops on
+ * stop() or after MAX_VOICE_SECONDS, and the result is passed to onRecorded.
+ */
+export function useVoiceRecorder(
+  onRecorded: (recording: VoiceRecording) => void,
+  onError: (error: unknown) => void
+) {
+  const handleRecorded = usePersistFn(onRecorded);
+  const handleError = usePersistFn(onError);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const isSupported =
+    typeof window !== "undefined" && typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+  const clearTimer = () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const stop = usePersistFn(() => {
+    clearTimer();
+    if (recorderRef.current?.state === "recording") {
+      recorderRef.current.stop();
+    }
+  });
+
+  const start = usePersistFn(async () => {
+    if (recorderRef.current) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const format = RECORDER_FORMATS.find((type) => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, format ? { mimeType: format } : undefined);
+      const chunks: Blob[] = [];
+      const startedAt = Date.now();
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = async () => {
+        stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+
+        try {
+          const mimeType = toVoiceMimeType(recorder.mimeType || format || "");
+          if (!mimeType) throw new Error(`Unsupported recording format: ${recorder.mimeType}`);
+          const blob = new Blob(chunks, { type: mimeType });
+          handleRecorded({ base64: await blobToBase64(blob), mimeType, durationMs: Date.now() - startedAt });
+        } catch (error) {
+          handleError(error);
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+      setElapsedSeconds(0);
+      timerRef.current = window.setInterval(() => {
+        const seconds = Math.floor((Date.now() - startedAt) / 1000);
+        setElapsedSeconds(seconds);
+        if (seconds >= MAX_VOICE_SECONDS) stop();
+      }, 250);
+    } catch (error) {
+      // Microphone permission denied or no input device
+      handleError(error);
+    }
+  });
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(
+    () => () => {
+      clearTimer();
+      if (recorderRef.current?.state === "recording") {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+        recorderRef.current.stream.getTracks().forEach((track) => track.stop());
+      }
+    },
+    []
+  );
+
+  return { isSupported, isRecording, elapsedSeconds, start, stop };
+}
@@ -1,4 +1,11 @@
 import { createTRPCReact } from "@trpc/react-query";
+import { TRPCClientError } from "@trpc/client";
 import type { AppRouter } from "../../../server/routers";
 
 export const trpc = createTRPCReact<AppRouter>();
+
+export const QUOTA_EXCEEDED_MESSAGE = "本日の AI 利用上限に達しました。明日またお試しください。";
+
+/** Whether the request was rejected because the user's daily AI token quota is used up. */
+export const isQuotaExceededError = (error: unknown) =>
+  error instanceof TRPCClientError && error.data?.code === "TOO_MANY_REQUESTS";
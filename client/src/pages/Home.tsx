@@ -3,37 +3,48 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Loader2, Plus, Download, FileText } from "lucide-react";
-import { trpc } from "@/lib/trpc";
+import { Send, Loader2, Plus, Download, FileText, Square, Sigma, ChartLine, Camera, Mic } from "lucide-react";
+import { isQuotaExceededError, QUOTA_EXCEEDED_MESSAGE, trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { getLoginUrl } from "@/const";
 import { nanoid } from "nanoid";
-import { Streamdown } from "streamdown";
+import { MathMarkdown } from "@/components/MathMarkdown";
+import { latexToPlainText } from "@/utils/mathText";
+import { captureGraph, exportToPDF, ReportMessage } from "@/utils/pdfExport";
+import { GraphData, parseGraphData } from "@shared/graph";
+import { parseResearchEntry, RESEARCH_KIND_LABELS, ResearchEntry } from "@shared/research";
+import { parsePhotoEntry, PhotoEntry } from "@shared/photo";
+import { preparePhoto } from "@/utils/photo";
+import { useVoiceRecorder, VoiceRecording } from "@/hooks/useVoiceRecorder";
+import { MAX_VOICE_SECONDS } from "@shared/voice";
+import { TRPCClientError } from "@trpc/client";
+import { toast } from "sonner";
 import MathGraph from "@/components/MathGraph";
 import LearningTabs from "@/components/LearningTabs";
-
-interface GraphData {
-  type: "line" | "bar" | "scatter" | "area";
-  title: string;
-  xAxis: {
-    label: string;
-    data: (string | number)[];
-  };
-  yAxis: {
-    label: string;
-  };
-  series: Array<{
-    name: string;
-    data: (number | null)[];
-  }>;
-}
+import ResearchPanel from "@/components/ResearchPanel";
+import ScenarioComparisonTable from "@/components/ScenarioComparisonTable";
+import SessionSidebar from "@/components/SessionSidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 
 interface Message {
   id: string;
   sender: "user" | "assistant";
   content: string;
-  contentType: "text" | "json" | "markdown";
+  contentType: "text" | "json" | "markdown" | "research" | "image";
   graphData?: GraphData;
+  research?: ResearchEntry;
+  photo?: PhotoEntry;
 }
 
+// voice.transcribe reports recordings over the size or duration limit as PAYLOAD_TOO_LARGE,
+// whether it catches them before upload or from the transcribed length
+const transcriptionErrorMessage = (error: unknown) =>
+  error instanceof TRPCClientError && error.data?.code === "PAYLOAD_TOO_LARGE"
+    ? `録音が長すぎます。${MAX_VOICE_SECONDS} 秒以内で質問してください。`
+    : "音声を文字に変換できませんでした。もう一度お試しください。";
+
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
 export default function Home() {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [topic, setTopic] = useState("");
@@ -41,23 +52,54 @@ export default function Home() {
   const [inputMessage, setInputMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [sessionStarted, setSessionStarted] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const stopStreamRef = useRef<(() => void) | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
 
   // tRPC mutations
   const createSessionMutation = trpc.sessions.create.useMutation();
-  const addMessageMutation = trpc.sessions.addMessage.useMutation();
-  const sendMessageMutation = trpc.chat.sendMessage.useMutation();
+  const generateGraphMutation = trpc.chat.generateGraphData.useMutation();
+  const analyzePhotoMutation = trpc.chat.analyzePhoto.useMutation();
+  const transcribeMutation = trpc.voice.transcribe.useMutation();
+  const utils = trpc.useUtils();
   const updatePerformanceMutation = trpc.learning.updateSessionPerformance.useMutation();
-  const getChatLogsQuery = trpc.sessions.getChatLogs.useQuery;
+  const setMathNotationMutation = trpc.preferences.setMathNotation.useMutation();
+  const { user, loading: authLoading } = useAuth();
+
+  // The transcript goes into the input box so the student can correct it before sending
+  const handleRecording = async (recording: VoiceRecording) => {
+    try {
+      const result = await transcribeMutation.mutateAsync({
+        audio: recording.base64,
+        mimeType: recording.mimeType,
+        durationMs: recording.durationMs,
+      });
+      if (!result.text) {
+        toast.error("音声を聞き取れませんでした。もう一度お試しください。");
+        return;
+      }
+      setInputMessage((prev) => (prev ? `${prev} ${result.text}` : result.text));
+    } catch (error) {
+      console.error("Failed to transcribe recording:", error);
+      toast.error(transcriptionErrorMessage(error));
+    }
+  };
+  const voiceRecorder = useVoiceRecorder(handleRecording, (error) => {
+    console.error("Failed to record audio:", error);
+    toast.error("マイクを使用できませんでした。ブラウザでマイクへのアクセスを許可してください。");
+  });
 
-  // Initialize session from localStorage
+  // Initialize session from localStorage once the user is known
   useEffect(() => {
+    if (!user) return;
     const savedSessionId = localStorage.getItem("mathMentorSessionId");
     if (savedSessionId) {
       setSessionId(savedSessionId);
       loadSession(savedSessionId);
     }
-  }, []);
+  }, [user]);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -66,23 +108,139 @@ export default function Home() {
     }
   }, [messages]);
 
+  // Stream the AI reply into a placeholder message. The server saves the user
+  // message and the reply together once the stream completes or is stopped;
+  // the message's id is the idempotency key, so a retry cannot save it twice.
+  const streamAssistantReply = (targetSessionId: string, userMessage: Message) =>
+    new Promise<void>((resolve) => {
+      const assistantId = nanoid();
+      setMessages((prev) => [
+        ...prev,
+        { id: assistantId, sender: "assistant", content: "", contentType: "markdown" },
+      ]);
+
+      const updateReply = (update: (message: Message) => Message) => {
+        setMessages((prev) =>
+          prev.map((message) => (message.id === assistantId ? update(message) : message))
+        );
+      };
+
+      const finish = () => {
+        stopStreamRef.current = null;
+        setIsStreaming(false);
+        // The new reply moves this session to the top of the history list
+        utils.sessions.list.invalidate();
+        resolve();
+      };
+
+      setIsStreaming(true);
+      const subscription = utils.client.chat.streamMessage.subscribe(
+        { sessionId: targetSessionId, message: userMessage.content, clientMessageId: userMessage.id },
+        {
+          onData: (event) => {
+            if (event.type === "delta") {
+              updateReply((message) => ({ ...message, content: message.content + event.text }));
+            } else if (event.type === "discard") {
+              // Text before a tool call is not part of the reply
+              updateReply((message) => ({ ...message, content: "" }));
+            } else if (event.type === "graph") {
+              // Graphs shown by the tutor's tools go above the reply, as they are stored
+              const graphMessage: Message = {
+                id: nanoid(),
+                sender: "assistant",
+                content: event.graph.title,
+                contentType: "json",
+                graphData: event.graph,
+              };
+              setMessages((prev) => {
+                const index = prev.findIndex((message) => message.id === assistantId);
+                return index === -1
+                  ? [...prev, graphMessage]
+                  : [...prev.slice(0, index), graphMessage, ...prev.slice(index)];
+              });
+            } else if (event.verdict) {
+              // The message was graded as an answer to a pending problem or quiz
+              utils.learning.getPracticeProblems.invalidate();
+              utils.learning.getQuizzes.invalidate();
+              utils.learning.getSessionPerformance.invalidate();
+              utils.learning.getMastery.invalidate();
+            }
+          },
+          onError: (error) => {
+            console.error("Failed to get AI response:", error);
+            updateReply((message) =>
+              message.content
+                ? message
+                : {
+                    ...message,
+                    content: isQuotaExceededError(error)
+                      ? QUOTA_EXCEEDED_MESSAGE
+                      : "申し訳ありません。AI応答の取得に失敗しました。",
+                    contentType: "text",
+                  }
+            );
+            finish();
+          },
+          onComplete: finish,
+        }
+      );
+
+      stopStreamRef.current = () => {
+        subscription.unsubscribe();
+        finish();
+      };
+    });
+
+  const stopStreaming = () => {
+    stopStreamRef.current?.();
+  };
+
   const loadSession = async (id: string) => {
     try {
-      // Use the query hook to fetch chat logs
-      const result = await getChatLogsQuery({ sessionId: id });
-      if (result.data) {
-        setMessages(
-          result.data.map((log) => ({
+      const [session, logs] = await Promise.all([
+        utils.sessions.get.fetch({ sessionId: id }),
+        utils.sessions.getChatLogs.fetch({ sessionId: id }),
+      ]);
+      setTopic(session.topic);
+      setMessages(
+        logs.map((log) => {
+          // Graphs are stored as "json" logs holding a GraphData spec
+          const graphData = log.contentType === "json" ? parseGraphData(log.content) : null;
+          // Research panel results are stored as "research" logs holding a ResearchEntry
+          const research = log.contentType === "research" ? parseResearchEntry(log.content) : null;
+          // Photos of handwritten work are stored as "image" logs holding a PhotoEntry
+          const photo = log.contentType === "image" ? parsePhotoEntry(log.content) : null;
+          return {
             id: `${log.id}`,
             sender: log.sender,
-            content: log.content,
-            contentType: log.contentType as "text" | "json" | "markdown",
-          }))
-        );
-      }
+            content: graphData ? graphData.title : research ? research.body : photo ? photo.note : log.content,
+            contentType: log.contentType,
+            graphData: graphData ?? undefined,
+            research: research ?? undefined,
+            photo: photo ?? undefined,
+          };
+        })
+      );
       setSessionStarted(true);
     } catch (error) {
+      // The saved session no longer exists or belongs to another user
       console.error("Failed to load session:", error);
+      startNewSession();
+    }
+  };
+
+  const selectSession = (id: string) => {
+    if (id === sessionId) return;
+    stopStreaming();
+    setSessionId(id);
+    setInputMessage("");
+    localStorage.setItem("mathMentorSessionId", id);
+    loadSession(id);
+  };
+
+  const handleSessionDeleted = (id: string) => {
+    if (id === sessionId) {
+      startNewSession();
     }
   };
 
@@ -97,6 +255,7 @@ export default function Home() {
       });
 
       const newSessionId = newSession.id;
+      utils.sessions.list.invalidate();
       setSessionId(newSessionId);
       localStorage.setItem("mathMentorSessionId", newSessionId);
       setSessionStarted(true);
@@ -111,125 +270,133 @@ export default function Home() {
       };
 
       setMessages([userMessage]);
-      await addMessageMutation.mutateAsync({
-        sessionId: newSessionId,
-        sender: "user",
-        content: userMessage.content,
-        contentType: "text",
-      });
-
-      // Get AI response
-      let assistantContent = "申し訳ありません。AI応答の取得に失敗しました。";
-      let assistantContentType: "text" | "markdown" = "text";
 
-      try {
-        const aiResponse = await sendMessageMutation.mutateAsync({
-          sessionId: newSessionId,
-          message: userMessage.content,
-        });
+      // Stream AI response
+      await streamAssistantReply(newSessionId, userMessage);
+    } catch (error) {
+      console.error("Failed to create session:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        assistantContent = aiResponse.response || assistantContent;
-        assistantContentType = aiResponse.contentType || "markdown";
-      } catch (error) {
-        console.error("Failed to get AI response:", error);
-      }
+  const sendMessage = async () => {
+    if (!inputMessage.trim() || !sessionId) return;
 
-      const assistantMessage: Message = {
+    try {
+      setIsLoading(true);
+      const userMessage: Message = {
         id: nanoid(),
-        sender: "assistant",
-        content: assistantContent,
-        contentType: assistantContentType,
+        sender: "user",
+        content: inputMessage,
+        contentType: "text",
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
-      try {
-        await addMessageMutation.mutateAsync({
-          sessionId: newSessionId,
-          sender: "assistant",
-          content: assistantMessage.content,
-          contentType: assistantContentType,
-        });
-      } catch (error) {
-        console.error("Failed to save assistant message:", error);
-      }
+      setMessages((prev) => [...prev, userMessage]);
+      setInputMessage("");
+
+      // Stream AI response
+      // Note: Performance is updated on the backend side once the stream completes
+      await streamAssistantReply(sessionId, userMessage);
     } catch (error) {
-      console.error("Failed to create session:", error);
+      console.error("Failed to send message:", error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const sendMessage = async () => {
+  // Turn the typed request into a graph; the server validates and saves it
+  const generateGraph = async () => {
     if (!inputMessage.trim() || !sessionId) return;
 
     try {
       setIsLoading(true);
+      const description = inputMessage;
       const userMessage: Message = {
         id: nanoid(),
         sender: "user",
-        content: inputMessage,
+        content: `グラフ化: ${description}`,
         contentType: "text",
       };
 
       setMessages((prev) => [...prev, userMessage]);
       setInputMessage("");
 
-      await addMessageMutation.mutateAsync({
+      // The server saves the request as the user's message together with the graph
+      const graphData = await generateGraphMutation.mutateAsync({
         sessionId,
-        sender: "user",
-        content: userMessage.content,
-        contentType: "text",
+        description,
+        clientMessageId: userMessage.id,
       });
+      setMessages((prev) => [
+        ...prev,
+        { id: nanoid(), sender: "assistant", content: graphData.title, contentType: "json", graphData },
+      ]);
+      utils.sessions.list.invalidate();
+    } catch (error) {
+      console.error("Failed to generate graph:", error);
+      toast.error(
+        isQuotaExceededError(error)
+          ? QUOTA_EXCEEDED_MESSAGE
+          : "グラフを作成できませんでした。内容を変えてもう一度お試しください。"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Get AI response
-      let assistantContent = "申し訳ありません。AI応答の取得に失敗しました。";
-      let assistantContentType: "text" | "markdown" = "text";
-      let isAnswerEvaluation = false;
-      let isCorrect = false;
-
-      try {
-        const aiResponse = await sendMessageMutation.mutateAsync({
-          sessionId,
-          message: inputMessage,
-        });
-
-        assistantContent = aiResponse.response || assistantContent;
-        assistantContentType = aiResponse.contentType || "markdown";
-        isAnswerEvaluation = aiResponse.isAnswerEvaluation || false;
-        isCorrect = aiResponse.isCorrect || false;
-      } catch (error) {
-        console.error("Failed to get AI response:", error);
-      }
+  // Send a photo of handwritten work for line-by-line feedback; typed text goes with it as a note
+  const sendPhoto = async (file: File) => {
+    if (!sessionId) return;
 
-      const assistantMessage: Message = {
+    try {
+      setIsLoading(true);
+      const prepared = await preparePhoto(file);
+      const note = inputMessage.trim();
+      const userMessage: Message = {
         id: nanoid(),
-        sender: "assistant",
-        content: assistantContent,
-        contentType: assistantContentType,
+        sender: "user",
+        content: note,
+        contentType: "image",
+        // Shown from memory until the session is reloaded from the server
+        photo: { url: prepared.dataUrl, key: "", mimeType: prepared.mimeType, note, transcription: [] },
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
-      try {
-        await addMessageMutation.mutateAsync({
-          sessionId,
-          sender: "assistant",
-          content: assistantMessage.content,
-          contentType: assistantContentType,
-        });
-      } catch (error) {
-        console.error("Failed to save assistant message:", error);
-      }
+      setMessages((prev) => [...prev, userMessage]);
+      setInputMessage("");
 
-      // Note: Performance is already updated on the backend side in chat.ts
-      // No need to call updatePerformanceMutation here to avoid double counting
+      // The server stores the photo and saves it as the user's message together with the feedback
+      const result = await analyzePhotoMutation.mutateAsync({
+        sessionId,
+        image: prepared.base64,
+        mimeType: prepared.mimeType,
+        note,
+        clientMessageId: userMessage.id,
+      });
+      setMessages((prev) => [
+        ...prev,
+        { id: nanoid(), sender: "assistant", content: result.reply, contentType: "markdown" },
+      ]);
+      utils.sessions.list.invalidate();
     } catch (error) {
-      console.error("Failed to send message:", error);
+      console.error("Failed to check photo:", error);
+      toast.error(
+        isQuotaExceededError(error)
+          ? QUOTA_EXCEEDED_MESSAGE
+          : "写真の解答を確認できませんでした。写真を変えてもう一度お試しください。"
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Slider settings from a graph are prepended to the next question as context
+  const shareGraphParameters = (text: string) => {
+    setInputMessage((prev) => (prev ? `${text} ${prev}` : `${text} `));
+  };
+
   const startNewSession = () => {
+    stopStreaming();
     setSessionId(null);
     setTopic("");
     setMessages([]);
@@ -246,7 +413,13 @@ export default function Home() {
 
     messages.forEach((msg) => {
       text += `${msg.sender === "user" ? "【ユーザー】" : "【AI】"}\n`;
-      text += `${msg.content}\n\n`;
+      if (msg.research) {
+        text += `[${RESEARCH_KIND_LABELS[msg.research.kind]}] ${msg.research.prompt}\n`;
+      }
+      if (msg.photo) {
+        text += `[手書きの解答の写真]\n`;
+      }
+      text += `${latexToPlainText(msg.content)}\n\n`;
     });
 
     const element = document.createElement("a");
@@ -258,8 +431,104 @@ export default function Home() {
     document.body.removeChild(element);
   };
 
+  // Session report with quizzes, notes and performance; graphs are captured from the rendered charts
+  const exportAsPdf = async () => {
+    if (!sessionId) return;
+    setIsExportingPdf(true);
+    try {
+      const [quizzes, notes, performance, history] = await Promise.all([
+        utils.learning.getQuizzes.fetch({ sessionId }),
+        utils.learning.getNotes.fetch({ sessionId }),
+        utils.learning.getSessionPerformance.fetch({ sessionId }),
+        utils.learning.getPerformanceHistory.fetch({ sessionId }),
+      ]);
+
+      const reportMessages: ReportMessage[] = await Promise.all(
+        messages.map(async (msg): Promise<ReportMessage> => {
+          if (msg.graphData) {
+            const container = document.querySelector(`[data-graph-message="${msg.id}"]`);
+            return {
+              sender: msg.sender,
+              content: msg.content,
+              graph: {
+                title: msg.graphData.title,
+                series: msg.graphData.series.map((s) => s.name),
+                image: await captureGraph(container).catch(() => null),
+              },
+            };
+          }
+          if (msg.research) {
+            return {
+              sender: msg.sender,
+              heading: `${RESEARCH_KIND_LABELS[msg.research.kind]}：${msg.research.prompt}`,
+              content: msg.research.body,
+            };
+          }
+          if (msg.photo) {
+            return {
+              sender: msg.sender,
+              content: `［手書きの解答の写真］${msg.photo.note ? ` ${msg.photo.note}` : ""}`,
+            };
+          }
+          return { sender: msg.sender, content: msg.content };
+        })
+      );
+
+      await exportToPDF(
+        {
+          topic,
+          messages: reportMessages,
+          quizzes,
+          notes,
+          performance: performance && {
+            totalProblems: performance.totalProblems,
+            correctAnswers: performance.correctAnswers,
+            accuracyRate: performance.accuracyRate,
+            currentDifficulty: performance.currentDifficulty,
+            byDifficulty: history.byDifficulty,
+          },
+        },
+        `math-mentor-${Date.now()}.pdf`
+      );
+    } catch (error) {
+      console.error("Failed to export PDF:", error);
+      toast.error("PDF を作成できませんでした。もう一度お試しください。");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  // Switch between LaTeX and plain-text math for future AI replies
+  const toggleMathNotation = async () => {
+    if (!user) return;
+    try {
+      await setMathNotationMutation.mutateAsync({
+        mathNotation: user.mathNotation === "plain" ? "latex" : "plain",
+      });
+      await utils.auth.me.invalidate();
+    } catch (error) {
+      console.error("Failed to update math notation:", error);
+    }
+  };
+
+  // Past sessions are listed in a sidebar once the user is logged in
+  const withSessionSidebar = (content: React.ReactNode) =>
+    user ? (
+      <SidebarProvider>
+        <SessionSidebar
+          activeSessionId={sessionId}
+          onSelectSession={selectSession}
+          onNewSession={startNewSession}
+          onSessionDeleted={handleSessionDeleted}
+        />
+        <SidebarInset className="min-w-0">{content}</SidebarInset>
+      </SidebarProvider>
+    ) : (
+      content
+    );
+
   if (!sessionStarted) {
-    return (
+    return withSessionSidebar(
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
         <Card className="w-full max-w-md">
           <CardHeader>
@@ -269,64 +538,98 @@ export default function Home() {
             </h2>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">学習したいトピック</label>
-              <Input
-                placeholder="例：微分・積分、確率論、線形代数..."
-                value={topic}
-                onChange={(e) => setTopic(e.target.value)}
-                onKeyPress={(e) => e.key === "Enter" && startSession()}
-              />
-            </div>
-            <Button
-              onClick={startSession}
-              disabled={!topic.trim() || isLoading}
-              className="w-full"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  セッション作成中...
-                </>
-              ) : (
-                "学習を開始"
-              )}
-            </Button>
+            {!authLoading && !user ? (
+              <Button
+                onClick={() => {
+                  window.location.href = getLoginUrl();
+                }}
+                className="w-full"
+              >
+                ログインして学習を開始
+              </Button>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">学習したいトピック</label>
+                  <Input
+                    placeholder="例：微分・積分、確率論、線形代数..."
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                    onKeyPress={(e) => e.key === "Enter" && startSession()}
+                  />
+                </div>
+                <Button
+                  onClick={startSession}
+                  disabled={!topic.trim() || isLoading}
+                  className="w-full"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      セッション作成中...
+                    </>
+                  ) : (
+                    "学習を開始"
+                  )}
+                </Button>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
     );
   }
 
-  const handleAddMessageFromLearning = (content: string, sender: "user" | "assistant") => {
-    const newMessage = {
-      id: nanoid(),
-      sender,
-      content,
-      contentType: "markdown" as const,
-    };
-    setMessages((prev) => [...prev, newMessage]);
-    addMessageMutation.mutate({
-      sessionId: sessionId!,
-      sender,
-      content,
-      contentType: "markdown",
-    });
+  // Notices from the learning tabs are only shown; anything worth keeping is saved by the server
+  const handleAddMessageFromLearning = (content: string) => {
+    setMessages((prev) => [...prev, { id: nanoid(), sender: "assistant", content, contentType: "markdown" }]);
   };
 
-  return (
+  // Research results are already saved by the server; only show them here
+  const handleResearchResult = (entry: ResearchEntry) => {
+    setMessages((prev) => [
+      ...prev,
+      { id: nanoid(), sender: "assistant", content: entry.body, contentType: "research", research: entry },
+    ]);
+    utils.sessions.list.invalidate();
+  };
+
+  return withSessionSidebar(
     <div className="h-screen flex flex-col bg-gray-50 overflow-hidden">
       {/* Header */}
       <div className="bg-white border-b border-gray-200 p-4 flex items-center justify-between flex-shrink-0">
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Math Mentor</h1>
-          <h2 className="text-sm text-gray-600">{topic}</h2>
+        <div className="flex items-center gap-3">
+          <SidebarTrigger />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Math Mentor</h1>
+            <h2 className="text-sm text-gray-600">{topic}</h2>
+          </div>
         </div>
         <div className="flex gap-2">
+          {user && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={toggleMathNotation}
+              disabled={setMathNotationMutation.isPending}
+              title="AI の数式表記を切り替えます"
+            >
+              <Sigma className="mr-2 h-4 w-4" />
+              {user.mathNotation === "plain" ? "数式: テキスト" : "数式: LaTeX"}
+            </Button>
+          )}
           <Button variant="outline" size="sm" onClick={exportAsText}>
             <Download className="mr-2 h-4 w-4" />
             テキスト保存
           </Button>
+          <Button variant="outline" size="sm" onClick={exportAsPdf} disabled={!sessionId || isExportingPdf}>
+            {isExportingPdf ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileText className="mr-2 h-4 w-4" />
+            )}
+            PDF 保存
+          </Button>
           <Button variant="outline" size="sm" onClick={startNewSession}>
             <Plus className="mr-2 h-4 w-4" />
             新しいセッション
@@ -337,11 +640,15 @@ export default function Home() {
       {/* Tabs for learning features */}
       {sessionId && (
         <div className="bg-white border-b border-gray-200 p-4 overflow-y-auto flex-shrink-0 relative z-0" style={{ maxHeight: '280px' }}>
-          <LearningTabs 
-            sessionId={sessionId} 
-            topic={topic}
-            onAddMessage={handleAddMessageFromLearning}
-          />
+          <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+            <LearningTabs 
+              key={`learning-${sessionId}`}
+              sessionId={sessionId} 
+              topic={topic}
+              onAddMessage={handleAddMessageFromLearning}
+            />
+            <ResearchPanel key={`research-${sessionId}`} sessionId={sessionId} onResult={handleResearchResult} />
+          </div>
         </div>
       )}
 
@@ -367,14 +674,40 @@ export default function Home() {
                       : "bg-white text-gray-900 border border-gray-200 shadow-md"
                   }`}
                 >
-                  {message.contentType === "markdown" ? (
-                    <Streamdown>{message.content}</Streamdown>
+                  {message.research ? (
+                    <div className="space-y-2">
+                      <div className="text-xs font-medium text-indigo-600">
+                        {RESEARCH_KIND_LABELS[message.research.kind]}: {message.research.prompt}
+                      </div>
+                      {message.research.comparison ? (
+                        <>
+                          <ScenarioComparisonTable
+                            scenarios={message.research.comparison.scenarios}
+                            onShareParameters={shareGraphParameters}
+                          />
+                          <MathMarkdown>{message.research.comparison.comparison}</MathMarkdown>
+                        </>
+                      ) : (
+                        <MathMarkdown>{message.research.body}</MathMarkdown>
+                      )}
+                    </div>
+                  ) : message.photo ? (
+                    <div className="space-y-2">
+                      <img
+                        src={message.photo.url}
+                        alt="手書きの解答の写真"
+                        className="max-h-80 rounded-md bg-white"
+                      />
+                      {message.photo.note && <p className="whitespace-pre-wrap">{message.photo.note}</p>}
+                    </div>
+                  ) : message.graphData ? null : message.contentType === "markdown" ? (
+                    <MathMarkdown>{message.content}</MathMarkdown>
                   ) : (
                     <p className="whitespace-pre-wrap">{message.content}</p>
                   )}
                   {message.graphData && (
-                    <div className="mt-4">
-                      <MathGraph data={message.graphData} />
+                    <div data-graph-message={message.id}>
+                      <MathGraph data={message.graphData} onShareParameters={shareGraphParameters} />
                     </div>
                   )}
                 </div>
@@ -395,16 +728,73 @@ export default function Home() {
             onKeyPress={(e) => e.key === "Enter" && !isLoading && sendMessage()}
             disabled={isLoading}
           />
+          {voiceRecorder.isSupported &&
+            (voiceRecorder.isRecording ? (
+              <Button variant="destructive" onClick={voiceRecorder.stop} title="録音を終了して文字に変換">
+                <Square className="h-4 w-4" />
+                <span className="tabular-nums">{formatElapsed(voiceRecorder.elapsedSeconds)}</span>
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={voiceRecorder.start}
+                disabled={isLoading || isStreaming || transcribeMutation.isPending}
+                title={`音声で質問（${MAX_VOICE_SECONDS} 秒まで。文字に変換した内容は送信前に編集できます）`}
+              >
+                {transcribeMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Mic className="h-4 w-4" />
+                )}
+                <span className="hidden sm:inline">音声</span>
+              </Button>
+            ))}
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Reset so the same file can be chosen again
+              e.target.value = "";
+              if (file) sendPhoto(file);
+            }}
+          />
           <Button
-            onClick={sendMessage}
+            variant="outline"
+            onClick={() => photoInputRef.current?.click()}
+            disabled={isLoading || isStreaming}
+            title="手書きの解答の写真を送って添削してもらう（入力中のテキストは写真と一緒に送られます）"
+          >
+            <Camera className="h-4 w-4" />
+            <span className="hidden sm:inline">写真</span>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={generateGraph}
             disabled={!inputMessage.trim() || isLoading}
+            title="入力した内容をグラフ化"
           >
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
+            <ChartLine className="h-4 w-4" />
+            <span className="hidden sm:inline">グラフ化</span>
           </Button>
+          {isStreaming ? (
+            <Button variant="outline" onClick={stopStreaming} title="生成を停止">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={sendMessage}
+              disabled={!inputMessage.trim() || isLoading}
+            >
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,111 @@
+// Readable replacements for common LaTeX commands
+const SYMBOLS: Record<string, string> = {
+  alpha: "α",
+  beta: "β",
+  gamma: "γ",
+  delta: "δ",
+  epsilon: "ε",
+  varepsilon: "ε",
+  theta: "θ",
+  lambda: "λ",
+  mu: "μ",
+  pi: "π",
+  rho: "ρ",
+  sigma: "σ",
+  tau: "τ",
+  phi: "φ",
+  varphi: "φ",
+  omega: "ω",
+  Gamma: "Γ",
+  Delta: "Δ",
+  Theta: "Θ",
+  Lambda: "Λ",
+  Sigma: "Σ",
+  Phi: "Φ",
+  Omega: "Ω",
+  infty: "∞",
+  cdot: "·",
+  times: "×",
+  div: "÷",
+  pm: "±",
+  mp: "∓",
+  le: "≤",
+  leq: "≤",
+  ge: "≥",
+  geq: "≥",
+  ne: "≠",
+  neq: "≠",
+  approx: "≈",
+  equiv: "≡",
+  to: "→",
+  rightarrow: "→",
+  Rightarrow: "⇒",
+  leftarrow: "←",
+  Leftrightarrow: "⇔",
+  partial: "∂",
+  nabla: "∇",
+  sum: "Σ",
+  prod: "Π",
+  int: "∫",
+  iint: "∬",
+  in: "∈",
+  notin: "∉",
+  subset: "⊂",
+  subseteq: "⊆",
+  cup: "∪",
+  cap: "∩",
+  forall: "∀",
+  exists: "∃",
+  ldots: "…",
+  cdots: "⋯",
+  circ: "∘",
+  degree: "°",
+};
+
+// Innermost brace group, so nested commands are rewritten from the inside out
+const GROUP = "\\{([^{}]*)\\}";
+
+/**
+ * Convert LaTeX math in a message to readable plain text for exports that
+ * cannot render KaTeX (text files and PDFs). Text outside math delimiters is
+ * left as is.
+ */
+export function latexToPlainText(text: string): string {
+  return text
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, math: string) => convertMath(math.trim()))
+    .replace(/\$(?!\s)([^$\n]+?)(?<!\s)\$/g, (_, math: string) => convertMath(math));
+}
+
+function convertMath(math: string): string {
+  let result = math
+    .replace(/\\(left|right|displaystyle|limits)\b/g, "")
+    .replace(/\\[,;:! ]/g, " ")
+    .replace(/\\\\/g, "\n");
+
+  // Rewrite structural commands until no brace groups remain to simplify
+  let previous: string;
+  do {
+    previous = result;
+    result = result
+      .replace(new RegExp(`\\\\[dt]?frac${GROUP}${GROUP}`, "g"), (_, num: string, den: string) =>
+        `${wrap(num)}/${wrap(den)}`
+      )
+      .replace(new RegExp(`\\\\sqrt\\[([^\\]]*)\\]${GROUP}`, "g"), "$1√($2)")
+      .replace(new RegExp(`\\\\sqrt${GROUP}`, "g"), "√($1)")
+      .replace(new RegExp(`\\\\(?:text|mathrm|mathbf|mathit|operatorname|boldsymbol)${GROUP}`, "g"), "$1")
+      .replace(new RegExp(`\\^${GROUP}`, "g"), (_, exp: string) => `^${wrap(exp)}`)
+      .replace(new RegExp(`_${GROUP}`, "g"), (_, sub: string) => `_${wrap(sub)}`);
+  } while (result !== previous);
+
+  return result
+    .replace(/\\([a-zA-Z]+)/g, (_, name: string) => SYMBOLS[name] ?? name)
+    .replace(/[{}]/g, "")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+}
+
+// Parenthesize multi-character terms so "x^{n+1}" reads as "x^(n+1)"
+function wrap(term: string) {
+  const trimmed = term.trim();
+  return /^[\w.]+$/.test(trimmed) || /^\(.*\)$/.test(trimmed) ? trimmed : `(${trimmed})`;
+}
@@ -1,84 +1,426 @@
 import { jsPDF } from "jspdf";
+import notoSansJpUrl from "@/assets/fonts/NotoSansJP-Regular-subset.ttf?url";
+import { latexToPlainText } from "./mathText";
 
-interface Message {
-  id: string;
+/**
+ * Session report as a PDF: the conversation (markdown laid out, math as
+ * plain text, graphs as images), quizzes with the student's answers and
+ * explanations, notes and the performance summary. jsPDF's built-in fonts
+ * have no Japanese glyphs, so Noto Sans JP is embedded: a subset with kana,
+ * the Joyo kanji and math symbols (about 1MB, see scripts/subset-pdf-font.mjs),
+ * which jsPDF subsets again to the characters used. Lines with characters
+ * outside the subset (rare kanji, emoji) are drawn as images with the
+ * browser's fonts instead, so no text is lost.
+ */
+
+export type GraphImage = {
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+export interface ReportMessage {
   sender: "user" | "assistant";
+  // Markdown or plain text; LaTeX math is converted to plain text
   content: string;
-  contentType: "text" | "json" | "markdown";
+  // Heading shown above the content, e.g. a research entry's kind and prompt
+  heading?: string;
+  // Graph title and image captured from the rendered MathGraph (null if it could not be captured)
+  graph?: { title: string; series: string[]; image: GraphImage | null };
 }
 
-export function exportToPDF(
-  topic: string,
-  messages: Message[],
-  fileName: string = `math-mentor-${Date.now()}.pdf`
-) {
-  const pdf = new jsPDF();
+export interface ReportQuiz {
+  question: string;
+  options: string[];
+  lastAttempt: { selectedIndex: number; isCorrect: boolean } | null;
+  correctIndex: number | null;
+  explanation: string | null;
+}
+
+export interface ReportNote {
+  noteText: string;
+  category: string | null;
+  createdAt: Date;
+}
+
+export interface ReportPerformance {
+  totalProblems: number;
+  correctAnswers: number;
+  accuracyRate: number;
+  currentDifficulty: "easy" | "medium" | "hard";
+  byDifficulty: Array<{ difficulty: "easy" | "medium" | "hard" | null; attempts: number; correct: number; accuracyRate: number }>;
+}
+
+export interface SessionReport {
+  topic: string;
+  messages: ReportMessage[];
+  quizzes: ReportQuiz[];
+  notes: ReportNote[];
+  performance: ReportPerformance | null;
+}
+
+const FONT_NAME = "NotoSansJP";
+const DIFFICULTY_LABELS = { easy: "簡単", medium: "普通", hard: "難しい" } as const;
+const OPTION_LABELS = ["A", "B", "C", "D"];
+
+const MARGIN = 15;
+const LINE_HEIGHT_RATIO = 0.5; // mm per pt of font size
+const PT_TO_MM = 25.4 / 72;
+const FALLBACK_SCALE = 4; // canvas pixels per pt, so image lines stay sharp in print
+const COLORS = {
+  text: [33, 33, 33],
+  muted: [110, 110, 110],
+  user: [30, 100, 200],
+  assistant: [60, 60, 60],
+  heading: [55, 48, 163],
+  correct: [22, 128, 61],
+  incorrect: [185, 28, 28],
+} as const;
+
+type Color = readonly [number, number, number];
+
+let fontData: Promise<string> | null = null;
+
+// The font is fetched on the first export only
+function loadFont() {
+  fontData ??= fetch(notoSansJpUrl)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Failed to load the PDF font: ${response.status}`);
+      return response.arrayBuffer();
+    })
+    .then((buffer) => {
+      const bytes = new Uint8Array(buffer);
+      let binary = "";
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+      }
+      return btoa(binary);
+    })
+    .catch((error) => {
+      fontData = null;
+      throw error;
+    });
+  return fontData;
+}
+
+type Block =
+  | { kind: "heading"; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "item"; marker: string; text: string; depth: number }
+  | { kind: "code"; text: string }
+  | { kind: "blank" };
+
+// Inline markdown that has no PDF equivalent is reduced to its text
+const inlineText = (text: string) =>
+  text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)");
+
+/** Split markdown into the blocks the PDF lays out; math is converted to plain text first. */
+export function markdownToBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let inCode = false;
+
+  for (const rawLine of latexToPlainText(markdown).split("\n")) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      blocks.push({ kind: "code", text: rawLine });
+      continue;
+    }
+
+    const line = rawLine.trimEnd();
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    const numbered = line.match(/^(\s*)(\d+[.)])\s+(.*)$/);
+
+    if (!line.trim()) {
+      if (blocks.length > 0 && blocks[blocks.length - 1].kind !== "blank") blocks.push({ kind: "blank" });
+    } else if (heading) {
+      blocks.push({ kind: "heading", text: inlineText(heading[1]) });
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|?[\s:|-]+\|[\s:|-]*$/.test(line)) {
+      // Horizontal rules and table separator rows
+      continue;
+    } else if (bullet) {
+      blocks.push({ kind: "item", marker: "・", text: inlineText(bullet[2]), depth: Math.floor(bullet[1].length / 2) });
+    } else if (numbered) {
+      blocks.push({ kind: "item", marker: numbered[2], text: inlineText(numbered[3]), depth: Math.floor(numbered[1].length / 2) });
+    } else if (line.trim().startsWith("|")) {
+      // Table rows as cells separated by wide spaces
+      const cells = line.trim().replace(/^\||\|$/g, "").split("|").map((cell) => inlineText(cell.trim()));
+      blocks.push({ kind: "paragraph", text: cells.join("　") });
+    } else {
+      blocks.push({ kind: "paragraph", text: inlineText(line.replace(/^>\s?/, "")) });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Rasterize a rendered chart (the recharts SVG inside `container`) to a PNG
+ * at twice its on-screen size. Returns null when there is no chart.
+ */
+export async function captureGraph(container: Element | null): Promise<GraphImage | null> {
+  const svg = container?.querySelector("svg.recharts-surface");
+  if (!(svg instanceof SVGSVGElement)) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  if (width === 0 || height === 0) return null;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", `${width}`);
+  clone.setAttribute("height", `${height}`);
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily;
+  const source = new XMLSerializer().serializeToString(clone);
+  const url = URL.createObjectURL(new Blob([source], { type: "image/svg+xml;charset=utf-8" }));
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Failed to render the graph"));
+      img.src = url;
+    });
+
+    const scale = 2;
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { dataUrl: canvas.toDataURL("image/png"), width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Draw one line of text on a transparent canvas with the page's fonts, sized
+ * like a PDF line of `size` pt. Returns null when canvas is unavailable.
+ */
+function renderTextLine(value: string, size: number, color: Color): GraphImage | null {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  const font = `${size * FALLBACK_SCALE}px ${getComputedStyle(document.body).fontFamily}`;
+  context.font = font;
+  canvas.width = Math.max(1, Math.ceil(context.measureText(value).width));
+  canvas.height = Math.ceil(((size * LINE_HEIGHT_RATIO) / PT_TO_MM) * FALLBACK_SCALE);
+  // Resizing the canvas resets the context
+  context.font = font;
+  context.textBaseline = "top";
+  context.fillStyle = `rgb(${color.join(",")})`;
+  context.fillText(value, 0, 0);
+  return { dataUrl: canvas.toDataURL("image/png"), width: canvas.width, height: canvas.height };
+}
+
+// Cursor-based layout over jsPDF pages
+function createWriter(pdf: jsPDF) {
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
-  const margin = 15;
-  const maxWidth = pageWidth - 2 * margin;
-  let yPosition = margin;
-
-  // Title
-  pdf.setFontSize(18);
-  pdf.setFont("", "bold");
-  pdf.text("Math Mentor - 学習記録", margin, yPosition);
-  yPosition += 10;
-
-  // Topic
-  pdf.setFontSize(12);
-  pdf.setFont("", "normal");
-  pdf.text(`トピック: ${topic}`, margin, yPosition);
-  yPosition += 8;
-
-  // Date
-  const dateStr = new Date().toLocaleString("ja-JP");
-  pdf.setFontSize(10);
-  pdf.text(`作成日時: ${dateStr}`, margin, yPosition);
-  yPosition += 12;
-
-  // Separator
-  pdf.setDrawColor(200);
-  pdf.line(margin, yPosition, pageWidth - margin, yPosition);
-  yPosition += 8;
-
-  // Messages
-  messages.forEach((message) => {
-    const isUser = message.sender === "user";
-    const label = isUser ? "【ユーザー】" : "【AI】";
+  const contentWidth = pageWidth - 2 * MARGIN;
+  let y = MARGIN;
 
-    // Check if we need a new page
-    if (yPosition > pageHeight - margin - 20) {
+  // jsPDF maps characters the embedded font lacks to glyph 0, which prints nothing
+  const font = pdf.getFont().metadata as { characterToGlyph: (code: number) => number };
+  const hasMissingGlyph = (line: string) =>
+    Array.from(line).some((char) => char.trim() !== "" && font.characterToGlyph(char.codePointAt(0) ?? 0) === 0);
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
       pdf.addPage();
-      yPosition = margin;
+      y = MARGIN;
     }
+  };
 
-    // Sender label
-    pdf.setFontSize(11);
-    pdf.setFont("", "bold");
-    pdf.setTextColor(isUser ? 30 : 50, isUser ? 100 : 50, isUser ? 200 : 50);
-    pdf.text(label, margin, yPosition);
-    yPosition += 6;
-
-    // Message content
-    pdf.setFontSize(10);
-    pdf.setFont("", "normal");
-    pdf.setTextColor(0, 0, 0);
-
-    // Split long text into multiple lines
-    const lines = pdf.splitTextToSize(message.content, maxWidth) as string[];
-    lines.forEach((line) => {
-      if (yPosition > pageHeight - margin - 10) {
-        pdf.addPage();
-        yPosition = margin;
+  const text = (value: string, options: { size?: number; color?: Color; indent?: number } = {}) => {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * LINE_HEIGHT_RATIO;
+    const color = options.color ?? COLORS.text;
+    pdf.setFontSize(size);
+    pdf.setTextColor(...color);
+    const lines = pdf.splitTextToSize(value, contentWidth - indent) as string[];
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      const fallback = hasMissingGlyph(line) ? renderTextLine(line, size, color) : null;
+      if (fallback) {
+        // Missing glyphs measure as zero width, so the line may need shrinking to fit
+        const width = Math.min((fallback.width / FALLBACK_SCALE) * PT_TO_MM, contentWidth - indent);
+        pdf.addImage(fallback.dataUrl, "PNG", MARGIN + indent, y, width, (fallback.height / fallback.width) * width);
+      } else {
+        pdf.text(line, MARGIN + indent, y, { baseline: "top" });
       }
-      pdf.text(line, margin + 5, yPosition);
-      yPosition += 5;
-    });
+      y += lineHeight;
+    }
+  };
+
+  const gap = (height: number) => {
+    y += height;
+  };
+
+  const rule = () => {
+    ensureSpace(4);
+    pdf.setDrawColor(200);
+    pdf.line(MARGIN, y, pageWidth - MARGIN, y);
+    y += 4;
+  };
+
+  const section = (title: string) => {
+    ensureSpace(20);
+    gap(4);
+    text(title, { size: 14, color: COLORS.heading });
+    gap(1);
+    rule();
+  };
+
+  const image = (graph: GraphImage, indent: number) => {
+    const width = Math.min(contentWidth - indent, 160);
+    const height = (graph.height / graph.width) * width;
+    ensureSpace(height);
+    pdf.addImage(graph.dataUrl, "PNG", MARGIN + indent, y, width, height);
+    y += height + 2;
+  };
+
+  return { text, gap, rule, section, image };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+function writeMarkdown(writer: Writer, markdown: string, indent: number) {
+  for (const block of markdownToBlocks(markdown)) {
+    switch (block.kind) {
+      case "heading":
+        writer.gap(1);
+        writer.text(block.text, { size: 11.5, color: COLORS.heading, indent });
+        break;
+      case "item":
+        writer.text(`${block.marker} ${block.text}`, { indent: indent + 3 + block.depth * 4 });
+        break;
+      case "code":
+        writer.text(block.text || " ", { size: 9, color: COLORS.muted, indent: indent + 3 });
+        break;
+      case "blank":
+        writer.gap(2);
+        break;
+      default:
+        writer.text(block.text, { indent });
+    }
+  }
+}
+
+function writePerformance(writer: Writer, performance: ReportPerformance) {
+  writer.section("成績");
+  writer.text(
+    `解いた問題数 ${performance.totalProblems}　正解数 ${performance.correctAnswers}　正答率 ${performance.accuracyRate}%　現在の難易度 ${DIFFICULTY_LABELS[performance.currentDifficulty]}`
+  );
+  if (performance.byDifficulty.length > 0) {
+    writer.gap(2);
+    writer.text("難易度別の成績", { color: COLORS.muted });
+    for (const row of performance.byDifficulty) {
+      const label = row.difficulty ? DIFFICULTY_LABELS[row.difficulty] : "難易度なし";
+      writer.text(`・${label}：${row.accuracyRate}%（${row.correct}/${row.attempts} 正解）`, { indent: 3 });
+    }
+  }
+}
 
-    yPosition += 4;
+function writeConversation(writer: Writer, messages: ReportMessage[]) {
+  writer.section("会話");
+  for (const message of messages) {
+    const isUser = message.sender === "user";
+    writer.text(isUser ? "【ユーザー】" : "【AI】", { size: 11, color: isUser ? COLORS.user : COLORS.assistant });
+    writer.gap(1);
+    if (message.heading) {
+      writer.text(message.heading, { color: COLORS.heading, indent: 4 });
+    }
+    if (message.graph) {
+      writer.text(`グラフ：${message.graph.title}`, { indent: 4 });
+      if (message.graph.image) {
+        writer.image(message.graph.image, 4);
+      }
+      if (message.graph.series.length > 0) {
+        writer.text(`凡例：${message.graph.series.join("、")}`, { size: 9, color: COLORS.muted, indent: 4 });
+      }
+    } else {
+      writeMarkdown(writer, message.content, 4);
+    }
+    writer.gap(4);
+  }
+}
+
+function writeQuizzes(writer: Writer, quizzes: ReportQuiz[]) {
+  writer.section("クイズ");
+  quizzes.forEach((quiz, index) => {
+    writer.text(`問 ${index + 1}　${latexToPlainText(quiz.question)}`);
+    quiz.options.forEach((option, i) => {
+      const marks = [
+        quiz.lastAttempt?.selectedIndex === i ? "あなたの回答" : null,
+        quiz.correctIndex === i ? "正解" : null,
+      ].filter(Boolean);
+      writer.text(`${OPTION_LABELS[i]}. ${latexToPlainText(option)}${marks.length > 0 ? `（${marks.join("・")}）` : ""}`, {
+        indent: 4,
+        color: quiz.correctIndex === i ? COLORS.correct : COLORS.text,
+      });
+    });
+    if (quiz.lastAttempt) {
+      writer.text(quiz.lastAttempt.isCorrect ? "結果：正解" : "結果：不正解", {
+        indent: 4,
+        color: quiz.lastAttempt.isCorrect ? COLORS.correct : COLORS.incorrect,
+      });
+    } else {
+      writer.text("未回答", { indent: 4, color: COLORS.muted });
+    }
+    if (quiz.explanation) {
+      writer.text("解説", { indent: 4, color: COLORS.muted });
+      writeMarkdown(writer, quiz.explanation, 8);
+    }
+    writer.gap(4);
   });
+}
+
+function writeNotes(writer: Writer, notes: ReportNote[]) {
+  writer.section("ノート");
+  for (const note of notes) {
+    const category = note.category && note.category !== "general" ? `［${note.category}］` : "";
+    writer.text(`${note.createdAt.toLocaleString("ja-JP")}${category}`, { size: 9, color: COLORS.muted });
+    writeMarkdown(writer, note.noteText, 4);
+    writer.gap(3);
+  }
+}
+
+export async function exportToPDF(report: SessionReport, fileName: string = `math-mentor-${Date.now()}.pdf`) {
+  const pdf = new jsPDF();
+  pdf.addFileToVFS(`${FONT_NAME}-Regular.ttf`, await loadFont());
+  pdf.addFont(`${FONT_NAME}-Regular.ttf`, FONT_NAME, "normal");
+  pdf.setFont(FONT_NAME, "normal");
+
+  const writer = createWriter(pdf);
+  writer.text("Math Mentor 学習レポート", { size: 18 });
+  writer.gap(2);
+  writer.text(`トピック：${report.topic}`, { size: 12 });
+  writer.text(`作成日時：${new Date().toLocaleString("ja-JP")}`, { size: 9, color: COLORS.muted });
+
+  if (report.performance && report.performance.totalProblems > 0) {
+    writePerformance(writer, report.performance);
+  }
+  if (report.messages.length > 0) {
+    writeConversation(writer, report.messages);
+  }
+  if (report.quizzes.length > 0) {
+    writeQuizzes(writer, report.quizzes);
+  }
+  if (report.notes.length > 0) {
+    writeNotes(writer, report.notes);
+  }
 
-  // Save the PDF
   pdf.save(fileName);
 }
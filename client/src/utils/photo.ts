@@ -0,0 +1,54 @@
+import { MAX_PHOTO_BYTES } from "@shared/photo";
+
+// Longest side of an uploaded photo; enough to read handwriting
+const MAX_DIMENSION = 2000;
+const JPEG_QUALITY = 0.85;
+
+export type PreparedPhoto = {
+  // Base64 without the data: URL prefix, as chat.analyzePhoto expects
+  base64: string;
+  mimeType: "image/jpeg";
+  // Shown in the conversation until the server's copy is loaded
+  dataUrl: string;
+};
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The file is not a readable image"));
+    };
+    image.src = url;
+  });
+
+/**
+ * Downscale a photo and re-encode it as JPEG so phone photos upload quickly
+ * and stay under the server's size limit.
+ */
+export async function preparePhoto(file: File): Promise<PreparedPhoto> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+  // White background for transparent PNGs
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const dataUrl = canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  if ((base64.length * 3) / 4 > MAX_PHOTO_BYTES) {
+    throw new Error("The photo is too large");
+  }
+  return { base64, mimeType: "image/jpeg", dataUrl };
+}
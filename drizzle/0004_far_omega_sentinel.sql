@@ -0,0 +1,2 @@
+ALTER TABLE `learning_sessions` ADD `userId` int;--> statement-breakpoint
+ALTER TABLE `learning_sessions` ADD CONSTRAINT `learning_sessions_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
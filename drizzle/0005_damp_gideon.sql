@@ -0,0 +1 @@
+ALTER TABLE `learning_sessions` ADD `archived` int DEFAULT 0 NOT NULL;
\ No newline at end of file
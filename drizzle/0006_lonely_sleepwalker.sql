@@ -0,0 +1,20 @@
+CREATE TABLE `quiz_attempts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`quizId` int NOT NULL,
+	`sessionId` varchar(64) NOT NULL,
+	`selectedIndex` int NOT NULL,
+	`isCorrect` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `quiz_attempts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `quizzes` ADD `correctIndex` int;--> statement-breakpoint
+ALTER TABLE `quiz_attempts` ADD CONSTRAINT `quiz_attempts_quizId_quizzes_id_fk` FOREIGN KEY (`quizId`) REFERENCES `quizzes`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `quiz_attempts` ADD CONSTRAINT `quiz_attempts_sessionId_learning_sessions_id_fk` FOREIGN KEY (`sessionId`) REFERENCES `learning_sessions`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+UPDATE `quizzes` SET `correctIndex` = CAST(`correctAnswer` AS UNSIGNED) WHERE `correctAnswer` IN ('0', '1', '2', '3');--> statement-breakpoint
+UPDATE `quizzes` SET `correctIndex` = 0 WHERE `correctIndex` IS NULL AND JSON_VALID(`options`) AND JSON_UNQUOTE(JSON_EXTRACT(`options`, '$[0]')) = TRIM(`correctAnswer`);--> statement-breakpoint
+UPDATE `quizzes` SET `correctIndex` = 1 WHERE `correctIndex` IS NULL AND JSON_VALID(`options`) AND JSON_UNQUOTE(JSON_EXTRACT(`options`, '$[1]')) = TRIM(`correctAnswer`);--> statement-breakpoint
+UPDATE `quizzes` SET `correctIndex` = 2 WHERE `correctIndex` IS NULL AND JSON_VALID(`options`) AND JSON_UNQUOTE(JSON_EXTRACT(`options`, '$[2]')) = TRIM(`correctAnswer`);--> statement-breakpoint
+UPDATE `quizzes` SET `correctIndex` = 3 WHERE `correctIndex` IS NULL AND JSON_VALID(`options`) AND JSON_UNQUOTE(JSON_EXTRACT(`options`, '$[3]')) = TRIM(`correctAnswer`);--> statement-breakpoint
+UPDATE `quizzes` SET `correctIndex` = ASCII(UPPER(TRIM(`correctAnswer`))) - ASCII('A') WHERE `correctIndex` IS NULL AND UPPER(TRIM(`correctAnswer`)) IN ('A', 'B', 'C', 'D');--> statement-breakpoint
+INSERT INTO `quiz_attempts` (`quizId`, `sessionId`, `selectedIndex`, `isCorrect`, `createdAt`) SELECT `id`, `sessionId`, CAST(`userAnswer` AS UNSIGNED), `isCorrect`, `createdAt` FROM `quizzes` WHERE `userAnswer` IN ('0', '1', '2', '3') AND `isCorrect` IS NOT NULL;
\ No newline at end of file
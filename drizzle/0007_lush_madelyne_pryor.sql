@@ -0,0 +1,3 @@
+ALTER TABLE `quizzes` DROP COLUMN `correctAnswer`;--> statement-breakpoint
+ALTER TABLE `quizzes` DROP COLUMN `userAnswer`;--> statement-breakpoint
+ALTER TABLE `quizzes` DROP COLUMN `isCorrect`;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `mathNotation` enum('latex','plain') DEFAULT 'latex' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `review_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`sessionId` varchar(64) NOT NULL,
+	`quizId` int,
+	`practiceProblemId` int,
+	`repetitions` int NOT NULL DEFAULT 0,
+	`intervalDays` int NOT NULL DEFAULT 0,
+	`easeFactor` int NOT NULL DEFAULT 250,
+	`dueAt` timestamp NOT NULL,
+	`lastReviewedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `review_items_id` PRIMARY KEY(`id`),
+	CONSTRAINT `review_items_quizId_unique` UNIQUE(`quizId`),
+	CONSTRAINT `review_items_practiceProblemId_unique` UNIQUE(`practiceProblemId`)
+);
+--> statement-breakpoint
+ALTER TABLE `review_items` ADD CONSTRAINT `review_items_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `review_items` ADD CONSTRAINT `review_items_sessionId_learning_sessions_id_fk` FOREIGN KEY (`sessionId`) REFERENCES `learning_sessions`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `review_items` ADD CONSTRAINT `review_items_quizId_quizzes_id_fk` FOREIGN KEY (`quizId`) REFERENCES `quizzes`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `review_items` ADD CONSTRAINT `review_items_practiceProblemId_practice_problems_id_fk` FOREIGN KEY (`practiceProblemId`) REFERENCES `practice_problems`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT IGNORE INTO `review_items` (`userId`, `sessionId`, `quizId`, `dueAt`) SELECT DISTINCT `learning_sessions`.`userId`, `quiz_attempts`.`sessionId`, `quiz_attempts`.`quizId`, NOW() FROM `quiz_attempts` INNER JOIN `learning_sessions` ON `learning_sessions`.`id` = `quiz_attempts`.`sessionId` WHERE `quiz_attempts`.`isCorrect` = 0 AND `learning_sessions`.`userId` IS NOT NULL;
\ No newline at end of file
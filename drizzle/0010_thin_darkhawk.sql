@@ -0,0 +1,17 @@
+CREATE TABLE `skill_mastery` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`topic` varchar(255) NOT NULL,
+	`skill` varchar(64) NOT NULL,
+	`rating` int NOT NULL DEFAULT 1000,
+	`attempts` int NOT NULL DEFAULT 0,
+	`correct` int NOT NULL DEFAULT 0,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `skill_mastery_id` PRIMARY KEY(`id`),
+	CONSTRAINT `skill_mastery_user_topic_skill_idx` UNIQUE(`userId`,`topic`,`skill`)
+);
+--> statement-breakpoint
+ALTER TABLE `practice_problems` ADD `skills` text;--> statement-breakpoint
+ALTER TABLE `quizzes` ADD `difficulty` enum('easy','medium','hard') DEFAULT 'medium' NOT NULL;--> statement-breakpoint
+ALTER TABLE `quizzes` ADD `skills` text;--> statement-breakpoint
+ALTER TABLE `skill_mastery` ADD CONSTRAINT `skill_mastery_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
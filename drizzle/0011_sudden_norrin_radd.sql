@@ -0,0 +1 @@
+ALTER TABLE `practice_problems` ADD `answerSpec` text;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `session_summaries` (
+	`sessionId` varchar(64) NOT NULL,
+	`summary` text NOT NULL,
+	`throughLogId` int NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `session_summaries_sessionId` PRIMARY KEY(`sessionId`)
+);
+--> statement-breakpoint
+ALTER TABLE `session_summaries` ADD CONSTRAINT `session_summaries_sessionId_learning_sessions_id_fk` FOREIGN KEY (`sessionId`) REFERENCES `learning_sessions`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
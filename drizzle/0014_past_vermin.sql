@@ -0,0 +1,17 @@
+CREATE TABLE `llm_usage` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`sessionId` varchar(64),
+	`procedure` varchar(128) NOT NULL,
+	`model` varchar(64) NOT NULL,
+	`promptTokens` int NOT NULL DEFAULT 0,
+	`completionTokens` int NOT NULL DEFAULT 0,
+	`latencyMs` int NOT NULL,
+	`success` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `llm_usage_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `dailyTokenQuota` int;--> statement-breakpoint
+ALTER TABLE `llm_usage` ADD CONSTRAINT `llm_usage_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `llm_usage_user_created_idx` ON `llm_usage` (`userId`,`createdAt`);
\ No newline at end of file
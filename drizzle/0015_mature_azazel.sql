@@ -0,0 +1,12 @@
+CREATE TABLE `chat_turns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` varchar(64) NOT NULL,
+	`clientMessageId` varchar(64) NOT NULL,
+	`userLogId` int NOT NULL,
+	`replyLogId` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `chat_turns_id` PRIMARY KEY(`id`),
+	CONSTRAINT `chat_turns_session_client_idx` UNIQUE(`sessionId`,`clientMessageId`)
+);
+--> statement-breakpoint
+ALTER TABLE `chat_turns` ADD CONSTRAINT `chat_turns_sessionId_learning_sessions_id_fk` FOREIGN KEY (`sessionId`) REFERENCES `learning_sessions`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `performance_events` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` varchar(64) NOT NULL,
+	`source` enum('quiz','practice','question','manual') NOT NULL,
+	`difficulty` enum('easy','medium','hard'),
+	`isCorrect` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `performance_events_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+-- Concurrent first answers could create two rows per session; reads always used the first one
+DELETE `p` FROM `session_performance` `p` JOIN `session_performance` `q` ON `p`.`sessionId` = `q`.`sessionId` AND `p`.`id` > `q`.`id`;--> statement-breakpoint
+ALTER TABLE `session_performance` ADD CONSTRAINT `session_performance_session_idx` UNIQUE(`sessionId`);--> statement-breakpoint
+ALTER TABLE `performance_events` ADD CONSTRAINT `performance_events_sessionId_learning_sessions_id_fk` FOREIGN KEY (`sessionId`) REFERENCES `learning_sessions`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `performance_events_session_created_idx` ON `performance_events` (`sessionId`,`createdAt`);
\ No newline at end of file
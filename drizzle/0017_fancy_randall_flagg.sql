@@ -0,0 +1 @@
+ALTER TABLE `chat_logs` MODIFY COLUMN `contentType` enum('text','json','markdown','research','image') NOT NULL DEFAULT 'text';
\ No newline at end of file
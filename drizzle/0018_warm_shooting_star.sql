@@ -0,0 +1,2 @@
+ALTER TABLE `chat_turns` ADD `logIds` text NOT NULL;--> statement-breakpoint
+UPDATE `chat_turns` SET `logIds` = COALESCE((SELECT JSON_ARRAYAGG(`chat_logs`.`id`) FROM `chat_logs` WHERE `chat_logs`.`sessionId` = `chat_turns`.`sessionId` AND `chat_logs`.`id` BETWEEN `chat_turns`.`userLogId` AND `chat_turns`.`replyLogId` AND (`chat_logs`.`id` IN (`chat_turns`.`userLogId`, `chat_turns`.`replyLogId`) OR (`chat_logs`.`sender` = 'assistant' AND `chat_logs`.`contentType` = 'json'))), JSON_ARRAY(`chat_turns`.`userLogId`, `chat_turns`.`replyLogId`));
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { index, int, mysqlEnum, mysqlTable, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -17,6 +17,10 @@ export const users = mysqlTable("users", {
   email: varchar("email", { length: 320 }),
   loginMethod: varchar("loginMethod", { length: 64 }),
   role: mysqlEnum("role", ["user", "admin"]).default("user").notNull(),
+  /** How the AI writes math: LaTeX rendered with KaTeX, or the plain-text fallback. */
+  mathNotation: mysqlEnum("mathNotation", ["latex", "plain"]).default("latex").notNull(),
+  /** Daily LLM token quota; null uses LLM_DAILY_TOKEN_QUOTA, 0 means unlimited. */
+  dailyTokenQuota: int("dailyTokenQuota"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
@@ -30,10 +34,12 @@ export type InsertUser = typeof users.$inferInsert;
  */
 export const learningSessions = mysqlTable("learning_sessions", {
   id: varchar("id", { length: 64 }).primaryKey(), // UUID generated on frontend
+  userId: int("userId").references(() => users.id, { onDelete: "cascade" }), // Owner; sessions without an owner are inaccessible
   topic: varchar("topic", { length: 255 }).notNull(), // e.g., "微分・積分", "確率論"
   description: text("description"), // Optional description of the topic
+  archived: int("archived").default(0).notNull(), // 0 = active, 1 = archived (hidden from the default list)
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(), // Bumped on every new chat log
 });
 
 export type LearningSession = typeof learningSessions.$inferSelect;
@@ -49,13 +55,37 @@ export const chatLogs = mysqlTable("chat_logs", {
     .references(() => learningSessions.id, { onDelete: "cascade" }),
   sender: mysqlEnum("sender", ["user", "assistant"]).notNull(), // who sent the message
   content: text("content").notNull(), // the message content
-  contentType: mysqlEnum("contentType", ["text", "json", "markdown"]).default("text").notNull(), // format of content
+  contentType: mysqlEnum("contentType", ["text", "json", "markdown", "research", "image"]).default("text").notNull(), // format of content; "json" holds a graph, "research" a research panel result, "image" a photo of handwritten work
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type ChatLog = typeof chatLogs.$inferSelect;
 export type InsertChatLog = typeof chatLogs.$inferInsert;
 
+/**
+ * Chat turns table - one row per chat message answered by the tutor, keyed by
+ * the client's idempotency key. The turn's chat logs (the user message, graphs
+ * shown by tools and the reply) are written in the same transaction, so a
+ * retried request finds the stored turn instead of adding it twice.
+ */
+export const chatTurns = mysqlTable(
+  "chat_turns",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    sessionId: varchar("sessionId", { length: 64 })
+      .notNull()
+      .references(() => learningSessions.id, { onDelete: "cascade" }),
+    clientMessageId: varchar("clientMessageId", { length: 64 }).notNull(), // Idempotency key generated by the client
+    userLogId: int("userLogId").notNull(), // Chat log of the user message (first log of the turn)
+    replyLogId: int("replyLogId").notNull(), // Chat log of the reply (last log of the turn)
+    logIds: text("logIds").notNull(), // JSON array of every chat log id in the turn, in order
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("chat_turns_session_client_idx").on(table.sessionId, table.clientMessageId)]
+);
+
+export type ChatTurn = typeof chatTurns.$inferSelect;
+
 /**
  * Practice problems table - stores AI-generated practice problems
  */
@@ -67,6 +97,8 @@ export const practiceProblems = mysqlTable("practice_problems", {
   problemText: text("problemText").notNull(), // The problem statement
   solution: text("solution"), // The solution/answer
   difficulty: mysqlEnum("difficulty", ["easy", "medium", "hard"]).default("medium").notNull(),
+  skills: text("skills"), // JSON array of skill tags practiced by the problem
+  answerSpec: text("answerSpec"), // JSON answer spec for deterministic checking (see server/answerChecker.ts)
   solved: int("solved").default(0).notNull(), // 0 = not solved, 1 = solved
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -75,7 +107,7 @@ export type PracticeProblem = typeof practiceProblems.$inferSelect;
 export type InsertPracticeProblem = typeof practiceProblems.$inferInsert;
 
 /**
- * Quiz table - stores quiz questions and answers
+ * Quiz table - stores quiz questions; answers are recorded in quiz_attempts
  */
 export const quizzes = mysqlTable("quizzes", {
   id: int("id").autoincrement().primaryKey(),
@@ -84,16 +116,90 @@ export const quizzes = mysqlTable("quizzes", {
     .references(() => learningSessions.id, { onDelete: "cascade" }),
   question: text("question").notNull(),
   options: text("options").notNull(), // JSON array of options
-  correctAnswer: varchar("correctAnswer", { length: 255 }).notNull(),
+  correctIndex: int("correctIndex"), // Index into options of the correct answer; null for legacy quizzes whose answer could not be migrated
   explanation: text("explanation"), // Explanation of the correct answer
-  userAnswer: varchar("userAnswer", { length: 255 }), // User's answer
-  isCorrect: int("isCorrect"), // 1 = correct, 0 = incorrect, null = not answered
+  difficulty: mysqlEnum("difficulty", ["easy", "medium", "hard"]).default("medium").notNull(),
+  skills: text("skills"), // JSON array of skill tags tested by the quiz
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type Quiz = typeof quizzes.$inferSelect;
 export type InsertQuiz = typeof quizzes.$inferInsert;
 
+/**
+ * Quiz attempts table - stores every answer submitted for a quiz
+ */
+export const quizAttempts = mysqlTable("quiz_attempts", {
+  id: int("id").autoincrement().primaryKey(),
+  quizId: int("quizId")
+    .notNull()
+    .references(() => quizzes.id, { onDelete: "cascade" }),
+  sessionId: varchar("sessionId", { length: 64 })
+    .notNull()
+    .references(() => learningSessions.id, { onDelete: "cascade" }),
+  selectedIndex: int("selectedIndex").notNull(), // Index into the quiz options chosen by the user
+  isCorrect: int("isCorrect").notNull(), // 1 = correct, 0 = incorrect
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type QuizAttempt = typeof quizAttempts.$inferSelect;
+export type InsertQuizAttempt = typeof quizAttempts.$inferInsert;
+
+/**
+ * Skill mastery table - Elo-style rating per user, topic and skill tag,
+ * updated from quiz and practice problem results across sessions
+ * (see server/mastery.ts).
+ */
+export const skillMastery = mysqlTable(
+  "skill_mastery",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    topic: varchar("topic", { length: 255 }).notNull(), // Session topic the skill was practiced under
+    skill: varchar("skill", { length: 64 }).notNull(), // Normalized skill tag, e.g. "chain-rule"
+    rating: int("rating").default(1000).notNull(), // Elo rating; compared against item difficulty ratings
+    attempts: int("attempts").default(0).notNull(),
+    correct: int("correct").default(0).notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [uniqueIndex("skill_mastery_user_topic_skill_idx").on(table.userId, table.topic, table.skill)]
+);
+
+export type SkillMastery = typeof skillMastery.$inferSelect;
+export type InsertSkillMastery = typeof skillMastery.$inferInsert;
+
+/**
+ * Review items table - spaced-repetition queue of missed quizzes and practice problems.
+ * Exactly one of quizId / practiceProblemId is set. Scheduling follows SM-2
+ * (see server/spacedRepetition.ts).
+ */
+export const reviewItems = mysqlTable("review_items", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  sessionId: varchar("sessionId", { length: 64 })
+    .notNull()
+    .references(() => learningSessions.id, { onDelete: "cascade" }),
+  quizId: int("quizId")
+    .unique()
+    .references(() => quizzes.id, { onDelete: "cascade" }),
+  practiceProblemId: int("practiceProblemId")
+    .unique()
+    .references(() => practiceProblems.id, { onDelete: "cascade" }),
+  repetitions: int("repetitions").default(0).notNull(), // Consecutive successful reviews
+  intervalDays: int("intervalDays").default(0).notNull(), // Days until the next review
+  easeFactor: int("easeFactor").default(250).notNull(), // SM-2 ease factor x100
+  dueAt: timestamp("dueAt").notNull(),
+  lastReviewedAt: timestamp("lastReviewedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ReviewItem = typeof reviewItems.$inferSelect;
+export type InsertReviewItem = typeof reviewItems.$inferInsert;
+
 /**
  * Learning notes table - stores user's notes and highlights
  */
@@ -111,19 +217,86 @@ export const learningNotes = mysqlTable("learning_notes", {
 export type LearningNote = typeof learningNotes.$inferSelect;
 export type InsertLearningNote = typeof learningNotes.$inferInsert;
 /**
- * Session performance tracking - stores accuracy rate and difficulty level per session
+ * Session performance tracking - stores accuracy rate and difficulty level per session.
+ * One row per session; counters are incremented in SQL (see updateSessionPerformance).
  */
-export const sessionPerformance = mysqlTable("session_performance", {
-  id: int("id").autoincrement().primaryKey(),
+export const sessionPerformance = mysqlTable(
+  "session_performance",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    sessionId: varchar("sessionId", { length: 64 })
+      .notNull()
+      .references(() => learningSessions.id, { onDelete: "cascade" }),
+    totalProblems: int("totalProblems").default(0).notNull(), // Total problems attempted
+    correctAnswers: int("correctAnswers").default(0).notNull(), // Number of correct answers
+    accuracyRate: int("accuracyRate").default(0).notNull(), // Percentage (0-100)
+    currentDifficulty: mysqlEnum("currentDifficulty", ["easy", "medium", "hard"]).default("medium").notNull(), // Current difficulty level
+    lastUpdated: timestamp("lastUpdated").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [uniqueIndex("session_performance_session_idx").on(table.sessionId)]
+);
+
+export type SessionPerformance = typeof sessionPerformance.$inferSelect;
+export type InsertSessionPerformance = typeof sessionPerformance.$inferInsert;
+
+/**
+ * Performance events table - one row per graded attempt, the history behind
+ * the session_performance aggregate (accuracy over time, per-difficulty breakdown)
+ */
+export const performanceEvents = mysqlTable(
+  "performance_events",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    sessionId: varchar("sessionId", { length: 64 })
+      .notNull()
+      .references(() => learningSessions.id, { onDelete: "cascade" }),
+    // quiz / practice: a stored item; question: an answer to a question typed in by the student; manual: self-reported
+    source: mysqlEnum("source", ["quiz", "practice", "question", "manual"]).notNull(),
+    difficulty: mysqlEnum("difficulty", ["easy", "medium", "hard"]), // null when the attempt had no stored difficulty
+    isCorrect: int("isCorrect").notNull(), // 1 = correct, 0 = incorrect
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("performance_events_session_created_idx").on(table.sessionId, table.createdAt)]
+);
+
+export type PerformanceEvent = typeof performanceEvents.$inferSelect;
+export type InsertPerformanceEvent = typeof performanceEvents.$inferInsert;
+
+/**
+ * Session summaries table - rolling summary of the older part of a conversation.
+ * Chat logs after `throughLogId` are sent to the LLM verbatim; earlier ones only through the summary.
+ */
+export const sessionSummaries = mysqlTable("session_summaries", {
   sessionId: varchar("sessionId", { length: 64 })
-    .notNull()
+    .primaryKey()
     .references(() => learningSessions.id, { onDelete: "cascade" }),
-  totalProblems: int("totalProblems").default(0).notNull(), // Total problems attempted
-  correctAnswers: int("correctAnswers").default(0).notNull(), // Number of correct answers
-  accuracyRate: int("accuracyRate").default(0).notNull(), // Percentage (0-100)
-  currentDifficulty: mysqlEnum("currentDifficulty", ["easy", "medium", "hard"]).default("medium").notNull(), // Current difficulty level
-  lastUpdated: timestamp("lastUpdated").defaultNow().onUpdateNow().notNull(),
+  summary: text("summary").notNull(),
+  throughLogId: int("throughLogId").notNull(), // Last chat log folded into the summary
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
-export type SessionPerformance = typeof sessionPerformance.$inferSelect;
-export type InsertSessionPerformance = typeof sessionPerformance.$inferInsert;
+export type SessionSummary = typeof sessionSummaries.$inferSelect;
+
+/**
+ * LLM usage table - one row per LLM call, attributed to the user, session and
+ * tRPC procedure that made it. Daily quotas are checked against these rows.
+ */
+export const llmUsage = mysqlTable(
+  "llm_usage",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").references(() => users.id, { onDelete: "cascade" }), // Null for calls made outside a request
+    sessionId: varchar("sessionId", { length: 64 }), // Kept after the session is deleted, so no foreign key
+    procedure: varchar("procedure", { length: 128 }).notNull(), // tRPC path, e.g. "chat.sendMessage"
+    model: varchar("model", { length: 64 }).notNull(),
+    promptTokens: int("promptTokens").default(0).notNull(),
+    completionTokens: int("completionTokens").default(0).notNull(),
+    latencyMs: int("latencyMs").notNull(),
+    success: int("success").notNull(), // 1 = completed, 0 = failed or aborted
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("llm_usage_user_created_idx").on(table.userId, table.createdAt)]
+);
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = typeof llmUsage.$inferInsert;
@@ -0,0 +1,60 @@
+/**
+ * Build the Japanese font embedded in PDF reports
+ * (client/src/assets/fonts/NotoSansJP-Regular-subset.ttf).
+ *
+ * jsPDF needs a TrueType font, and the full Noto Sans JP is about 5MB, so the
+ * committed font keeps only the characters a report needs: ASCII and Latin-1,
+ * Greek, math symbols and arrows, Japanese punctuation, kana, full-width forms,
+ * the Joyo kanji, a few math terms outside it, and every character used in
+ * the PDF layout code.
+ *
+ * Usage: pnpm font:pdf <path to NotoSansJP-Regular.ttf>
+ * (the static Regular file from https://fonts.google.com/noto/specimen/Noto+Sans+JP)
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import subsetFont from "subset-font";
+
+const require = createRequire(import.meta.url);
+const { kanji: joyoKanji } = require("joyo-kanji");
+
+const OUTPUT = new URL("../client/src/assets/fonts/NotoSansJP-Regular-subset.ttf", import.meta.url);
+const LAYOUT_SOURCE = new URL("../client/src/utils/pdfExport.ts", import.meta.url);
+
+const RANGES = [
+  [0x0020, 0x007e], // ASCII
+  [0x00a0, 0x00ff], // Latin-1 supplement (×, ÷, ±, ², °)
+  [0x0370, 0x03ff], // Greek
+  [0x2000, 0x206f], // General punctuation
+  [0x2070, 0x209f], // Superscripts and subscripts
+  [0x2100, 0x214f], // Letterlike symbols
+  [0x2150, 0x218f], // Number forms
+  [0x2190, 0x21ff], // Arrows
+  [0x2200, 0x22ff], // Mathematical operators
+  [0x2460, 0x24ff], // Enclosed alphanumerics (①)
+  [0x25a0, 0x25ff], // Geometric shapes
+  [0x3000, 0x303f], // CJK symbols and punctuation
+  [0x3040, 0x309f], // Hiragana
+  [0x30a0, 0x30ff], // Katakana
+  [0xff00, 0xffef], // Full-width forms
+];
+
+// Kanji common in school mathematics that are not Joyo kanji
+const MATH_KANJI = "冪楕錐螺梯菱函斂";
+
+const rangeText = RANGES.flatMap(([from, to]) =>
+  Array.from({ length: to - from + 1 }, (_, i) => String.fromCodePoint(from + i))
+).join("");
+
+const [source] = process.argv.slice(2);
+if (!source) {
+  console.error("Usage: pnpm font:pdf <path to NotoSansJP-Regular.ttf>");
+  process.exit(1);
+}
+
+const layoutText = await readFile(LAYOUT_SOURCE, "utf8");
+const text = Array.from(new Set(rangeText + joyoKanji.join("") + MATH_KANJI + layoutText)).join("");
+
+const subset = await subsetFont(await readFile(source), text, { targetFormat: "sfnt" });
+await writeFile(OUTPUT, subset);
+console.log(`Wrote ${OUTPUT.pathname} (${(subset.length / 1024).toFixed(0)} KB)`);
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { defineTool, runAgent, streamAgent } from "../agent";
+import { invokeLLM, invokeLLMStream, ToolCall } from "../_core/llm";
+import { llmReply } from "./fixtures";
+
+vi.mock("../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+  invokeLLMStream: vi.fn(),
+}));
+
+const toolCall = (id: string, name: string, args: string): ToolCall => ({
+  id,
+  type: "function",
+  function: { name, arguments: args },
+});
+
+async function* fakeStream(chunks: string[], toolCalls: ToolCall[] = []) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+  return { content: chunks.join(""), finishReason: "stop", toolCalls };
+}
+
+const add = defineTool({
+  name: "add",
+  description: "Add two numbers",
+  schema: z.object({ a: z.number(), b: z.number() }),
+  run: ({ a, b }) => ({ sum: a + b }),
+});
+
+const params = { messages: [{ role: "user" as const, content: "2 + 3 は？" }] };
+
+describe("agent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should run requested tools and send their results back with the call id", async () => {
+    vi.mocked(invokeLLM)
+      .mockResolvedValueOnce(llmReply("", [toolCall("call-1", "add", '{"a":2,"b":3}')]))
+      .mockResolvedValueOnce(llmReply("5 です"));
+
+    const result = await runAgent(params, [add]);
+
+    expect(result).toEqual({
+      content: "5 です",
+      steps: [{ tool: "add", arguments: { a: 2, b: 3 }, result: { sum: 5 } }],
+    });
+    const [first] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(first.tools?.[0].function).toMatchObject({ name: "add", parameters: { type: "object" } });
+    const [second] = vi.mocked(invokeLLM).mock.calls[1];
+    expect(second.messages.slice(1)).toEqual([
+      { role: "assistant", content: "", tool_calls: [toolCall("call-1", "add", '{"a":2,"b":3}')] },
+      { role: "tool", tool_call_id: "call-1", name: "add", content: '{"sum":5}' },
+    ]);
+  });
+
+  it("should report bad arguments and unknown tools to the model instead of failing", async () => {
+    vi.mocked(invokeLLM)
+      .mockResolvedValueOnce(
+        llmReply("", [toolCall("call-1", "add", '{"a":"two"}'), toolCall("call-2", "multiply", "{}")])
+      )
+      .mockResolvedValueOnce(llmReply("計算できませんでした"));
+
+    const result = await runAgent(params, [add]);
+
+    expect(result.steps.map((step) => step.error)).toEqual([
+      expect.stringContaining("Invalid arguments"),
+      'Unknown tool "multiply"',
+    ]);
+    const [second] = vi.mocked(invokeLLM).mock.calls[1];
+    expect(JSON.parse(String(second.messages[3].content))).toHaveProperty("error");
+  });
+
+  it("should stop offering tools after the step limit", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply("途中", [toolCall("call-1", "add", '{"a":1,"b":1}')]));
+
+    const result = await runAgent(params, [add], { maxSteps: 2 });
+
+    expect(invokeLLM).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(invokeLLM).mock.calls.map(([p]) => p.toolChoice)).toEqual(["auto", "auto", "none"]);
+    expect(result.steps).toHaveLength(2);
+  });
+
+  it("should stream answer text and tool events, discarding text before tool calls", async () => {
+    vi.mocked(invokeLLMStream)
+      .mockReturnValueOnce(fakeStream(["計算します"], [toolCall("call-1", "add", '{"a":2,"b":3}')]))
+      .mockReturnValueOnce(fakeStream(["5 ", "です"]));
+
+    const stream = streamAgent(params, [add]);
+    const events = [];
+    let next = await stream.next();
+    while (!next.done) {
+      events.push(next.value);
+      next = await stream.next();
+    }
+
+    expect(events.map((e) => (e.type === "delta" ? e.text : e.type === "tool" ? e.step.tool : e.type))).toEqual([
+      "計算します",
+      "discard",
+      "add",
+      "5 ",
+      "です",
+    ]);
+    expect(next.value).toMatchObject({ content: "5 です", steps: [{ tool: "add", result: { sum: 5 } }] });
+  });
+});
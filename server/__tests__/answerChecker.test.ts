@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { checkAnswer, isCheckableSpec, normalizeAnswer, parseAnswerSpec } from "../answerChecker";
+
+const numeric = (value: string, tolerance: number | null = null) =>
+  ({ kind: "numeric", value, tolerance }) as const;
+const expression = (value: string) => ({ kind: "expression", value, tolerance: null }) as const;
+
+describe("answerChecker", () => {
+  describe("normalizeAnswer", () => {
+    it("should strip prose, delimiters and the left-hand side", () => {
+      expect(normalizeAnswer("答えは $f'(x) = 2x$ です")).toBe("2x");
+      expect(normalizeAnswer("\\frac{1}{2} \\cdot π")).toBe("(1)/(2) * pi");
+      expect(normalizeAnswer("３×√２")).toBe("3*sqrt(2)");
+    });
+  });
+
+  describe("numeric answers", () => {
+    it("should accept equivalent forms of the same number", () => {
+      expect(checkAnswer(numeric("0.5"), "1/2")).toBe(true);
+      expect(checkAnswer(numeric("sqrt(2)"), "1.41421356")).toBe(true);
+      expect(checkAnswer(numeric("pi"), "$\\pi$")).toBe(true);
+      expect(checkAnswer(numeric("3*sqrt(2)"), "３√２")).toBe(true);
+    });
+
+    it("should respect the spec tolerance", () => {
+      expect(checkAnswer(numeric("3.14159"), "3.14")).toBe(false);
+      expect(checkAnswer(numeric("3.14159", 0.01), "3.14")).toBe(true);
+    });
+
+    it("should reject wrong numbers", () => {
+      expect(checkAnswer(numeric("12"), "x = 13")).toBe(false);
+    });
+  });
+
+  describe("expression answers", () => {
+    it("should accept algebraically equivalent expressions", () => {
+      expect(checkAnswer(expression("2x + 2"), "2(x+1)")).toBe(true);
+      expect(checkAnswer(expression("x^2 - 1"), "(x-1)(x+1)")).toBe(true);
+      expect(checkAnswer(expression("cos(x)^2"), "1 - sin(x)^2")).toBe(true);
+    });
+
+    it("should reject expressions that differ", () => {
+      expect(checkAnswer(expression("3x^2"), "3x")).toBe(false);
+      expect(checkAnswer(expression("2x"), "2y")).toBe(false);
+    });
+  });
+
+  it("should defer free-form and unparseable answers to the caller", () => {
+    expect(checkAnswer({ kind: "free_form", value: null, tolerance: null }, "背理法で示す")).toBeNull();
+    expect(checkAnswer(expression("2x"), "(((")).toBeNull();
+  });
+
+  it("should only treat evaluable specs as checkable", () => {
+    expect(isCheckableSpec(expression("x^2 + 1"))).toBe(true);
+    expect(isCheckableSpec(numeric("解なし"))).toBe(false);
+    expect(parseAnswerSpec("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { buildHistory } from "../chatHistory";
+import { invokeLLM } from "../_core/llm";
+import { getChatLogsAfter, getSessionSummary, upsertSessionSummary } from "../db";
+import { resetTokenEstimates } from "../tokenBudget";
+import { chatLogRow, llmReply } from "./fixtures";
+
+vi.mock("../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  getChatLogsAfter: vi.fn(),
+  getSessionSummary: vi.fn(),
+  upsertSessionSummary: vi.fn(),
+}));
+
+const log = (id: number, content = `メッセージ${id}`) =>
+  chatLogRow({ id, sender: id % 2 === 1 ? "user" : "assistant", content, contentType: "markdown" });
+
+const logs = (count: number, from = 1) => Array.from({ length: count }, (_, i) => log(from + i));
+
+describe("buildHistory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetTokenEstimates();
+    vi.mocked(getSessionSummary).mockResolvedValue(null);
+  });
+
+  it("should send a short conversation verbatim without summarizing", async () => {
+    vi.mocked(getChatLogsAfter).mockResolvedValue(logs(4));
+
+    const history = await buildHistory("test-session-123");
+
+    expect(history).toHaveLength(4);
+    expect(history[0]).toEqual({ role: "user", content: "メッセージ1" });
+    expect(getChatLogsAfter).toHaveBeenCalledWith("test-session-123", 0);
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("should put the stored summary first and only load logs after it", async () => {
+    vi.mocked(getSessionSummary).mockResolvedValue({
+      sessionId: "test-session-123",
+      summary: "連鎖律を学習済み",
+      throughLogId: 30,
+      updatedAt: new Date(0),
+    });
+    vi.mocked(getChatLogsAfter).mockResolvedValue(logs(2, 31));
+
+    const history = await buildHistory("test-session-123");
+
+    expect(getChatLogsAfter).toHaveBeenCalledWith("test-session-123", 30);
+    expect(history[0].role).toBe("system");
+    expect(history[0].content).toContain("連鎖律を学習済み");
+    expect(history).toHaveLength(3);
+  });
+
+  it("should fold older logs into the summary once too many accumulate", async () => {
+    vi.mocked(getChatLogsAfter).mockResolvedValue(logs(25));
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply("これまでの要約"));
+
+    const history = await buildHistory("test-session-123");
+
+    expect(upsertSessionSummary).toHaveBeenCalledWith("test-session-123", "これまでの要約", 13);
+    expect(history[0].content).toContain("これまでの要約");
+    expect(history.slice(1).map((m) => m.content)).toEqual(logs(12, 14).map((l) => l.content));
+    const [params] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(params.messages[1].content).toContain("Student: メッセージ1");
+  });
+
+  it("should keep the recent logs within the token budget", async () => {
+    vi.mocked(getChatLogsAfter).mockResolvedValue([log(1, "あ".repeat(4000)), log(2, "い".repeat(4000)), ...logs(4, 3)]);
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply("長い説明の要約"));
+
+    const history = await buildHistory("test-session-123", { maxTokens: 1000 });
+
+    expect(upsertSessionSummary).toHaveBeenCalledWith("test-session-123", "長い説明の要約", 2);
+    expect(history).toHaveLength(5);
+  });
+
+  it("should fall back to the recent logs when summarizing fails", async () => {
+    vi.mocked(getChatLogsAfter).mockResolvedValue(logs(25));
+    vi.mocked(invokeLLM).mockRejectedValue(new Error("LLM unavailable"));
+
+    const history = await buildHistory("test-session-123");
+
+    expect(upsertSessionSummary).not.toHaveBeenCalled();
+    expect(history).toHaveLength(12);
+    expect(history[0].content).toBe("メッセージ14");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { MODEL_IDS, ModelParameterError, resolveParameters, simulateModel } from "../economicModels";
+import { graphDataSchema } from "@shared/graph";
+
+const value = (simulation: ReturnType<typeof simulateModel>, name: string) =>
+  simulation.results.find((r) => r.name === name)?.value;
+
+describe("economicModels", () => {
+  it.each(MODEL_IDS)("should produce a valid graph for %s with default parameters", (id) => {
+    const simulation = simulateModel(id);
+    expect(graphDataSchema.safeParse(simulation.graph).success).toBe(true);
+    expect(simulation.results.length).toBeGreaterThan(0);
+  });
+
+  it("should find the supply and demand equilibrium and the surpluses", () => {
+    const simulation = simulateModel("supply_demand", { a: 100, b: 2, c: 10, d: 1 });
+    expect(value(simulation, "equilibriumPrice")).toBe(30);
+    expect(value(simulation, "equilibriumQuantity")).toBe(40);
+    expect(value(simulation, "consumerSurplus")).toBe(400);
+    expect(value(simulation, "producerSurplus")).toBe(800);
+  });
+
+  it("should split a per-unit tax between buyers and sellers and create a deadweight loss", () => {
+    const simulation = simulateModel("supply_demand", { a: 100, b: 2, c: 10, d: 1, t: 6 });
+    expect(value(simulation, "equilibriumPrice")).toBe(32);
+    expect(value(simulation, "sellerPrice")).toBe(26);
+    expect(value(simulation, "taxRevenue")).toBe(216);
+    expect(value(simulation, "deadweightLoss")).toBe(12);
+    expect(simulation.graph.series.map((s) => s.name)).toContain("課税前の供給");
+  });
+
+  it("should report unit elasticity at the revenue-maximizing price", () => {
+    const simulation = simulateModel("elasticity", { a: 100, b: 2, price: 25 });
+    expect(value(simulation, "elasticity")).toBe(-1);
+    expect(value(simulation, "revenueMaximizingPrice")).toBe(25);
+    expect(value(simulateModel("elasticity", { a: 100, b: 2, price: 60 }), "elasticity")).toBeNull();
+  });
+
+  it("should solve IS-LM for output and the interest rate", () => {
+    const simulation = simulateModel("is_lm");
+    expect(value(simulation, "output")).toBeCloseTo(1933.33, 1);
+    expect(value(simulation, "interestRate")).toBeCloseTo(9.333, 2);
+  });
+
+  it("should converge to the Solow steady state", () => {
+    const simulation = simulateModel("solow", { periods: 300, k0: 5 });
+    const capital = simulation.graph.series[0].data;
+    expect(capital[capital.length - 1]).toBeCloseTo(value(simulation, "steadyStateCapital")!, 1);
+  });
+
+  it("should find the IRR where NPV is zero", () => {
+    const simulation = simulateModel("npv", { initialInvestment: 1000, cashFlow: 1100, years: 1 });
+    expect(value(simulation, "irr")).toBeCloseTo(10, 4);
+    expect(value(simulation, "paybackYears")).toBe(1);
+    expect(value(simulateModel("npv", { cashFlow: 0 }), "irr")).toBeNull();
+  });
+
+  it("should compound interest several times a year", () => {
+    const simulation = simulateModel("compound_interest", { principal: 100, rate: 12, years: 1, compoundsPerYear: 12 });
+    expect(value(simulation, "finalBalance")).toBeCloseTo(112.683, 2);
+    expect(value(simulation, "effectiveAnnualRate")).toBeCloseTo(12.6825, 3);
+  });
+
+  it("should reject unknown, out-of-range and fractional integer parameters", () => {
+    expect(() => resolveParameters("solow", { x: 1 })).toThrow(ModelParameterError);
+    expect(() => resolveParameters("solow", { s: 2 })).toThrow(ModelParameterError);
+    expect(() => resolveParameters("solow", { periods: 10.5 })).toThrow(ModelParameterError);
+    expect(resolveParameters("solow", { s: 0.2 })).toMatchObject({ s: 0.2, alpha: 0.33 });
+  });
+});
@@ -0,0 +1,141 @@
+import type { TrpcContext } from "../_core/context";
+import type { InvokeResult, ToolCall } from "../_core/llm";
+import type {
+  ChatLog,
+  ChatTurn,
+  LearningSession,
+  PracticeProblem,
+  Quiz,
+  ReviewItem,
+  SkillMastery,
+  User,
+} from "../../drizzle/schema";
+
+/**
+ * Typed rows, contexts and LLM responses shared by the server tests. Each
+ * builder returns a complete row so tests only spell out the fields they
+ * care about.
+ */
+
+const EPOCH = new Date(0);
+
+export const testUser = (overrides: Partial<User> = {}): User => ({
+  id: 1,
+  openId: "student-1",
+  name: null,
+  email: null,
+  loginMethod: null,
+  role: "user",
+  mathNotation: "latex",
+  dailyTokenQuota: null,
+  createdAt: EPOCH,
+  updatedAt: EPOCH,
+  lastSignedIn: EPOCH,
+  ...overrides,
+});
+
+// Procedures never read the Express request or response
+export const testContext = (user: User | null): TrpcContext => ({
+  req: {} as TrpcContext["req"],
+  res: {} as TrpcContext["res"],
+  user,
+});
+
+export const sessionRow = (overrides: Partial<LearningSession> = {}): LearningSession => ({
+  id: "test-session-123",
+  userId: 1,
+  topic: "微分",
+  description: null,
+  archived: 0,
+  createdAt: EPOCH,
+  updatedAt: EPOCH,
+  ...overrides,
+});
+
+export const chatLogRow = (overrides: Partial<ChatLog> = {}): ChatLog => ({
+  id: 1,
+  sessionId: "test-session-123",
+  sender: "assistant",
+  content: "",
+  contentType: "text",
+  createdAt: EPOCH,
+  ...overrides,
+});
+
+export const chatTurnRow = (overrides: Partial<ChatTurn> = {}): ChatTurn => ({
+  id: 1,
+  sessionId: "test-session-123",
+  clientMessageId: "msg-1",
+  userLogId: 1,
+  replyLogId: 2,
+  logIds: "[1,2]",
+  createdAt: EPOCH,
+  ...overrides,
+});
+
+export const practiceProblemRow = (overrides: Partial<PracticeProblem> = {}): PracticeProblem => ({
+  id: 1,
+  sessionId: "test-session-123",
+  problemText: "",
+  solution: null,
+  difficulty: "medium",
+  skills: null,
+  answerSpec: null,
+  solved: 0,
+  createdAt: EPOCH,
+  ...overrides,
+});
+
+export const quizRow = (overrides: Partial<Quiz> = {}): Quiz => ({
+  id: 1,
+  sessionId: "test-session-123",
+  question: "",
+  options: "[]",
+  correctIndex: 0,
+  explanation: null,
+  difficulty: "medium",
+  skills: null,
+  createdAt: EPOCH,
+  ...overrides,
+});
+
+export const reviewItemRow = (overrides: Partial<ReviewItem> = {}): ReviewItem => ({
+  id: 1,
+  userId: 1,
+  sessionId: "test-session-123",
+  quizId: null,
+  practiceProblemId: null,
+  repetitions: 0,
+  intervalDays: 0,
+  easeFactor: 250,
+  dueAt: EPOCH,
+  lastReviewedAt: null,
+  createdAt: EPOCH,
+  ...overrides,
+});
+
+export const skillMasteryRow = (overrides: Partial<SkillMastery> = {}): SkillMastery => ({
+  id: 1,
+  userId: 1,
+  topic: "微分",
+  skill: "",
+  rating: 1000,
+  attempts: 0,
+  correct: 0,
+  updatedAt: EPOCH,
+  ...overrides,
+});
+
+/** A non-streaming chat completion answering with `content` (and optional tool calls). */
+export const llmReply = (content: string, toolCalls?: ToolCall[]): InvokeResult => ({
+  id: "test-completion",
+  created: 0,
+  model: "test-model",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content, ...(toolCalls ? { tool_calls: toolCalls } : {}) },
+      finish_reason: toolCalls ? "tool_calls" : "stop",
+    },
+  ],
+});
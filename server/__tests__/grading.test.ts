@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { gradeChatAnswer } from "../grading";
+import { invokeLLM } from "../_core/llm";
+import {
+  createFirstQuizAttempt,
+  enqueueReviewItem,
+  getPendingPracticeProblems,
+  getUnansweredQuizzes,
+  updatePracticeProblemSolved,
+  updateSessionPerformance,
+} from "../db";
+import { llmReply, practiceProblemRow, quizRow } from "./fixtures";
+
+vi.mock("../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  createFirstQuizAttempt: vi.fn().mockResolvedValue(true),
+  enqueueReviewItem: vi.fn(),
+  getPendingPracticeProblems: vi.fn(),
+  getUnansweredQuizzes: vi.fn(),
+  updatePracticeProblemSolved: vi.fn(),
+  updateSessionPerformance: vi.fn(),
+  getSkillMasteries: vi.fn().mockResolvedValue([]),
+  updateSkillMasteries: vi.fn(),
+}));
+
+const ctx = { userId: 1, sessionId: "test-session-123", topic: "微分" };
+
+const verdictReply = (verdict: object) =>
+  llmReply(
+    JSON.stringify({
+      isAnswer: true,
+      itemKey: null,
+      answer: null,
+      selectedOptionIndex: null,
+      isCorrect: null,
+      feedback: "",
+      ...verdict,
+    })
+  );
+
+const problem = practiceProblemRow({
+  id: 12,
+  sessionId: ctx.sessionId,
+  problemText: "x^2 を微分せよ",
+  solution: "2x",
+  difficulty: "medium",
+  skills: JSON.stringify(["power-rule"]),
+  answerSpec: JSON.stringify({ kind: "expression", value: "2*x", tolerance: null }),
+});
+
+const quiz = quizRow({
+  id: 7,
+  sessionId: ctx.sessionId,
+  question: "x^3 の導関数は？",
+  options: JSON.stringify(["x^2", "3x^2", "3x", "x^3/3"]),
+  correctIndex: 1,
+  explanation: "べき乗の微分",
+  difficulty: "easy",
+  skills: JSON.stringify(["power-rule"]),
+});
+
+describe("gradeChatAnswer", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPendingPracticeProblems).mockResolvedValue([problem]);
+    vi.mocked(getUnansweredQuizzes).mockResolvedValue([quiz]);
+  });
+
+  it("should not call the grader when nothing is pending", async () => {
+    vi.mocked(getPendingPracticeProblems).mockResolvedValue([]);
+    vi.mocked(getUnansweredQuizzes).mockResolvedValue([]);
+
+    expect(await gradeChatAnswer(ctx, "答えは 2x です")).toBeNull();
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("should ignore messages that are not answers", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(verdictReply({ isAnswer: false }));
+
+    expect(await gradeChatAnswer(ctx, "ヒントをください")).toBeNull();
+    expect(updateSessionPerformance).not.toHaveBeenCalled();
+  });
+
+  it("should grade quizzes by the chosen option index and ignore the model's verdict and feedback", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(
+      verdictReply({ itemKey: "Q7", selectedOptionIndex: 0, isCorrect: true, feedback: "正解です" })
+    );
+
+    const grade = await gradeChatAnswer(ctx, "A だと思います");
+
+    expect(grade?.verdict).toEqual({
+      itemType: "quiz",
+      itemId: 7,
+      isCorrect: false,
+      feedback: "不正解です。正解は「3x^2」です。べき乗の微分",
+    });
+    expect(createFirstQuizAttempt).not.toHaveBeenCalled();
+
+    await grade!.record();
+    expect(createFirstQuizAttempt).toHaveBeenCalledWith(7, ctx.sessionId, 0, false);
+    expect(enqueueReviewItem).toHaveBeenCalledWith(
+      { userId: 1, sessionId: ctx.sessionId, quizId: 7 },
+      expect.any(Date)
+    );
+    expect(updateSessionPerformance).toHaveBeenCalledWith(ctx.sessionId, false, {
+      source: "quiz",
+      difficulty: "easy",
+    });
+  });
+
+  it("should link a practice problem verdict to that problem", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(
+      verdictReply({ itemKey: "P12", isCorrect: true, feedback: "正しい微分です" })
+    );
+
+    const grade = await gradeChatAnswer(ctx, "2x です");
+
+    expect(grade?.verdict).toMatchObject({ itemType: "practice_problem", itemId: 12, isCorrect: true });
+    expect(updateSessionPerformance).not.toHaveBeenCalled();
+
+    await grade!.record();
+    expect(updatePracticeProblemSolved).toHaveBeenCalledWith(12, true);
+    expect(enqueueReviewItem).not.toHaveBeenCalled();
+    expect(updateSessionPerformance).toHaveBeenCalledWith(ctx.sessionId, true, {
+      source: "practice",
+      difficulty: "medium",
+    });
+  });
+
+  it("should let the answer spec overrule the model's judgement", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(
+      verdictReply({ itemKey: "P12", answer: "x^2", isCorrect: true, feedback: "正しい微分です" })
+    );
+
+    const grade = await gradeChatAnswer(ctx, "x^2 です");
+
+    expect(grade?.verdict).toMatchObject({ itemType: "practice_problem", isCorrect: false, feedback: "" });
+    await grade!.record();
+    expect(updatePracticeProblemSolved).toHaveBeenCalledWith(12, false);
+  });
+
+  it("should discard verdicts for items that are not pending", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(verdictReply({ itemKey: "P99", isCorrect: true }));
+
+    expect(await gradeChatAnswer(ctx, "2x です")).toBeNull();
+    expect(updateSessionPerformance).not.toHaveBeenCalled();
+  });
+});
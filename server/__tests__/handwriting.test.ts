@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { firstIncorrectLine, formatHandwritingFeedback, HandwritingFeedback } from "../handwriting";
+import { chatLogContent } from "../chatHistory";
+
+const feedback = (lines: HandwritingFeedback["lines"], overrides: Partial<HandwritingFeedback> = {}) => ({
+  readable: true,
+  problem: "2x + 3 = 7 を解く",
+  lines,
+  feedback: "両辺から 3 を引いてから 2 で割ります。",
+  ...overrides,
+});
+
+describe("handwriting feedback", () => {
+  it("should find the first line judged incorrect", () => {
+    const result = feedback([
+      { text: "2x = 4", isCorrect: true, comment: "" },
+      { text: "x = 4/2 = 3", isCorrect: false, comment: "4/2 は 2 です" },
+      { text: "答え x = 3", isCorrect: false, comment: "" },
+    ]);
+
+    expect(firstIncorrectLine(result)).toBe(2);
+
+    const reply = formatHandwritingFeedback(result);
+    expect(reply).toContain("問題：2x + 3 = 7 を解く");
+    expect(reply).toContain("1. ✓ 2x = 4");
+    expect(reply).toContain("2. ✗ x = 4/2 = 3（最初の誤り）\n   4/2 は 2 です");
+    expect(reply).not.toContain("3. ✗ 答え x = 3（最初の誤り）");
+    expect(reply).toContain("最初の誤りは 2 行目です。");
+  });
+
+  it("should say so when every line is correct", () => {
+    const result = feedback([
+      { text: "2x = 4", isCorrect: true, comment: "" },
+      { text: "x = 2", isCorrect: true, comment: "" },
+    ]);
+
+    expect(firstIncorrectLine(result)).toBeNull();
+    expect(formatHandwritingFeedback(result)).toContain("誤りは見つかりませんでした。");
+  });
+
+  it("should ask for a new photo when the work cannot be read", () => {
+    const reply = formatHandwritingFeedback(
+      feedback([], { readable: false, problem: "", feedback: "写真がぼやけています。" })
+    );
+
+    expect(reply).toMatch(/^写真から解答を読み取れませんでした。/);
+    expect(reply).toContain("写真がぼやけています。");
+  });
+
+  it("should show photos to the tutor as their transcription", () => {
+    const photo = {
+      url: "https://storage.example/a.jpg",
+      key: "a.jpg",
+      mimeType: "image/jpeg",
+      note: "問題 1",
+      transcription: ["2x = 4", "x = 2"],
+    };
+
+    const content = chatLogContent({
+      id: 1,
+      sessionId: "test-session-123",
+      sender: "user",
+      content: JSON.stringify(photo),
+      contentType: "image",
+      createdAt: new Date(0),
+    });
+
+    expect(content).toBe("[Photo of handwritten work] 問題 1\nTranscription:\n1. 2x = 4\n2. x = 2");
+  });
+});
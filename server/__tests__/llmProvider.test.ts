@@ -0,0 +1,14 @@
+import { describe, it, expect } from "vitest";
+import { chatCompletionsUrl } from "../_core/llmProvider";
+
+describe("chatCompletionsUrl", () => {
+  it("should append the versioned path to a bare base URL", () => {
+    expect(chatCompletionsUrl("https://api.openai.com")).toBe("https://api.openai.com/v1/chat/completions");
+    expect(chatCompletionsUrl("http://localhost:11434/")).toBe("http://localhost:11434/v1/chat/completions");
+  });
+
+  it("should not repeat the version of a base URL that already ends in /v1", () => {
+    expect(chatCompletionsUrl("https://api.openai.com/v1")).toBe("https://api.openai.com/v1/chat/completions");
+    expect(chatCompletionsUrl("http://localhost:8000/v1/")).toBe("http://localhost:8000/v1/chat/completions");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  expectedScore,
+  getTopicMastery,
+  normalizeSkill,
+  recommendDifficulty,
+  recordMasteryResult,
+  updateMasteryRating,
+} from "../mastery";
+import { getSkillMasteries, updateSkillMasteries } from "../db";
+import { skillMasteryRow } from "./fixtures";
+
+vi.mock("../db", () => ({
+  getSkillMasteries: vi.fn(),
+  updateSkillMasteries: vi.fn(),
+}));
+
+describe("mastery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSkillMasteries).mockResolvedValue([]);
+  });
+
+  describe("updateMasteryRating", () => {
+    it("should give an even chance against an item at the same rating", () => {
+      expect(expectedScore(1000, 1000)).toBeCloseTo(0.5);
+    });
+
+    it("should reward unexpected successes more than expected ones", () => {
+      const hardGain = updateMasteryRating(1000, 0, "hard", true) - 1000;
+      const easyGain = updateMasteryRating(1000, 0, "easy", true) - 1000;
+
+      expect(hardGain).toBeGreaterThan(easyGain);
+      expect(easyGain).toBeGreaterThan(0);
+    });
+
+    it("should move more slowly once a skill has many attempts", () => {
+      expect(updateMasteryRating(1000, 20, "medium", false)).toBe(988);
+      expect(updateMasteryRating(1000, 0, "medium", false)).toBe(976);
+    });
+  });
+
+  describe("recommendDifficulty", () => {
+    it("should pick the difficulty closest to the rating", () => {
+      expect(recommendDifficulty(800)).toBe("easy");
+      expect(recommendDifficulty(1000)).toBe("medium");
+      expect(recommendDifficulty(1180)).toBe("hard");
+    });
+  });
+
+  describe("normalizeSkill", () => {
+    it("should map tag variants to one key", () => {
+      expect(normalizeSkill("  Chain Rule ")).toBe("chain-rule");
+      expect(normalizeSkill("chain_rule")).toBe("chain-rule");
+    });
+  });
+
+  describe("getTopicMastery", () => {
+    it("should start new learners at medium difficulty", async () => {
+      const mastery = await getTopicMastery(1, "微分");
+
+      expect(mastery).toMatchObject({ rating: 1000, recommendedDifficulty: "medium", weakSkills: [] });
+    });
+
+    it("should average skill ratings and list the weakest skills first", async () => {
+      vi.mocked(getSkillMasteries).mockResolvedValue([
+        skillMasteryRow({ skill: "chain-rule", rating: 800 }),
+        skillMasteryRow({ skill: "power-rule", rating: 900 }),
+        skillMasteryRow({ skill: "limits", rating: 1000 }),
+        skillMasteryRow({ skill: "product-rule", rating: 1100 }),
+      ]);
+
+      const mastery = await getTopicMastery(1, " 微分 ");
+
+      expect(getSkillMasteries).toHaveBeenCalledWith(1, "微分");
+      expect(mastery.rating).toBe(950);
+      expect(mastery.weakSkills).toEqual(["chain-rule", "power-rule", "limits"]);
+    });
+  });
+
+  describe("recordMasteryResult", () => {
+    it("should update each distinct skill from its locked row", async () => {
+      await recordMasteryResult({
+        userId: 1,
+        topic: " 微分 ",
+        skills: ["Chain Rule", "chain-rule", "trig"],
+        difficulty: "medium",
+        isCorrect: false,
+      });
+
+      expect(updateSkillMasteries).toHaveBeenCalledTimes(1);
+      const [userId, topic, skills, update] = vi.mocked(updateSkillMasteries).mock.calls[0];
+      expect([userId, topic, skills]).toEqual([1, "微分", ["chain-rule", "trig"]]);
+      // An existing skill and one created at the initial rating
+      expect(update({ rating: 1000, attempts: 20, correct: 15 })).toEqual({ rating: 988, attempts: 21, correct: 15 });
+      expect(update({ rating: 1000, attempts: 0, correct: 0 })).toEqual({ rating: 976, attempts: 1, correct: 0 });
+    });
+
+    it("should apply results graded one after the other to the latest counts", async () => {
+      await recordMasteryResult({ userId: 1, topic: "微分", skills: ["trig"], difficulty: "medium", isCorrect: true });
+      await recordMasteryResult({ userId: 1, topic: "微分", skills: ["trig"], difficulty: "medium", isCorrect: true });
+
+      const [first, second] = vi.mocked(updateSkillMasteries).mock.calls.map((call) => call[3]);
+      const counts = second(first({ rating: 1000, attempts: 0, correct: 0 }));
+      expect(counts).toMatchObject({ attempts: 2, correct: 2 });
+    });
+
+    it("should skip items without skill tags", async () => {
+      await recordMasteryResult({ userId: 1, topic: "微分", skills: [" "], difficulty: "easy", isCorrect: true });
+
+      expect(updateSkillMasteries).not.toHaveBeenCalled();
+    });
+  });
+});
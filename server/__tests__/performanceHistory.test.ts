@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { buildPerformanceHistory, RECENT_WINDOW } from "../performanceHistory";
+
+const event = (isCorrect: boolean, difficulty: "easy" | "medium" | "hard" | null = "medium", minute = 0) => ({
+  isCorrect: isCorrect ? 1 : 0,
+  difficulty,
+  createdAt: new Date(Date.UTC(2025, 0, 1, 10, minute)),
+});
+
+describe("buildPerformanceHistory", () => {
+  it("should be empty without events", () => {
+    expect(buildPerformanceHistory([])).toEqual({ timeline: [], byDifficulty: [] });
+  });
+
+  it("should track cumulative accuracy after each attempt", () => {
+    const { timeline } = buildPerformanceHistory([
+      event(true, "easy", 0),
+      event(false, "easy", 1),
+      event(true, "easy", 2),
+    ]);
+
+    expect(timeline.map((point) => point.attempt)).toEqual([1, 2, 3]);
+    expect(timeline.map((point) => point.accuracyRate)).toEqual([100, 50, 67]);
+    expect(timeline[1]).toMatchObject({ isCorrect: false, at: new Date(Date.UTC(2025, 0, 1, 10, 1)) });
+  });
+
+  it("should compute recent accuracy over a moving window", () => {
+    const events = [
+      ...Array.from({ length: RECENT_WINDOW }, () => event(false)),
+      ...Array.from({ length: RECENT_WINDOW }, () => event(true)),
+    ];
+
+    const { timeline } = buildPerformanceHistory(events);
+    const last = timeline[timeline.length - 1];
+
+    expect(last.accuracyRate).toBe(50);
+    expect(last.recentAccuracyRate).toBe(100);
+    expect(timeline[RECENT_WINDOW].recentAccuracyRate).toBe(20);
+  });
+
+  it("should break results down by difficulty, easiest first", () => {
+    const { byDifficulty } = buildPerformanceHistory([
+      event(true, "hard"),
+      event(false, null),
+      event(true, "easy"),
+      event(false, "hard"),
+    ]);
+
+    expect(byDifficulty).toEqual([
+      { difficulty: "easy", attempts: 1, correct: 1, accuracyRate: 100 },
+      { difficulty: "hard", attempts: 2, correct: 1, accuracyRate: 50 },
+      { difficulty: null, attempts: 1, correct: 0, accuracyRate: 0 },
+    ]);
+  });
+});
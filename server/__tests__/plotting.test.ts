@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { MAX_GRAPH_POINTS, plotSpecSchema, samplePlot, PlotSpec } from "@shared/plotting";
+import { graphDataSchema } from "@shared/graph";
+
+const spec = (overrides: Partial<PlotSpec>): PlotSpec => ({
+  type: "line",
+  title: "test",
+  xLabel: "x",
+  yLabel: "y",
+  domain: { min: -5, max: 5 },
+  step: null,
+  functions: [{ name: "f", expression: "x^2" }],
+  parameters: [],
+  ...overrides,
+});
+
+const valueAt = (graph: ReturnType<typeof samplePlot>, x: number, series = 0) =>
+  graph.series[series].data[graph.xAxis.data.indexOf(x)];
+
+describe("plotting", () => {
+  it("should compute exact values across the domain", () => {
+    const graph = samplePlot(spec({ functions: [{ name: "sin", expression: "sin(x)" }], domain: { min: 0, max: 2 * Math.PI } }));
+
+    expect(graph.xAxis.data[0]).toBe(0);
+    graph.xAxis.data.forEach((x, i) => {
+      expect(graph.series[0].data[i]).toBeCloseTo(Math.sin(x as number), 9);
+    });
+  });
+
+  it("should sample curved regions more densely than straight ones", () => {
+    const graph = samplePlot(spec({ functions: [{ name: "f", expression: "abs(x) < 1 ? sin(20 x) : 0" }] }));
+    const xs = graph.xAxis.data as number[];
+    const inside = xs.filter((x) => Math.abs(x) < 1).length;
+    const outside = xs.filter((x) => x > 3).length;
+
+    expect(inside).toBeGreaterThan(outside * 3);
+  });
+
+  it("should break the curve at poles and jumps", () => {
+    const graph = samplePlot(spec({ functions: [{ name: "1/x", expression: "1/x" }], domain: { min: -2, max: 2 } }));
+    const xs = graph.xAxis.data as number[];
+    const data = graph.series[0].data;
+    const crossing = xs.findIndex((x) => x > 0);
+
+    // No segment connects the negative branch to the positive one
+    const lastNegative = data.slice(0, crossing).filter((y) => y !== null).at(-1)!;
+    expect(data.slice(crossing - 1, crossing + 1)).toContain(null);
+    expect(lastNegative).toBeLessThan(0);
+
+    const step = samplePlot(spec({ functions: [{ name: "sign", expression: "x < 0 ? -1 : 1" }] }));
+    expect(step.series[0].data).toContain(null);
+  });
+
+  it("should leave undefined regions empty", () => {
+    const graph = samplePlot(spec({ functions: [{ name: "sqrt", expression: "sqrt(x)" }] }));
+
+    expect(valueAt(graph, -5)).toBeNull();
+    expect(valueAt(graph, 4)).toBeCloseTo(2);
+  });
+
+  it("should evaluate discrete plots at each step with parameters", () => {
+    const graph = samplePlot(
+      spec({
+        type: "bar",
+        domain: { min: 0, max: 4 },
+        step: 1,
+        functions: [{ name: "P(X=x)", expression: "combinations(n, x) * p^x * (1-p)^(n-x)" }],
+        parameters: [
+          { name: "n", value: 4, min: 1, max: 20, step: 1 },
+          { name: "p", value: 0.5, min: 0, max: 1, step: null },
+        ],
+      })
+    );
+
+    expect(graph.xAxis.data).toEqual([0, 1, 2, 3, 4]);
+    expect(graph.series[0].data).toEqual([0.0625, 0.25, 0.375, 0.25, 0.0625]);
+  });
+
+  it("should let callers override parameter values", () => {
+    const line = spec({ functions: [{ name: "y", expression: "a * x" }], parameters: [{ name: "a", value: 1, min: -5, max: 5, step: null }] });
+
+    expect(valueAt(samplePlot(line, { a: 3 }), 5)).toBe(15);
+  });
+
+  it("should keep dense multi-function graphs within the stored graph limit", () => {
+    const graph = samplePlot(
+      spec({
+        domain: { min: -10, max: 10 },
+        functions: [
+          { name: "tan", expression: "tan(x)" },
+          { name: "1/x", expression: "1/x" },
+          { name: "wave", expression: "sin(7 x)" },
+          { name: "floor", expression: "floor(x)" },
+        ],
+      })
+    );
+
+    expect(graph.xAxis.data.length).toBeLessThanOrEqual(MAX_GRAPH_POINTS);
+    expect(() => graphDataSchema.parse(graph)).not.toThrow();
+
+    // The break at the pole survives thinning out the samples
+    const xs = graph.xAxis.data as number[];
+    const crossing = xs.findIndex((x) => x > 0);
+    expect(graph.series[1].data.slice(crossing - 1, crossing + 1)).toContain(null);
+  });
+
+  it("should reject steps that give more points than a graph can hold", () => {
+    expect(plotSpecSchema.safeParse(spec({ domain: { min: 0, max: 4.99 }, step: 0.01 })).success).toBe(true);
+    expect(plotSpecSchema.safeParse(spec({ domain: { min: 0, max: 5 }, step: 0.01 })).success).toBe(false);
+
+    const graph = samplePlot(spec({ domain: { min: 0, max: 4.99 }, step: 0.01 }));
+    expect(() => graphDataSchema.parse(graph)).not.toThrow();
+  });
+
+  it("should reject parameter defaults outside the slider range", () => {
+    const result = plotSpecSchema.safeParse(
+      spec({ functions: [{ name: "y", expression: "a * x" }], parameters: [{ name: "a", value: 9, min: 0, max: 5, step: null }] })
+    );
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject expressions with undeclared symbols or bad syntax", () => {
+    const result = plotSpecSchema.safeParse(
+      spec({ functions: [{ name: "f", expression: "a * x" }, { name: "g", expression: "x +* 2" }] })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path.join("."))).toEqual([
+      "functions.0.expression",
+      "functions.1.expression",
+    ]);
+  });
+});
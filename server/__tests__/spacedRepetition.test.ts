@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { INITIAL_REVIEW_SCHEDULE, nextReviewSchedule, reviewDueDate } from "../spacedRepetition";
+
+describe("spacedRepetition", () => {
+  describe("nextReviewSchedule", () => {
+    it("should follow the SM-2 interval progression for successful reviews", () => {
+      const first = nextReviewSchedule(INITIAL_REVIEW_SCHEDULE, "good");
+      const second = nextReviewSchedule(first, "good");
+      const third = nextReviewSchedule(second, "good");
+
+      expect(first).toEqual({ repetitions: 1, intervalDays: 1, easeFactor: 250 });
+      expect(second).toEqual({ repetitions: 2, intervalDays: 6, easeFactor: 250 });
+      expect(third).toEqual({ repetitions: 3, intervalDays: 15, easeFactor: 250 });
+    });
+
+    it("should grow the ease factor on easy reviews and shrink it on hard ones", () => {
+      expect(nextReviewSchedule(INITIAL_REVIEW_SCHEDULE, "easy").easeFactor).toBe(260);
+      expect(nextReviewSchedule(INITIAL_REVIEW_SCHEDULE, "hard").easeFactor).toBe(236);
+    });
+
+    it("should restart the item after a failed review", () => {
+      const learned = { repetitions: 4, intervalDays: 30, easeFactor: 250 };
+
+      expect(nextReviewSchedule(learned, "again")).toEqual({
+        repetitions: 0,
+        intervalDays: 1,
+        easeFactor: 196,
+      });
+    });
+
+    it("should never drop the ease factor below 1.3", () => {
+      let schedule = INITIAL_REVIEW_SCHEDULE;
+      for (let i = 0; i < 10; i++) {
+        schedule = nextReviewSchedule(schedule, "again");
+      }
+
+      expect(schedule.easeFactor).toBe(130);
+    });
+  });
+
+  describe("reviewDueDate", () => {
+    it("should add the interval in days", () => {
+      const from = new Date("2026-01-01T09:00:00Z");
+
+      expect(reviewDueDate(6, from).toISOString()).toBe("2026-01-07T09:00:00.000Z");
+    });
+  });
+});
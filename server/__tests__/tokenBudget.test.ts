@@ -0,0 +1,28 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { currentCharsPerToken, estimateTokens, recordPromptUsage, resetTokenEstimates } from "../tokenBudget";
+
+describe("tokenBudget", () => {
+  beforeEach(() => {
+    resetTokenEstimates();
+  });
+
+  it("should move the estimate towards the ratio reported by the API", () => {
+    const before = estimateTokens("x".repeat(1000));
+    for (let i = 0; i < 30; i++) {
+      recordPromptUsage(4000, 1000);
+    }
+    expect(currentCharsPerToken()).toBeCloseTo(4, 1);
+    expect(estimateTokens("x".repeat(1000))).toBeLessThan(before);
+  });
+
+  it("should ignore empty usage and clamp outliers", () => {
+    recordPromptUsage(0, 100);
+    recordPromptUsage(100, 0);
+    expect(currentCharsPerToken()).toBe(2);
+
+    for (let i = 0; i < 50; i++) {
+      recordPromptUsage(1_000_000, 1);
+    }
+    expect(currentCharsPerToken()).toBeLessThanOrEqual(6);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { createTutorTools, TutorToolContext } from "../tutorTools";
+
+const setup = () => {
+  const ctx: TutorToolContext = { graphs: [] };
+  const tools = createTutorTools(ctx);
+  const run = (name: string, args: unknown) => {
+    const tool = tools.find((t) => t.name === name)!;
+    return tool.run(tool.schema.parse(args));
+  };
+  return { ctx, run };
+};
+
+describe("tutorTools", () => {
+  it("should evaluate expressions with variables", async () => {
+    const { run } = setup();
+    expect(await run("calculate", { expression: "1234 * 5678", variables: [] })).toEqual({ result: "7006652" });
+    expect(await run("calculate", { expression: "r^2 * pi", variables: [{ name: "r", value: 2 }] })).toEqual({
+      result: "12.566370614359",
+    });
+  });
+
+  it("should not let expressions reach the evaluator", async () => {
+    const { run } = setup();
+    expect(() => run("calculate", { expression: 'evaluate("1 + 1")', variables: [] })).toThrow();
+  });
+
+  it("should simplify and differentiate", async () => {
+    const { run } = setup();
+    expect(await run("symbolic", { operation: "simplify", expression: "2x + 3x", variable: null })).toEqual({
+      result: "5 * x",
+    });
+    expect(await run("symbolic", { operation: "derivative", expression: "x^3", variable: "x" })).toEqual({
+      result: "3 * x ^ 2",
+    });
+    expect(() => run("symbolic", { operation: "derivative", expression: "x^3", variable: null })).toThrow(
+      "variable is required"
+    );
+  });
+
+  it("should show an economics model's graph only when asked", async () => {
+    const { ctx, run } = setup();
+
+    const result = await run("simulate_economic_model", {
+      model: "supply_demand",
+      parameters: [{ name: "t", value: 6 }],
+      showGraph: false,
+    });
+    expect(result).toMatchObject({ results: expect.arrayContaining([{ label: "税収", value: 216 }]) });
+    expect(ctx.graphs).toHaveLength(0);
+
+    await run("simulate_economic_model", { model: "solow", parameters: [], showGraph: true });
+    expect(ctx.graphs).toHaveLength(1);
+    expect(ctx.graphs[0].title).toBeTruthy();
+  });
+});
@@ -7,4 +7,11 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // LLM backend: "forge" (default), "openai" for any OpenAI-compatible server, or "mock"
+  llmProvider: process.env.LLM_PROVIDER ?? "forge",
+  llmBaseUrl: process.env.LLM_BASE_URL ?? "",
+  llmApiKey: process.env.LLM_API_KEY ?? "",
+  llmModel: process.env.LLM_MODEL ?? "",
+  // Default daily LLM token quota per user; 0 disables the limit
+  llmDailyTokenQuota: Number(process.env.LLM_DAILY_TOKEN_QUOTA ?? 0) || 0,
 };
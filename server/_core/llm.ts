@@ -1,4 +1,6 @@
-import { ENV } from "./env";
+import { getLLMProvider, LLMProvider } from "./llmProvider";
+import { recordPromptUsage } from "../tokenBudget";
+import { LLMCaller, recordLLMUsage } from "../llmUsage";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -30,6 +32,8 @@ export type Message = {
   content: MessageContent | MessageContent[];
   name?: string;
   tool_call_id?: string;
+  // Tool calls made by an assistant message, echoed back before their results
+  tool_calls?: ToolCall[];
 };
 
 export type Tool = {
@@ -66,6 +70,8 @@ export type InvokeParams = {
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
+  // Request the call is made for; used for usage accounting, not sent to the API
+  caller?: LLMCaller;
 };
 
 export type ToolCall = {
@@ -153,6 +159,8 @@ const normalizeMessage = (message: Message) => {
   }
 
   const contentParts = ensureArray(message.content).map(normalizeContentPart);
+  const toolCalls =
+    message.tool_calls && message.tool_calls.length > 0 ? { tool_calls: message.tool_calls } : {};
 
   // If there's only text content, collapse to a single string for compatibility
   if (contentParts.length === 1 && contentParts[0].type === "text") {
@@ -160,6 +168,7 @@ const normalizeMessage = (message: Message) => {
       role,
       name,
       content: contentParts[0].text,
+      ...toolCalls,
     };
   }
 
@@ -167,6 +176,7 @@ const normalizeMessage = (message: Message) => {
     role,
     name,
     content: contentParts,
+    ...toolCalls,
   };
 };
 
@@ -209,17 +219,6 @@ const normalizeToolChoice = (
   return toolChoice;
 };
 
-const resolveApiUrl = () =>
-  ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
-    ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
-    : "https://forge.manus.im/v1/chat/completions";
-
-const assertApiKey = () => {
-  if (!ENV.forgeApiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-};
-
 const normalizeResponseFormat = ({
   responseFormat,
   response_format,
@@ -265,9 +264,41 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
+export type InvokeStreamResult = {
+  content: string;
+  finishReason: string | null;
+  // Tool calls assembled from their streamed fragments
+  toolCalls: ToolCall[];
+  usage?: InvokeResult["usage"];
+};
+
+type ToolCallDelta = {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+};
 
+type StreamChunk = {
+  choices?: Array<{
+    delta?: { content?: string | null; tool_calls?: ToolCallDelta[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: InvokeResult["usage"];
+};
+
+// Tool calls arrive in pieces keyed by index: the id and name first, then the arguments
+const mergeToolCallDelta = (toolCalls: ToolCall[], delta: ToolCallDelta) => {
+  const call = (toolCalls[delta.index] ??= {
+    id: "",
+    type: "function",
+    function: { name: "", arguments: "" },
+  });
+  if (delta.id) call.id = delta.id;
+  if (delta.function?.name) call.function.name += delta.function.name;
+  if (delta.function?.arguments) call.function.arguments += delta.function.arguments;
+};
+
+const buildPayload = (provider: LLMProvider, params: InvokeParams): Record<string, unknown> => {
   const {
     messages,
     tools,
@@ -280,7 +311,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   } = params;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model: provider.model,
     messages: messages.map(normalizeMessage),
   };
 
@@ -296,10 +327,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.tool_choice = normalizedToolChoice;
   }
 
-  payload.max_tokens = 32768
-  payload.thinking = {
-    "budget_tokens": 128
-  }
+  provider.preparePayload?.(payload, { maxTokens: params.maxTokens ?? params.max_tokens });
 
   const normalizedResponseFormat = normalizeResponseFormat({
     responseFormat,
@@ -312,21 +340,125 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
-  const response = await fetch(resolveApiUrl(), {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${ENV.forgeApiKey}`,
-    },
-    body: JSON.stringify(payload),
-  });
+  return payload;
+};
+
+// Characters sent as the prompt, for calibrating token estimates against `usage`
+const promptChars = (payload: Record<string, unknown>) =>
+  JSON.stringify([payload.messages, payload.tools, payload.response_format]).length;
+
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  const provider = getLLMProvider();
+  const payload = buildPayload(provider, params);
+  const startedAt = Date.now();
+  let result: InvokeResult | undefined;
+  try {
+    const response = await provider.post(payload);
+    result = (await response.json()) as InvokeResult;
+  } finally {
+    await recordLLMUsage(params.caller, {
+      model: result?.model ?? String(payload.model),
+      promptTokens: result?.usage?.prompt_tokens ?? 0,
+      completionTokens: result?.usage?.completion_tokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      success: result !== undefined,
+    });
+  }
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
+  if (result.usage) {
+    recordPromptUsage(promptChars(payload), result.usage.prompt_tokens);
+  }
+  return result;
+}
+
+/**
+ * Streaming variant of invokeLLM. Yields content deltas as they arrive over
+ * server-sent events and returns the accumulated completion once the stream
+ * ends. Aborting `signal` cancels the upstream request.
+ */
+export async function* invokeLLMStream(
+  params: InvokeParams,
+  signal?: AbortSignal
+): AsyncGenerator<string, InvokeStreamResult> {
+  const provider = getLLMProvider();
+  const payload = buildPayload(provider, params);
+  const startedAt = Date.now();
+  const result: InvokeStreamResult = { content: "", finishReason: null, toolCalls: [] };
+  let completed = false;
+
+  try {
+    const response = await provider.post(
+      { ...payload, stream: true, stream_options: { include_usage: true } },
+      signal
     );
+    if (!response.body) {
+      throw new Error("LLM stream failed: response has no body");
+    }
+    yield* readStream(response.body, payload, result);
+    completed = true;
+    return result;
+  } finally {
+    // Aborted and failed streams are recorded with whatever usage arrived
+    await recordLLMUsage(params.caller, {
+      model: String(payload.model),
+      promptTokens: result.usage?.prompt_tokens ?? 0,
+      completionTokens: result.usage?.completion_tokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      success: completed,
+    });
   }
+}
 
-  return (await response.json()) as InvokeResult;
+// Parse server-sent events into `result`, yielding content deltas
+async function* readStream(
+  body: ReadableStream<Uint8Array>,
+  payload: Record<string, unknown>,
+  result: InvokeStreamResult
+): AsyncGenerator<string, void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const data = trimmed.slice("data:".length).trim();
+        if (data === "[DONE]") return;
+
+        const chunk = JSON.parse(data) as StreamChunk;
+        if (chunk.usage) {
+          result.usage = chunk.usage;
+          recordPromptUsage(promptChars(payload), chunk.usage.prompt_tokens);
+        }
+
+        const choice = chunk.choices?.[0];
+        if (choice?.finish_reason) {
+          result.finishReason = choice.finish_reason;
+        }
+
+        choice?.delta?.tool_calls?.forEach((toolCall) =>
+          mergeToolCallDelta(result.toolCalls, toolCall)
+        );
+
+        const delta = choice?.delta?.content;
+        if (delta) {
+          result.content += delta;
+          yield delta;
+        }
+      }
+    }
+  } finally {
+    // Closes the upstream connection when the consumer stops early.
+    await reader.cancel().catch(() => undefined);
+  }
 }
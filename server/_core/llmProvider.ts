@@ -0,0 +1,123 @@
+import { ENV } from "./env";
+import { createMockProvider } from "./mockLLMProvider";
+
+/**
+ * Backends that serve chat completions. Every provider speaks the OpenAI chat
+ * completions wire format, so invokeLLM builds one payload and parses one
+ * response shape (JSON, or server-sent events when `stream` is set).
+ */
+export type LLMProvider = {
+  name: string;
+  /** Model sent in the payload and recorded in usage. */
+  model: string;
+  /** Add provider-specific fields to a normalized payload. */
+  preparePayload?: (payload: Record<string, unknown>, options: { maxTokens?: number }) => void;
+  /** POST a chat completions payload. Throws when the provider is not configured. */
+  post: (payload: Record<string, unknown>, signal?: AbortSignal) => Promise<Response>;
+};
+
+export type ProviderName = "forge" | "openai" | "mock";
+
+const postJson = async (
+  url: string,
+  apiKey: string,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
+    );
+  }
+
+  return response;
+};
+
+/**
+ * Chat completions endpoint under a base URL. The base may be given with or
+ * without the API version (`https://api.openai.com` or `https://api.openai.com/v1`).
+ */
+export const chatCompletionsUrl = (baseUrl: string) =>
+  `${baseUrl.replace(/\/+$/, "").replace(/\/v1$/, "")}/v1/chat/completions`;
+
+/** Manus Forge, configured with BUILT_IN_FORGE_API_URL / BUILT_IN_FORGE_API_KEY. */
+export function createForgeProvider(): LLMProvider {
+  return {
+    name: "forge",
+    model: "gemini-2.5-flash",
+    preparePayload: (payload) => {
+      payload.max_tokens = 32768;
+      payload.thinking = {
+        budget_tokens: 128,
+      };
+    },
+    post: (payload, signal) => {
+      if (!ENV.forgeApiKey) {
+        throw new Error("OPENAI_API_KEY is not configured");
+      }
+      const url =
+        ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
+          ? chatCompletionsUrl(ENV.forgeApiUrl)
+          : "https://forge.manus.im/v1/chat/completions";
+      return postJson(url, ENV.forgeApiKey, payload, signal);
+    },
+  };
+}
+
+/**
+ * Any OpenAI-compatible server (OpenAI, a local Ollama or vLLM...), configured
+ * with LLM_BASE_URL, LLM_API_KEY (optional for local servers) and LLM_MODEL.
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  return {
+    name: "openai",
+    model: ENV.llmModel || "gpt-4o-mini",
+    preparePayload: (payload, { maxTokens }) => {
+      if (maxTokens) payload.max_tokens = maxTokens;
+    },
+    post: (payload, signal) => {
+      if (!ENV.llmBaseUrl) {
+        throw new Error("LLM_BASE_URL is not configured");
+      }
+      return postJson(chatCompletionsUrl(ENV.llmBaseUrl), ENV.llmApiKey, payload, signal);
+    },
+  };
+}
+
+let provider: LLMProvider | null = null;
+
+/** The provider selected by LLM_PROVIDER (default: forge). */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    switch (ENV.llmProvider) {
+      case "openai":
+        provider = createOpenAICompatibleProvider();
+        break;
+      case "mock":
+        provider = createMockProvider();
+        break;
+      case "forge":
+        provider = createForgeProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${ENV.llmProvider}"`);
+    }
+  }
+  return provider;
+}
+
+/** Replace the provider, e.g. with a scripted mock in tests. Pass null to go back to LLM_PROVIDER. */
+export function setLLMProvider(next: LLMProvider | null) {
+  provider = next;
+}
@@ -0,0 +1,192 @@
+import type { LLMProvider } from "./llmProvider";
+
+/**
+ * Deterministic LLM provider for tests and offline development
+ * (LLM_PROVIDER=mock). Replies are taken from a script in order; once the
+ * script is used up, text requests get a fixed echo reply and json_schema
+ * requests get the smallest value that matches the schema.
+ */
+
+export type MockToolCall = { name: string; arguments: unknown };
+
+export type MockReply = {
+  content?: string;
+  toolCalls?: MockToolCall[];
+};
+
+/** The request a reply is produced for: the payload as the provider received it. */
+export type MockRequest = Record<string, unknown> & {
+  messages: Array<{ role: string; content: unknown }>;
+  stream?: boolean;
+};
+
+export type MockScriptStep = MockReply | ((request: MockRequest) => MockReply);
+
+export type MockLLMProvider = LLMProvider & {
+  /** Payloads received so far, in order. */
+  requests: MockRequest[];
+  /** Append replies to the script. */
+  script: (...steps: MockScriptStep[]) => void;
+  /** Clear the script and the recorded requests. */
+  reset: () => void;
+};
+
+type JsonSchemaNode = Record<string, unknown>;
+
+const isSchemaNode = (value: unknown): value is JsonSchemaNode =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const numberOr = (value: unknown, fallback: number) => (typeof value === "number" ? value : fallback);
+
+const resolveRef = (root: JsonSchemaNode, ref: string) =>
+  ref
+    .replace(/^#\//, "")
+    .split("/")
+    .reduce<unknown>((node, key) => (isSchemaNode(node) ? node[key] : undefined), root);
+
+/** Smallest value matching a JSON schema: first enum value, minimum numbers, minItems arrays. */
+export function sampleFromSchema(node: JsonSchemaNode, root: JsonSchemaNode = node): unknown {
+  if (typeof node.$ref === "string") {
+    const target = resolveRef(root, node.$ref);
+    return isSchemaNode(target) ? sampleFromSchema(target, root) : null;
+  }
+  if ("const" in node) return node.const;
+  if (Array.isArray(node.enum)) return node.enum[0];
+
+  const variants = (Array.isArray(node.anyOf) ? node.anyOf : Array.isArray(node.oneOf) ? node.oneOf : []).filter(
+    isSchemaNode
+  );
+  if (variants.length > 0) {
+    const variant = variants.find((v) => v.type !== "null") ?? variants[0];
+    return sampleFromSchema(variant, root);
+  }
+
+  const type = Array.isArray(node.type) ? (node.type.find((t) => t !== "null") ?? "null") : node.type;
+  switch (type) {
+    case "object": {
+      const properties = isSchemaNode(node.properties) ? node.properties : {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, child]) => [
+          key,
+          isSchemaNode(child) ? sampleFromSchema(child, root) : null,
+        ])
+      );
+    }
+    case "array": {
+      const items = isSchemaNode(node.items) ? node.items : {};
+      return Array.from({ length: numberOr(node.minItems, 0) }, () => sampleFromSchema(items, root));
+    }
+    case "string":
+      return "mock".padEnd(numberOr(node.minLength, 0), "-");
+    case "number":
+    case "integer":
+      if (typeof node.minimum === "number") return node.minimum;
+      return typeof node.exclusiveMinimum === "number" ? node.exclusiveMinimum + 1 : 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+const lastUserMessage = (request: MockRequest) => {
+  const message = [...request.messages].reverse().find((m) => m.role === "user");
+  return typeof message?.content === "string" ? message.content : "";
+};
+
+// Reply used once the script is exhausted
+function defaultReply(request: MockRequest): MockReply {
+  const format = request.response_format as { type?: string; json_schema?: { schema: JsonSchemaNode } } | undefined;
+  if (format?.type === "json_schema" && format.json_schema) {
+    return { content: JSON.stringify(sampleFromSchema(format.json_schema.schema)) };
+  }
+  return { content: `(mock) ${lastUserMessage(request)}`.trim() };
+}
+
+// Rough token counts so usage accounting has deterministic numbers to record
+const countTokens = (value: unknown) => Math.ceil(JSON.stringify(value ?? "").length / 4);
+
+const toToolCalls = (reply: MockReply, turn: number) =>
+  (reply.toolCalls ?? []).map((call, i) => ({
+    id: `mock-call-${turn}-${i}`,
+    type: "function" as const,
+    function: {
+      name: call.name,
+      arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments),
+    },
+  }));
+
+function completionResponse(request: MockRequest, reply: MockReply, turn: number) {
+  const toolCalls = toToolCalls(reply, turn);
+  const content = reply.content ?? "";
+  const usage = {
+    prompt_tokens: countTokens(request.messages),
+    completion_tokens: countTokens(content) + countTokens(toolCalls.length > 0 ? toolCalls : ""),
+    total_tokens: 0,
+  };
+  usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+  const finishReason = toolCalls.length > 0 ? "tool_calls" : "stop";
+
+  if (!request.stream) {
+    return Response.json({
+      id: `mock-${turn}`,
+      created: 0,
+      model: "mock",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) },
+          finish_reason: finishReason,
+        },
+      ],
+      usage,
+    });
+  }
+
+  // Same reply as server-sent events: content in word-sized deltas, each tool
+  // call split into its header and arguments, then the finish reason and usage
+  const chunks: unknown[] = [];
+  for (const piece of content.match(/\S+\s*|\s+/g) ?? []) {
+    chunks.push({ choices: [{ delta: { content: piece } }] });
+  }
+  toolCalls.forEach((call, index) => {
+    chunks.push({
+      choices: [{ delta: { tool_calls: [{ index, id: call.id, function: { name: call.function.name } }] } }],
+    });
+    chunks.push({
+      choices: [{ delta: { tool_calls: [{ index, function: { arguments: call.function.arguments } }] } }],
+    });
+  });
+  chunks.push({ choices: [{ delta: {}, finish_reason: finishReason }] });
+  chunks.push({ choices: [], usage });
+
+  const body = [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"].join("");
+  return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+export function createMockProvider(...initialScript: MockScriptStep[]): MockLLMProvider {
+  const steps: MockScriptStep[] = [...initialScript];
+  const requests: MockRequest[] = [];
+
+  return {
+    name: "mock",
+    model: "mock",
+    requests,
+    script: (...more) => {
+      steps.push(...more);
+    },
+    reset: () => {
+      steps.length = 0;
+      requests.length = 0;
+    },
+    post: async (payload, signal) => {
+      signal?.throwIfAborted();
+      const request = structuredClone(payload) as MockRequest;
+      requests.push(request);
+
+      const step = steps.shift() ?? defaultReply;
+      const reply = typeof step === "function" ? step(request) : step;
+      return completionResponse(request, reply, requests.length);
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { invokeLLM, invokeLLMStream, InvokeParams, Message, Tool, ToolCall } from "./_core/llm";
+import { toJsonSchema } from "./structuredOutput";
+
+/**
+ * Tool-calling loop. The LLM may call registered tools; their results are sent
+ * back as "tool" messages and the model is invoked again until it answers
+ * without calling a tool or the step limit is reached.
+ */
+
+export type AgentTool<T = unknown> = {
+  name: string;
+  description: string;
+  schema: z.ZodType<T>;
+  // Method syntax so a tool with typed arguments fits in an AgentTool[]; run only ever receives schema output
+  run(args: T): unknown | Promise<unknown>;
+};
+
+/** Define a tool with its argument type inferred from the schema. */
+export function defineTool<T>(tool: AgentTool<T>) {
+  return tool;
+}
+
+export type AgentStep = {
+  tool: string;
+  arguments: unknown;
+  result: unknown;
+  // Set when the call failed; the model sees the message and can retry
+  error?: string;
+};
+
+export type AgentResult = {
+  content: string;
+  steps: AgentStep[];
+};
+
+export type AgentOptions = {
+  /** Maximum LLM calls that may use tools; the next call must answer (default: 4). */
+  maxSteps?: number;
+};
+
+// "discard" follows the text of a step that ended in tool calls: that text was
+// narration, not part of the reply, and consumers drop what they have so far
+export type AgentEvent = { type: "delta"; text: string } | { type: "discard" } | { type: "tool"; step: AgentStep };
+
+type AgentParams = Omit<InvokeParams, "tools" | "toolChoice" | "tool_choice">;
+
+const DEFAULT_MAX_STEPS = 4;
+
+const toolDefinitions = (tools: AgentTool[]): Tool[] =>
+  tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: toJsonSchema(tool.schema),
+    },
+  }));
+
+// Tools are offered until the step limit, then the model has to answer
+const toolParams = (tools: AgentTool[], step: number, maxSteps: number) => ({
+  tools: toolDefinitions(tools),
+  toolChoice: step < maxSteps ? ("auto" as const) : ("none" as const),
+});
+
+async function runToolCall(tools: AgentTool[], call: ToolCall): Promise<AgentStep> {
+  const name = call.function.name;
+  const tool = tools.find((t) => t.name === name);
+  let args: unknown;
+  try {
+    args = JSON.parse(call.function.arguments || "{}");
+  } catch {
+    return { tool: name, arguments: call.function.arguments, result: null, error: "Arguments were not valid JSON" };
+  }
+  if (!tool) {
+    return { tool: name, arguments: args, result: null, error: `Unknown tool "${name}"` };
+  }
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return { tool: tool.name, arguments: args, result: null, error: `Invalid arguments: ${issues.join("; ")}` };
+  }
+
+  try {
+    return { tool: tool.name, arguments: parsed.data, result: await tool.run(parsed.data) };
+  } catch (error) {
+    return {
+      tool: tool.name,
+      arguments: parsed.data,
+      result: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Append the assistant's tool calls and one result message per call
+function appendToolTurn(messages: Message[], content: string, calls: ToolCall[], steps: AgentStep[]) {
+  messages.push({ role: "assistant", content, tool_calls: calls });
+  calls.forEach((call, i) => {
+    const step = steps[i];
+    messages.push({
+      role: "tool",
+      tool_call_id: call.id,
+      name: call.function.name,
+      content: JSON.stringify(step.error ? { error: step.error } : step.result),
+    });
+  });
+}
+
+/** Run the loop and return the final answer with the tool calls that led to it. */
+export async function runAgent(
+  params: AgentParams,
+  tools: AgentTool[],
+  options: AgentOptions = {}
+): Promise<AgentResult> {
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const messages = [...params.messages];
+  const steps: AgentStep[] = [];
+
+  for (let step = 0; ; step++) {
+    const result = await invokeLLM({ ...params, messages, ...toolParams(tools, step, maxSteps) });
+    const message = result?.choices?.[0]?.message;
+    if (!message) {
+      throw new Error("Invalid LLM response");
+    }
+
+    const content = typeof message.content === "string" ? message.content : "";
+    const calls = message.tool_calls ?? [];
+    if (calls.length === 0 || step >= maxSteps) {
+      return { content, steps };
+    }
+
+    const turnSteps = await Promise.all(calls.map((call) => runToolCall(tools, call)));
+    steps.push(...turnSteps);
+    appendToolTurn(messages, content, calls, turnSteps);
+  }
+}
+
+/**
+ * Streaming variant of runAgent: yields answer text as it arrives and each
+ * tool call once it has run, then returns the final result. Text is streamed
+ * before it is known whether the step calls tools, so a step that does is
+ * followed by "discard"; the reply is then only the final step's text, as in runAgent.
+ */
+export async function* streamAgent(
+  params: AgentParams,
+  tools: AgentTool[],
+  options: AgentOptions = {},
+  signal?: AbortSignal
+): AsyncGenerator<AgentEvent, AgentResult> {
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const messages = [...params.messages];
+  const steps: AgentStep[] = [];
+
+  for (let step = 0; ; step++) {
+    const stream = invokeLLMStream({ ...params, messages, ...toolParams(tools, step, maxSteps) }, signal);
+    let next = await stream.next();
+    try {
+      while (!next.done) {
+        yield { type: "delta", text: next.value };
+        next = await stream.next();
+      }
+    } finally {
+      // Close the upstream request when the consumer stops early
+      if (!next.done) await stream.return({ content: "", finishReason: null, toolCalls: [] });
+    }
+
+    const { content, toolCalls } = next.value;
+    if (toolCalls.length === 0 || step >= maxSteps) {
+      return { content, steps };
+    }
+
+    if (content) {
+      yield { type: "discard" };
+    }
+    const turnSteps = await Promise.all(toolCalls.map((call) => runToolCall(tools, call)));
+    for (const turnStep of turnSteps) {
+      steps.push(turnStep);
+      yield { type: "tool", step: turnStep };
+    }
+    appendToolTurn(messages, content, toolCalls, turnSteps);
+  }
+}
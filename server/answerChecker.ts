@@ -0,0 +1,151 @@
+import type { MathNode } from "mathjs";
+import { z } from "zod";
+import { freeVariables, parse } from "@shared/math";
+
+/**
+ * Deterministic checking of numeric and algebraic answers. Practice problems
+ * carry a machine-checkable answer spec; answers that can be checked here
+ * never need an LLM call. Free-form answers (proofs, explanations) return
+ * null so the caller can fall back to the LLM.
+ */
+
+export const answerSpecSchema = z.object({
+  kind: z.enum(["numeric", "expression", "free_form"]),
+  value: z.string().nullable(),
+  tolerance: z.number().nullable(),
+});
+
+export type AnswerSpec = z.infer<typeof answerSpecSchema>;
+
+// Relative tolerance used when the spec does not give one
+const DEFAULT_TOLERANCE = 1e-6;
+
+// Variable values tried when comparing expressions; chosen to avoid common singularities
+const SAMPLE_VALUES = [0.37, 1.29, 2.53, -0.81, 3.17, -1.73];
+const MIN_SAMPLES = 3;
+
+const SYMBOL_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g, "($1)/($2)"],
+  [/\\sqrt\{([^{}]*)\}/g, "sqrt($1)"],
+  [/\\(left|right|displaystyle)/g, ""],
+  [/\\(cdot|times)/g, "*"],
+  [/\\div/g, "/"],
+  [/\\(pi|sin|cos|tan|log|ln|exp)/g, "$1"],
+  [/[×·]/g, "*"],
+  [/÷/g, "/"],
+  [/[−–]/g, "-"],
+  [/√\s*([\w.]+)/g, "sqrt($1)"],
+  [/√/g, "sqrt"],
+  [/π/g, "pi"],
+  [/[{]/g, "("],
+  [/[}]/g, ")"],
+];
+
+/**
+ * Reduce a written answer to a bare expression: drop math delimiters and
+ * surrounding prose, convert common LaTeX and Unicode symbols, and keep the
+ * right-hand side of "f'(x) = ..." style answers.
+ */
+export function normalizeAnswer(answer: string) {
+  let text = answer.normalize("NFKC").replace(/\$|\\\(|\\\)|\\\[|\\\]/g, "");
+  for (const [pattern, replacement] of SYMBOL_REPLACEMENTS) {
+    text = text.replace(pattern, replacement);
+  }
+  text = text.replace(/\bln\(/g, "log(");
+
+  const sides = text.split("=");
+  return sides[sides.length - 1]
+    .replace(/[^\x20-\x7e]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseAnswer(answer: string): MathNode | null {
+  const normalized = normalizeAnswer(answer);
+  if (!normalized) return null;
+  try {
+    return parse(normalized);
+  } catch {
+    return null;
+  }
+}
+
+function evaluateNumber(node: MathNode, scope: Record<string, number> = {}) {
+  try {
+    const value = node.compile().evaluate(scope);
+    return typeof value === "number" && Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function isClose(actual: number, expected: number, tolerance: number) {
+  return Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected));
+}
+
+/** Whether a spec can actually be checked locally (its expected value parses and evaluates). */
+export function isCheckableSpec(spec: AnswerSpec) {
+  if (spec.kind === "free_form" || !spec.value) return false;
+  const expected = parseAnswer(spec.value);
+  if (!expected) return false;
+  return spec.kind === "numeric"
+    ? evaluateNumber(expected) !== null
+    : checkExpression(expected, expected, DEFAULT_TOLERANCE) === true;
+}
+
+/** Parse the JSON answer spec stored on a practice problem. */
+export function parseAnswerSpec(answerSpec: string | null): AnswerSpec | null {
+  if (!answerSpec) return null;
+  try {
+    const result = answerSpecSchema.safeParse(JSON.parse(answerSpec));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check an answer against a spec. Returns true/false when the answer could be
+ * graded locally, or null when it needs a human-style judgement (free-form
+ * spec, or an answer that is not a parseable expression).
+ */
+export function checkAnswer(spec: AnswerSpec, answer: string): boolean | null {
+  if (spec.kind === "free_form" || !spec.value) return null;
+
+  const expected = parseAnswer(spec.value);
+  const actual = parseAnswer(answer);
+  if (!expected || !actual) return null;
+
+  const tolerance = spec.tolerance ?? DEFAULT_TOLERANCE;
+
+  if (spec.kind === "numeric") {
+    const expectedValue = evaluateNumber(expected);
+    if (expectedValue === null) return null;
+    const actualValue = evaluateNumber(actual);
+    return actualValue !== null && isClose(actualValue, expectedValue, tolerance);
+  }
+
+  return checkExpression(expected, actual, tolerance);
+}
+
+// Compare two expressions by evaluating them at the same sample points
+function checkExpression(expected: MathNode, actual: MathNode, tolerance: number) {
+  const variables = Array.from(new Set([...freeVariables(expected), ...freeVariables(actual)]));
+  let compared = 0;
+
+  for (let i = 0; i < SAMPLE_VALUES.length; i++) {
+    const scope = Object.fromEntries(
+      variables.map((name, j) => [name, SAMPLE_VALUES[(i + j) % SAMPLE_VALUES.length] + j * 0.11])
+    );
+    const expectedValue = evaluateNumber(expected, scope);
+    if (expectedValue === null) continue;
+
+    const actualValue = evaluateNumber(actual, scope);
+    if (actualValue === null || !isClose(actualValue, expectedValue, tolerance)) {
+      return false;
+    }
+    compared++;
+  }
+
+  return compared >= MIN_SAMPLES ? true : null;
+}
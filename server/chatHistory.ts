@@ -0,0 +1,135 @@
+import type { ChatLog } from "../drizzle/schema";
+import { invokeLLM, Message } from "./_core/llm";
+import { getChatLogsAfter, getSessionSummary, upsertSessionSummary } from "./db";
+import { estimateTokens } from "./tokenBudget";
+import type { LLMCaller } from "./llmUsage";
+import { parseGraphData } from "@shared/graph";
+import { parseResearchEntry, RESEARCH_KIND_LABELS } from "@shared/research";
+import { parsePhotoEntry } from "@shared/photo";
+
+/**
+ * Text of a stored chat log as the LLM should see it in the conversation
+ * history. Graph logs hold a full GraphData spec, research and image logs a
+ * JSON entry; all are reduced to readable text. Photos are represented by
+ * their transcription, so the image itself is only sent once.
+ */
+export function chatLogContent(log: ChatLog) {
+  if (log.contentType === "json") {
+    const graph = parseGraphData(log.content);
+    return graph ? `[Graph shown to the student: ${graph.title}]` : log.content;
+  }
+  if (log.contentType === "research") {
+    const entry = parseResearchEntry(log.content);
+    return entry ? `【${RESEARCH_KIND_LABELS[entry.kind]}】${entry.prompt}\n\n${entry.body}` : log.content;
+  }
+  if (log.contentType === "image") {
+    const photo = parsePhotoEntry(log.content);
+    if (!photo) return log.content;
+    const transcription = photo.transcription.map((line, i) => `${i + 1}. ${line}`).join("\n");
+    return `[Photo of handwritten work]${photo.note ? ` ${photo.note}` : ""}\nTranscription:\n${transcription || "(unreadable)"}`;
+  }
+  return log.content;
+}
+
+export type HistoryOptions = {
+  /** Token budget for the history, summary included (default: 6000). */
+  maxTokens?: number;
+  /** Request the summary LLM call is accounted to. */
+  caller?: LLMCaller;
+};
+
+const DEFAULT_HISTORY_TOKENS = 6000;
+// Logs kept verbatim when older ones are folded into the summary
+const RECENT_LOGS = 12;
+// Older logs are folded once this many are outside the summary, so it is not rewritten every turn
+const SUMMARIZE_AFTER = 20;
+// The latest exchange is always kept, even when it alone exceeds the budget
+const MIN_RECENT_LOGS = 2;
+// Share of the budget left for the summary when choosing recent logs
+const SUMMARY_SHARE = 0.25;
+
+const toMessage = (log: ChatLog): Message => ({
+  role: log.sender === "user" ? "user" : "assistant",
+  content: chatLogContent(log),
+});
+
+const summaryMessage = (summary: string): Message => ({
+  role: "system",
+  content: `Summary of the earlier part of this session (older messages are not shown):\n${summary}`,
+});
+
+// Fold logs into the running summary with one LLM call
+async function summarize(previous: string | null, logs: ChatLog[], caller?: LLMCaller) {
+  const transcript = logs
+    .map((log) => `${log.sender === "user" ? "Student" : "Tutor"}: ${chatLogContent(log)}`)
+    .join("\n\n");
+
+  const result = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: `You maintain the running summary of a tutoring session. Update the summary so it also covers the new messages.
+Keep what the tutor needs later: topics covered, the student's questions, mistakes and misconceptions, problems given and whether they were solved, and any preferences the student stated.
+Write at most 300 words, in the language of the conversation. Respond with the summary only.`,
+      },
+      {
+        role: "user",
+        content: `Current summary:\n${previous ?? "(none)"}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+    maxTokens: 1024,
+    caller,
+  });
+
+  const summary = result.choices[0]?.message?.content;
+  if (typeof summary !== "string" || !summary.trim()) {
+    throw new Error("Empty summary");
+  }
+  return summary.trim();
+}
+
+/**
+ * Conversation history for an LLM call: the session summary followed by the
+ * most recent logs verbatim, within a token budget. When too many logs have
+ * accumulated outside the summary, the older ones are folded into it and the
+ * updated summary is stored for later calls.
+ */
+export async function buildHistory(sessionId: string, options: HistoryOptions = {}): Promise<Message[]> {
+  const budget = options.maxTokens ?? DEFAULT_HISTORY_TOKENS;
+  const stored = await getSessionSummary(sessionId);
+  const logs = await getChatLogsAfter(sessionId, stored?.throughLogId ?? 0);
+  let summary = stored?.summary ?? null;
+
+  const tokens = logs.map((log) => estimateTokens(chatLogContent(log)));
+  const total = tokens.reduce((sum, t) => sum + t, 0) + (summary ? estimateTokens(summary) : 0);
+  if (logs.length <= SUMMARIZE_AFTER && total <= budget) {
+    return [...(summary ? [summaryMessage(summary)] : []), ...logs.map(toMessage)];
+  }
+
+  // Keep the newest logs that fit next to the summary; fold the rest into it
+  const recentBudget = budget * (1 - SUMMARY_SHARE);
+  let keep = 0;
+  let used = 0;
+  while (
+    keep < logs.length &&
+    keep < RECENT_LOGS &&
+    (keep < MIN_RECENT_LOGS || used + tokens[logs.length - 1 - keep] <= recentBudget)
+  ) {
+    used += tokens[logs.length - 1 - keep];
+    keep++;
+  }
+  const recent = logs.slice(logs.length - keep);
+  const folded = logs.slice(0, logs.length - keep);
+
+  if (folded.length > 0) {
+    try {
+      summary = await summarize(summary, folded, options.caller);
+      await upsertSessionSummary(sessionId, summary, folded[folded.length - 1].id);
+    } catch (error) {
+      // Fall back to the recent logs; the fold is retried on the next call
+      console.error("Failed to update session summary:", error);
+    }
+  }
+
+  return [...(summary ? [summaryMessage(summary)] : []), ...recent.map(toMessage)];
+}
@@ -1,7 +1,8 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc, desc, gt, gte, inArray, isNotNull, isNull, like, lte, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, learningSessions, chatLogs, practiceProblems, quizzes, learningNotes, sessionPerformance, InsertLearningSession, InsertChatLog, InsertSessionPerformance } from "../drizzle/schema";
+import { InsertUser, users, learningSessions, chatLogs, chatTurns, practiceProblems, quizzes, quizAttempts, reviewItems, skillMastery, learningNotes, sessionPerformance, performanceEvents, sessionSummaries, llmUsage, InsertLearningSession, InsertChatLog, InsertPerformanceEvent, ReviewItem, SkillMastery, InsertLlmUsage } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { AnswerSpec } from "./answerChecker";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -89,6 +90,20 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function updateUserMathNotation(userId: number, mathNotation: "latex" | "plain") {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({ mathNotation }).where(eq(users.id, userId));
+}
+
+export async function updateUserDailyTokenQuota(userId: number, dailyTokenQuota: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({ dailyTokenQuota }).where(eq(users.id, userId));
+}
+
 // Learning Sessions queries
 export async function createLearningSession(session: InsertLearningSession) {
   const db = await getDb();
@@ -125,6 +140,70 @@ export async function getLearningSession(sessionId: string) {
   }
 }
 
+export async function listLearningSessions(
+  userId: number,
+  options: { search?: string; archived: boolean; limit: number; offset: number }
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  try {
+    const conditions = [
+      eq(learningSessions.userId, userId),
+      eq(learningSessions.archived, options.archived ? 1 : 0),
+    ];
+    if (options.search) {
+      const pattern = options.search.replace(/[\\%_]/g, "\\$&");
+      conditions.push(like(learningSessions.topic, `%${pattern}%`));
+    }
+
+    return await db
+      .select()
+      .from(learningSessions)
+      .where(and(...conditions))
+      .orderBy(desc(learningSessions.updatedAt))
+      .limit(options.limit)
+      .offset(options.offset);
+  } catch (error) {
+    console.error("[Database] Failed to list learning sessions:", error);
+    throw error;
+  }
+}
+
+export async function updateLearningSession(
+  sessionId: string,
+  changes: Partial<Pick<InsertLearningSession, "topic" | "archived">>
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  try {
+    await db.update(learningSessions).set(changes).where(eq(learningSessions.id, sessionId));
+  } catch (error) {
+    console.error("[Database] Failed to update learning session:", error);
+    throw error;
+  }
+}
+
+export async function deleteLearningSession(sessionId: string) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  try {
+    // Chat logs, problems, quizzes, notes and performance cascade on delete
+    await db.delete(learningSessions).where(eq(learningSessions.id, sessionId));
+  } catch (error) {
+    console.error("[Database] Failed to delete learning session:", error);
+    throw error;
+  }
+}
+
 // Chat Logs queries
 export async function addChatLog(log: InsertChatLog) {
   const db = await getDb();
@@ -134,6 +213,11 @@ export async function addChatLog(log: InsertChatLog) {
   
   try {
     const result = await db.insert(chatLogs).values(log);
+    // Keep the session at the top of the history list
+    await db
+      .update(learningSessions)
+      .set({ updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(learningSessions.id, log.sessionId));
     return result;
   } catch (error) {
     console.error("[Database] Failed to add chat log:", error);
@@ -152,7 +236,7 @@ export async function getChatLogs(sessionId: string) {
       .select()
       .from(chatLogs)
       .where(eq(chatLogs.sessionId, sessionId))
-      .orderBy(chatLogs.createdAt);
+      .orderBy(chatLogs.createdAt, chatLogs.id);
     
     return result;
   } catch (error) {
@@ -161,23 +245,190 @@ export async function getChatLogs(sessionId: string) {
   }
 }
 
+// Chat logs newer than the given log, oldest first
+export async function getChatLogsAfter(sessionId: string, afterLogId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(chatLogs)
+    .where(and(eq(chatLogs.sessionId, sessionId), gt(chatLogs.id, afterLogId)))
+    .orderBy(chatLogs.createdAt, chatLogs.id);
+}
+
+// Chat turn queries
+export type ChatTurnLog = Pick<InsertChatLog, "sender" | "content" | "contentType">;
+
+// mysql2 reports unique key violations as ER_DUP_ENTRY; drizzle wraps driver errors in `cause`
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  ((error as { code?: unknown }).code === "ER_DUP_ENTRY" || isDuplicateKeyError((error as { cause?: unknown }).cause));
+
+/** A completed chat turn and its logs in order, or null when the key has not been used. */
+export async function getChatTurn(sessionId: string, clientMessageId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [turn] = await db
+    .select()
+    .from(chatTurns)
+    .where(and(eq(chatTurns.sessionId, sessionId), eq(chatTurns.clientMessageId, clientMessageId)))
+    .limit(1);
+  if (!turn) return null;
+
+  // Only the turn's own logs: others written to the session meanwhile
+  // (research results, posted problems) can have ids in between
+  const logIds = JSON.parse(turn.logIds) as number[];
+  const logs = await db
+    .select()
+    .from(chatLogs)
+    .where(and(eq(chatLogs.sessionId, sessionId), inArray(chatLogs.id, logIds)))
+    .orderBy(chatLogs.id);
+  return { turn, logs };
+}
+
+/**
+ * Write a chat turn in one transaction: its logs in order (the user message
+ * first, the reply last) and the turn row keyed by `clientMessageId`.
+ * Returns false without writing anything when the key was already used.
+ */
+export async function saveChatTurn(sessionId: string, clientMessageId: string, logs: ChatTurnLog[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (logs.length < 2) throw new Error("A chat turn needs a user message and a reply");
+
+  try {
+    await db.transaction(async (tx) => {
+      const ids: number[] = [];
+      for (const log of logs) {
+        const [inserted] = await tx.insert(chatLogs).values({ ...log, sessionId }).$returningId();
+        ids.push(inserted.id);
+      }
+      await tx.insert(chatTurns).values({
+        sessionId,
+        clientMessageId,
+        userLogId: ids[0],
+        replyLogId: ids[ids.length - 1],
+        logIds: JSON.stringify(ids),
+      });
+      // Keep the session at the top of the history list
+      await tx
+        .update(learningSessions)
+        .set({ updatedAt: sql`CURRENT_TIMESTAMP` })
+        .where(eq(learningSessions.id, sessionId));
+    });
+    return true;
+  } catch (error) {
+    if (isDuplicateKeyError(error)) return false;
+    throw error;
+  }
+}
+
+// Session summary queries
+export async function getSessionSummary(sessionId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(sessionSummaries)
+    .where(eq(sessionSummaries.sessionId, sessionId))
+    .limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function upsertSessionSummary(sessionId: string, summary: string, throughLogId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(sessionSummaries)
+    .values({ sessionId, summary, throughLogId })
+    .onDuplicateKeyUpdate({ set: { summary, throughLogId } });
+}
+
+
+// LLM usage queries
+export async function addLlmUsage(usage: InsertLlmUsage) {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.insert(llmUsage).values(usage);
+}
+
+export async function sumUserTokensSince(userId: number, since: Date) {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const [row] = await db.select({
+    tokens: sql<number>`coalesce(sum(${llmUsage.promptTokens} + ${llmUsage.completionTokens}), 0)`,
+  })
+    .from(llmUsage)
+    .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, since)));
+  return Number(row?.tokens ?? 0);
+}
+
+// Sums and averages come back from MySQL as decimal strings
+const usageTotals = {
+  calls: sql<number>`count(*)`,
+  failures: sql<string | null>`sum(case when ${llmUsage.success} = 0 then 1 else 0 end)`,
+  promptTokens: sql<string>`coalesce(sum(${llmUsage.promptTokens}), 0)`,
+  completionTokens: sql<string>`coalesce(sum(${llmUsage.completionTokens}), 0)`,
+  avgLatencyMs: sql<string>`coalesce(avg(${llmUsage.latencyMs}), 0)`,
+};
+
+// Aggregates for the admin dashboard: overall, per day, per procedure and per user
+export async function getLlmUsageSummary(since: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const where = gte(llmUsage.createdAt, since);
+  const day = sql<string>`date_format(${llmUsage.createdAt}, '%Y-%m-%d')`;
+
+  const [[totals], byDay, byProcedure, byUser] = await Promise.all([
+    db.select(usageTotals).from(llmUsage).where(where),
+    db.select({ day, ...usageTotals }).from(llmUsage).where(where).groupBy(day).orderBy(day),
+    db.select({ procedure: llmUsage.procedure, ...usageTotals })
+      .from(llmUsage)
+      .where(where)
+      .groupBy(llmUsage.procedure),
+    db.select({
+      userId: llmUsage.userId,
+      name: users.name,
+      dailyTokenQuota: users.dailyTokenQuota,
+      ...usageTotals,
+    })
+      .from(llmUsage)
+      .leftJoin(users, eq(llmUsage.userId, users.id))
+      .where(where)
+      .groupBy(llmUsage.userId, users.name, users.dailyTokenQuota),
+  ]);
+  return { totals, byDay, byProcedure, byUser };
+}
 
 // Practice problems queries
 export async function createPracticeProblem(
   sessionId: string,
   problemText: string,
   solution: string,
-  difficulty: "easy" | "medium" | "hard" = "medium"
+  difficulty: "easy" | "medium" | "hard" = "medium",
+  skills: string[] = [],
+  answerSpec: AnswerSpec | null = null
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return db.insert(practiceProblems).values({
+  const [inserted] = await db.insert(practiceProblems).values({
     sessionId,
     problemText,
     solution,
     difficulty,
-  });
+    skills: JSON.stringify(skills),
+    answerSpec: answerSpec ? JSON.stringify(answerSpec) : null,
+  }).$returningId();
+
+  return inserted.id;
 }
 
 export async function getPracticeProblems(sessionId: string) {
@@ -186,24 +437,58 @@ export async function getPracticeProblems(sessionId: string) {
   return db.select().from(practiceProblems).where(eq(practiceProblems.sessionId, sessionId));
 }
 
+export async function getPracticeProblem(sessionId: string, problemId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(practiceProblems)
+    .where(and(eq(practiceProblems.id, problemId), eq(practiceProblems.sessionId, sessionId)))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Unsolved practice problems in a session, newest first
+export async function getPendingPracticeProblems(sessionId: string, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(practiceProblems)
+    .where(and(eq(practiceProblems.sessionId, sessionId), eq(practiceProblems.solved, 0)))
+    .orderBy(desc(practiceProblems.createdAt), desc(practiceProblems.id))
+    .limit(limit);
+}
+
+export async function updatePracticeProblemSolved(problemId: number, solved: boolean) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.update(practiceProblems)
+    .set({ solved: solved ? 1 : 0 })
+    .where(eq(practiceProblems.id, problemId));
+}
+
 // Quiz queries
 export async function createQuiz(
   sessionId: string,
   question: string,
   options: string[],
-  correctAnswer: string,
-  explanation: string
+  correctIndex: number,
+  explanation: string,
+  difficulty: "easy" | "medium" | "hard" = "medium",
+  skills: string[] = []
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return db.insert(quizzes).values({
+  const [inserted] = await db.insert(quizzes).values({
     sessionId,
     question,
     options: JSON.stringify(options),
-    correctAnswer,
+    correctIndex,
     explanation,
-  });
+    difficulty,
+    skills: JSON.stringify(skills),
+  }).$returningId();
+
+  return inserted.id;
 }
 
 export async function getQuizzes(sessionId: string) {
@@ -212,17 +497,215 @@ export async function getQuizzes(sessionId: string) {
   return db.select().from(quizzes).where(eq(quizzes.sessionId, sessionId));
 }
 
-export async function updateQuizAnswer(
+export async function getQuiz(sessionId: string, quizId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(quizzes)
+    .where(and(eq(quizzes.id, quizId), eq(quizzes.sessionId, sessionId)))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Gradable quizzes in a session that have never been attempted, newest first
+export async function getUnansweredQuizzes(sessionId: string, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select({ quiz: quizzes }).from(quizzes)
+    .leftJoin(quizAttempts, eq(quizAttempts.quizId, quizzes.id))
+    .where(and(eq(quizzes.sessionId, sessionId), isNotNull(quizzes.correctIndex), isNull(quizAttempts.id)))
+    .orderBy(desc(quizzes.createdAt), desc(quizzes.id))
+    .limit(limit);
+  return rows.map((row) => row.quiz);
+}
+
+/**
+ * Record the first attempt at a quiz. The quiz row is locked so two answers
+ * submitted together cannot both be the first; returns false without writing
+ * anything when the quiz has already been attempted.
+ */
+export async function createFirstQuizAttempt(
+  quizId: number,
+  sessionId: string,
+  selectedIndex: number,
+  isCorrect: boolean
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async (tx) => {
+    await tx.select({ id: quizzes.id }).from(quizzes).where(eq(quizzes.id, quizId)).for("update");
+
+    const [existing] = await tx
+      .select({ id: quizAttempts.id })
+      .from(quizAttempts)
+      .where(eq(quizAttempts.quizId, quizId))
+      .limit(1);
+    if (existing) return false;
+
+    await tx.insert(quizAttempts).values({
+      quizId,
+      sessionId,
+      selectedIndex,
+      isCorrect: isCorrect ? 1 : 0,
+    });
+    return true;
+  });
+}
+
+export async function createQuizAttempt(
   quizId: number,
-  userAnswer: string,
+  sessionId: string,
+  selectedIndex: number,
   isCorrect: boolean
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return db.update(quizzes)
-    .set({ userAnswer, isCorrect: isCorrect ? 1 : 0 })
-    .where(eq(quizzes.id, quizId));
+  return db.insert(quizAttempts).values({
+    quizId,
+    sessionId,
+    selectedIndex,
+    isCorrect: isCorrect ? 1 : 0,
+  });
+}
+
+// Attempts for a session, newest first
+export async function getQuizAttempts(sessionId: string) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(quizAttempts)
+    .where(eq(quizAttempts.sessionId, sessionId))
+    .orderBy(desc(quizAttempts.createdAt), desc(quizAttempts.id));
+}
+
+// Skill mastery queries
+export async function getSkillMasteries(userId: number, topic: string) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(skillMastery)
+    .where(and(eq(skillMastery.userId, userId), eq(skillMastery.topic, topic)))
+    .orderBy(asc(skillMastery.rating));
+}
+
+export type SkillMasteryCounts = Pick<SkillMastery, "rating" | "attempts" | "correct">;
+
+/**
+ * Apply one result to several of a user's skills in a single transaction.
+ * Missing rows are created with the initial rating, then every row is read
+ * FOR UPDATE, so results graded at the same time are applied one after the
+ * other instead of overwriting each other.
+ */
+export async function updateSkillMasteries(
+  userId: number,
+  topic: string,
+  skills: string[],
+  update: (current: SkillMasteryCounts) => SkillMasteryCounts
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (skills.length === 0) return;
+
+  // Rows are always locked in the same order so two results cannot deadlock
+  const sorted = [...skills].sort();
+
+  await db.transaction(async (tx) => {
+    await tx
+      .insert(skillMastery)
+      .values(sorted.map((skill) => ({ userId, topic, skill })))
+      .onDuplicateKeyUpdate({ set: { skill: sql`${skillMastery.skill}` } });
+
+    const rows = await tx
+      .select()
+      .from(skillMastery)
+      .where(and(
+        eq(skillMastery.userId, userId),
+        eq(skillMastery.topic, topic),
+        inArray(skillMastery.skill, sorted)
+      ))
+      .orderBy(asc(skillMastery.skill))
+      .for("update");
+
+    for (const row of rows) {
+      await tx.update(skillMastery).set(update(row)).where(eq(skillMastery.id, row.id));
+    }
+  });
+}
+
+// Review queue queries
+// Add a missed quiz or practice problem to the user's review queue. Missing an
+// item that is already queued restarts its schedule.
+export async function enqueueReviewItem(
+  item: { userId: number; sessionId: string; quizId?: number; practiceProblemId?: number },
+  dueAt: Date
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(reviewItems)
+    .values({ ...item, dueAt })
+    .onDuplicateKeyUpdate({
+      set: { repetitions: 0, intervalDays: 0, dueAt },
+    });
+}
+
+// Due review items across all of a user's sessions, oldest due first, with
+// the quiz or practice problem they point at
+export async function getDueReviewItems(userId: number, now: Date, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select({
+    review: reviewItems,
+    topic: learningSessions.topic,
+    quiz: quizzes,
+    problem: practiceProblems,
+  })
+    .from(reviewItems)
+    .innerJoin(learningSessions, eq(reviewItems.sessionId, learningSessions.id))
+    .leftJoin(quizzes, eq(reviewItems.quizId, quizzes.id))
+    .leftJoin(practiceProblems, eq(reviewItems.practiceProblemId, practiceProblems.id))
+    .where(and(eq(reviewItems.userId, userId), lte(reviewItems.dueAt, now)))
+    .orderBy(asc(reviewItems.dueAt), asc(reviewItems.id))
+    .limit(limit);
+}
+
+export async function countDueReviewItems(userId: number, now: Date) {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const [row] = await db.select({ count: sql<number>`count(*)` })
+    .from(reviewItems)
+    .where(and(eq(reviewItems.userId, userId), lte(reviewItems.dueAt, now)));
+  return Number(row?.count ?? 0);
+}
+
+export async function getReviewItem(userId: number, reviewId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select({
+    review: reviewItems,
+    topic: learningSessions.topic,
+    quiz: quizzes,
+    problem: practiceProblems,
+  })
+    .from(reviewItems)
+    .innerJoin(learningSessions, eq(reviewItems.sessionId, learningSessions.id))
+    .leftJoin(quizzes, eq(reviewItems.quizId, quizzes.id))
+    .leftJoin(practiceProblems, eq(reviewItems.practiceProblemId, practiceProblems.id))
+    .where(and(eq(reviewItems.id, reviewId), eq(reviewItems.userId, userId)))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateReviewItemSchedule(
+  reviewId: number,
+  schedule: Pick<ReviewItem, "repetitions" | "intervalDays" | "easeFactor" | "dueAt" | "lastReviewedAt">
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(reviewItems).set(schedule).where(eq(reviewItems.id, reviewId));
 }
 
 // Learning notes queries
@@ -247,11 +730,13 @@ export async function getNotes(sessionId: string) {
   return db.select().from(learningNotes).where(eq(learningNotes.sessionId, sessionId));
 }
 
-export async function deleteNote(noteId: number) {
+export async function deleteNote(sessionId: string, noteId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return db.delete(learningNotes).where(eq(learningNotes.id, noteId));
+  return db
+    .delete(learningNotes)
+    .where(and(eq(learningNotes.id, noteId), eq(learningNotes.sessionId, sessionId)));
 }
 
 
@@ -261,78 +746,85 @@ export async function getOrCreateSessionPerformance(sessionId: string) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Try to find existing performance record
-  const existing = await db
-    .select()
-    .from(sessionPerformance)
-    .where(eq(sessionPerformance.sessionId, sessionId))
-    .limit(1);
-
-  if (existing.length > 0) {
-    return existing[0];
-  }
-
-  // Create new performance record
-  const newPerformance: InsertSessionPerformance = {
-    sessionId,
-    totalProblems: 0,
-    correctAnswers: 0,
-    accuracyRate: 0,
-    currentDifficulty: "medium",
-  };
+  // Create the record unless it exists; the unique sessionId makes this safe to race
+  await db
+    .insert(sessionPerformance)
+    .values({ sessionId })
+    .onDuplicateKeyUpdate({ set: { sessionId: sql`${sessionPerformance.sessionId}` } });
 
-  await db.insert(sessionPerformance).values(newPerformance);
-  
-  const created = await db
+  const result = await db
     .select()
     .from(sessionPerformance)
     .where(eq(sessionPerformance.sessionId, sessionId))
     .limit(1);
 
-  return created[0];
+  return result[0];
 }
 
+export type PerformanceEventInput = Pick<InsertPerformanceEvent, "source" | "difficulty">;
+
+/**
+ * Record a graded attempt: the counters are incremented in SQL so concurrent
+ * answers are never lost, and the attempt is appended to performance_events.
+ */
 export async function updateSessionPerformance(
   sessionId: string,
-  isCorrect: boolean
+  isCorrect: boolean,
+  event: PerformanceEventInput
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const performance = await getOrCreateSessionPerformance(sessionId);
-  
-  const newTotal = performance.totalProblems + 1;
-  const newCorrect = isCorrect ? performance.correctAnswers + 1 : performance.correctAnswers;
-  const newAccuracy = Math.round((newCorrect / newTotal) * 100);
-
-  // Determine new difficulty based on accuracy
-  let newDifficulty = performance.currentDifficulty;
-  if (newTotal >= 3) {
-    if (newAccuracy >= 80) {
-      newDifficulty = "hard";
-    } else if (newAccuracy >= 60) {
-      newDifficulty = "medium";
-    } else {
-      newDifficulty = "easy";
-    }
-  }
+  return db.transaction(async (tx) => {
+    await tx
+      .insert(sessionPerformance)
+      .values({ sessionId })
+      .onDuplicateKeyUpdate({ set: { sessionId: sql`${sessionPerformance.sessionId}` } });
+
+    await tx
+      .update(sessionPerformance)
+      .set({
+        totalProblems: sql`${sessionPerformance.totalProblems} + 1`,
+        correctAnswers: sql`${sessionPerformance.correctAnswers} + ${isCorrect ? 1 : 0}`,
+      })
+      .where(eq(sessionPerformance.sessionId, sessionId));
+
+    // Derived columns are computed from the incremented counters, which the
+    // update above keeps locked until the transaction commits
+    const accuracy = sql`ROUND(${sessionPerformance.correctAnswers} * 100 / ${sessionPerformance.totalProblems})`;
+    await tx
+      .update(sessionPerformance)
+      .set({
+        accuracyRate: sql`${accuracy}`,
+        currentDifficulty: sql`CASE
+          WHEN ${sessionPerformance.totalProblems} < 3 THEN ${sessionPerformance.currentDifficulty}
+          WHEN ${accuracy} >= 80 THEN 'hard'
+          WHEN ${accuracy} >= 60 THEN 'medium'
+          ELSE 'easy'
+        END`,
+      })
+      .where(eq(sessionPerformance.sessionId, sessionId));
+
+    await tx.insert(performanceEvents).values({
+      sessionId,
+      source: event.source,
+      difficulty: event.difficulty ?? null,
+      isCorrect: isCorrect ? 1 : 0,
+    });
 
-  await db
-    .update(sessionPerformance)
-    .set({
-      totalProblems: newTotal,
-      correctAnswers: newCorrect,
-      accuracyRate: newAccuracy,
-      currentDifficulty: newDifficulty,
-    })
-    .where(eq(sessionPerformance.sessionId, sessionId));
+    const [performance] = await tx
+      .select()
+      .from(sessionPerformance)
+      .where(eq(sessionPerformance.sessionId, sessionId))
+      .limit(1);
 
-  return {
-    totalProblems: newTotal,
-    correctAnswers: newCorrect,
-    accuracyRate: newAccuracy,
-    currentDifficulty: newDifficulty,
-  };
+    return {
+      totalProblems: performance.totalProblems,
+      correctAnswers: performance.correctAnswers,
+      accuracyRate: performance.accuracyRate,
+      currentDifficulty: performance.currentDifficulty,
+    };
+  });
 }
 
 export async function getSessionPerformance(sessionId: string) {
@@ -347,3 +839,14 @@ export async function getSessionPerformance(sessionId: string) {
 
   return result.length > 0 ? result[0] : null;
 }
+
+export async function getPerformanceEvents(sessionId: string) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(performanceEvents)
+    .where(eq(performanceEvents.sessionId, sessionId))
+    .orderBy(asc(performanceEvents.createdAt), asc(performanceEvents.id));
+}
@@ -0,0 +1,421 @@
+import type { GraphData } from "@shared/graph";
+
+/**
+ * Library of parameterized economics models. Each model computes its key
+ * values (equilibria, steady states, NPV...) and a graph from numeric
+ * parameters, so results shown to students come from the model itself
+ * rather than from the LLM's arithmetic.
+ */
+
+export type ModelParameter = {
+  name: string;
+  label: string;
+  // Default value
+  value: number;
+  min: number;
+  max: number;
+  // Slider increment
+  step: number;
+  // Counts such as years or periods
+  integer: boolean;
+};
+
+export type ModelResult = {
+  name: string;
+  label: string;
+  // null when the value does not exist for these parameters (e.g. no IRR)
+  value: number | null;
+};
+
+type EconomicModel = {
+  name: string;
+  // What the model computes, for the model list and LLM tool descriptions
+  description: string;
+  parameters: ModelParameter[];
+  simulate: (p: Record<string, number>) => { results: ModelResult[]; graph: GraphData };
+};
+
+export class ModelParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelParameterError";
+  }
+}
+
+// Points per curve; well under the GraphData limit of 500
+const CURVE_POINTS = 101;
+
+const round = (value: number) => (Number.isFinite(value) ? Number(value.toPrecision(6)) : null);
+
+const linspace = (min: number, max: number, count = CURVE_POINTS) =>
+  Array.from({ length: count }, (_, i) => round(min + ((max - min) * i) / (count - 1))!);
+
+const param = (name: string, label: string, value: number, min: number, max: number, step: number) =>
+  ({ name, label, value, min, max, step, integer: false }) satisfies ModelParameter;
+
+const integerParam = (name: string, label: string, value: number, min: number, max: number) =>
+  ({ name, label, value, min, max, step: 1, integer: true }) satisfies ModelParameter;
+
+const result = (name: string, label: string, value: number | null): ModelResult => ({
+  name,
+  label,
+  value: value === null ? null : round(value),
+});
+
+// Negative prices and quantities are outside the economically meaningful region
+const nonNegative = (value: number) => (value >= 0 ? round(value) : null);
+
+/** Net present value of an investment paying a growing annual cash flow at the end of each year. */
+function netPresentValue(p: Record<string, number>, rate: number) {
+  let npv = -p.initialInvestment;
+  for (let t = 1; t <= p.years; t++) {
+    npv += (p.cashFlow * Math.pow(1 + p.growth / 100, t - 1)) / Math.pow(1 + rate, t);
+  }
+  return npv;
+}
+
+// Discount rate at which NPV is zero, found by bisection; null if NPV does not change sign
+function internalRateOfReturn(p: Record<string, number>) {
+  let lo = -0.99;
+  let hi = 10;
+  if (Math.sign(netPresentValue(p, lo)) === Math.sign(netPresentValue(p, hi))) return null;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(netPresentValue(p, mid)) === Math.sign(netPresentValue(p, lo))) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+export const ECONOMIC_MODELS = {
+  supply_demand: {
+    name: "需要と供給の均衡",
+    description:
+      "Linear demand Qd = a - bP and supply Qs = c + d(P - t) with a per-unit tax t. Computes the equilibrium price and quantity, consumer and producer surplus, tax revenue and deadweight loss.",
+    parameters: [
+      param("a", "需要の切片 a", 100, 1, 1000, 1),
+      param("b", "需要の傾き b", 2, 0.1, 20, 0.1),
+      param("c", "供給の切片 c", 10, -500, 500, 1),
+      param("d", "供給の傾き d", 1, 0.1, 20, 0.1),
+      param("t", "従量税 t", 0, 0, 100, 0.5),
+    ],
+    simulate: ({ a, b, c, d, t }) => {
+      const price = (a - c + d * t) / (b + d);
+      const quantity = a - b * price;
+      const quantityWithoutTax = a - (b * (a - c)) / (b + d);
+      const sellerPrice = price - t;
+      const consumerSurplus = 0.5 * quantity * (a / b - price);
+      const producerSurplus = 0.5 * quantity * (sellerPrice + c / d);
+      const xs = linspace(0, a);
+      const series = [
+        { name: "需要", data: xs.map((q) => nonNegative((a - q) / b)) },
+        { name: "供給", data: xs.map((q) => nonNegative((q - c) / d + t)) },
+      ];
+      if (t > 0) {
+        series.push({ name: "課税前の供給", data: xs.map((q) => nonNegative((q - c) / d)) });
+      }
+      return {
+        results: [
+          result("equilibriumPrice", "均衡価格（消費者価格）", price),
+          result("sellerPrice", "生産者の受取価格", sellerPrice),
+          result("equilibriumQuantity", "均衡数量", quantity),
+          result("consumerSurplus", "消費者余剰", consumerSurplus),
+          result("producerSurplus", "生産者余剰", producerSurplus),
+          result("taxRevenue", "税収", t * quantity),
+          result("deadweightLoss", "死荷重", 0.5 * t * (quantityWithoutTax - quantity)),
+        ],
+        graph: {
+          type: "line",
+          title: "需要と供給",
+          xAxis: { label: "数量 Q", data: xs },
+          yAxis: { label: "価格 P" },
+          series,
+        },
+      };
+    },
+  },
+
+  elasticity: {
+    name: "需要の価格弾力性",
+    description:
+      "Linear demand Q = a - bP. Computes the point price elasticity of demand, total revenue at a given price and the revenue-maximizing price.",
+    parameters: [
+      param("a", "需要の切片 a", 100, 1, 1000, 1),
+      param("b", "需要の傾き b", 2, 0.1, 20, 0.1),
+      param("price", "価格 P", 20, 0, 1000, 0.5),
+    ],
+    simulate: ({ a, b, price }) => {
+      const chokePrice = a / b;
+      const quantity = Math.max(a - b * price, 0);
+      const xs = linspace(0, chokePrice);
+      return {
+        results: [
+          result("quantity", "需要量", quantity),
+          result("elasticity", "価格弾力性", quantity > 0 ? (-b * price) / quantity : null),
+          result("revenue", "総収入", price * quantity),
+          result("revenueMaximizingPrice", "総収入を最大にする価格", chokePrice / 2),
+        ],
+        graph: {
+          type: "line",
+          title: "需要量と総収入",
+          xAxis: { label: "価格 P", data: xs },
+          yAxis: { label: "需要量・総収入" },
+          series: [
+            { name: "需要量", data: xs.map((p) => round(Math.max(a - b * p, 0))) },
+            { name: "総収入", data: xs.map((p) => round(p * Math.max(a - b * p, 0))) },
+          ],
+        },
+      };
+    },
+  },
+
+  cobb_douglas: {
+    name: "コブ・ダグラス生産関数",
+    description:
+      "Production Y = A K^alpha L^beta. Computes output, the marginal products of capital and labor, and returns to scale.",
+    parameters: [
+      param("A", "全要素生産性 A", 1, 0.1, 10, 0.1),
+      param("alpha", "資本分配率 α", 0.3, 0.05, 0.95, 0.01),
+      param("beta", "労働分配率 β", 0.7, 0.05, 0.95, 0.01),
+      param("K", "資本 K", 100, 1, 1000, 1),
+      param("L", "労働 L", 100, 1, 1000, 1),
+    ],
+    simulate: ({ A, alpha, beta, K, L }) => {
+      const output = (k: number, l: number) => A * Math.pow(k, alpha) * Math.pow(l, beta);
+      const Y = output(K, L);
+      const xs = linspace(0, 2 * K);
+      return {
+        results: [
+          result("output", "産出量 Y", Y),
+          result("marginalProductOfCapital", "資本の限界生産物", (alpha * Y) / K),
+          result("marginalProductOfLabor", "労働の限界生産物", (beta * Y) / L),
+          result("returnsToScale", "規模に関する収穫（α + β）", alpha + beta),
+        ],
+        graph: {
+          type: "line",
+          title: "資本と産出量",
+          xAxis: { label: "資本 K", data: xs },
+          yAxis: { label: "産出量 Y" },
+          series: [
+            { name: `L = ${L}`, data: xs.map((k) => round(output(k, L))) },
+            { name: `L = ${2 * L}`, data: xs.map((k) => round(output(k, 2 * L))) },
+          ],
+        },
+      };
+    },
+  },
+
+  is_lm: {
+    name: "IS-LM モデル",
+    description:
+      "Closed-economy IS-LM: IS Y = C0 + c(Y - T) + I0 - b r + G, LM M/P = kY - h r. Computes equilibrium output, the interest rate (in %) and the government spending multiplier.",
+    parameters: [
+      param("C0", "基礎消費 C0", 200, 0, 2000, 10),
+      param("c", "限界消費性向 c", 0.8, 0.1, 0.95, 0.01),
+      param("T", "税 T", 100, 0, 2000, 10),
+      param("I0", "独立投資 I0", 300, 0, 2000, 10),
+      param("b", "投資の金利感応度 b", 25, 1, 200, 1),
+      param("G", "政府支出 G", 200, 0, 2000, 10),
+      param("M", "貨幣供給 M", 1000, 0, 10000, 10),
+      param("P", "物価水準 P", 2, 0.5, 10, 0.1),
+      param("k", "貨幣需要の所得感応度 k", 0.5, 0.05, 2, 0.01),
+      param("h", "貨幣需要の金利感応度 h", 50, 1, 500, 1),
+    ],
+    simulate: ({ C0, c, T, I0, b, G, M, P, k, h }) => {
+      const autonomous = C0 - c * T + I0 + G;
+      const realMoney = M / P;
+      const output = (autonomous + (b * realMoney) / h) / (1 - c + (b * k) / h);
+      const rate = (k * output - realMoney) / h;
+      const xs = linspace(0, 2 * Math.max(output, 1));
+      return {
+        results: [
+          result("output", "均衡国民所得 Y", output),
+          result("interestRate", "均衡利子率 r（%）", rate),
+          result("multiplier", "政府支出乗数", 1 / (1 - c + (b * k) / h)),
+        ],
+        graph: {
+          type: "line",
+          title: "IS-LM",
+          xAxis: { label: "国民所得 Y", data: xs },
+          yAxis: { label: "利子率 r（%）" },
+          series: [
+            { name: "IS", data: xs.map((y) => round((autonomous - (1 - c) * y) / b)) },
+            { name: "LM", data: xs.map((y) => round((k * y - realMoney) / h)) },
+          ],
+        },
+      };
+    },
+  },
+
+  solow: {
+    name: "ソロー成長モデル",
+    description:
+      "Solow growth per worker: k(t+1) = k(t) + s A k^alpha - (n + delta) k. Simulates the capital, output and consumption paths and computes the steady state and the golden-rule saving rate.",
+    parameters: [
+      param("s", "貯蓄率 s", 0.3, 0.01, 0.9, 0.01),
+      param("alpha", "資本分配率 α", 0.33, 0.05, 0.9, 0.01),
+      param("delta", "資本減耗率 δ", 0.05, 0, 0.3, 0.01),
+      param("n", "人口成長率 n", 0.01, 0, 0.1, 0.005),
+      param("A", "技術水準 A", 1, 0.1, 10, 0.1),
+      param("k0", "初期資本 k0", 1, 0.1, 100, 0.1),
+      integerParam("periods", "期間", 100, 10, 300),
+    ],
+    simulate: ({ s, alpha, delta, n, A, k0, periods }) => {
+      const capital = [k0];
+      for (let t = 1; t <= periods; t++) {
+        const k = capital[t - 1];
+        capital.push(k + s * A * Math.pow(k, alpha) - (n + delta) * k);
+      }
+      const output = capital.map((k) => A * Math.pow(k, alpha));
+      const steadyCapital = n + delta > 0 ? Math.pow((s * A) / (n + delta), 1 / (1 - alpha)) : null;
+      const steadyOutput = steadyCapital === null ? null : A * Math.pow(steadyCapital, alpha);
+      return {
+        results: [
+          result("steadyStateCapital", "定常状態の資本 k*", steadyCapital),
+          result("steadyStateOutput", "定常状態の産出 y*", steadyOutput),
+          result("steadyStateConsumption", "定常状態の消費 c*", steadyOutput === null ? null : (1 - s) * steadyOutput),
+          result("goldenRuleSavingRate", "黄金律の貯蓄率", alpha),
+        ],
+        graph: {
+          type: "line",
+          title: "1 人あたり資本・産出・消費の推移",
+          xAxis: { label: "期間 t", data: capital.map((_, t) => t) },
+          yAxis: { label: "1 人あたりの値" },
+          series: [
+            { name: "資本 k", data: capital.map(round) },
+            { name: "産出 y", data: output.map(round) },
+            { name: "消費 c", data: output.map((y) => round((1 - s) * y)) },
+          ],
+        },
+      };
+    },
+  },
+
+  compound_interest: {
+    name: "複利計算",
+    description:
+      "Compound interest at an annual rate (in %) compounded m times a year, with an optional deposit at the end of each year. Computes the final balance, interest earned and the effective annual rate.",
+    parameters: [
+      param("principal", "元本", 1000000, 0, 1000000000, 10000),
+      param("rate", "年利（%）", 3, 0, 30, 0.1),
+      integerParam("years", "年数", 10, 1, 100),
+      integerParam("compoundsPerYear", "年間の複利回数", 1, 1, 365),
+      param("contribution", "毎年の積立額", 0, 0, 100000000, 10000),
+    ],
+    simulate: ({ principal, rate, years, compoundsPerYear, contribution }) => {
+      const effectiveRate = Math.pow(1 + rate / 100 / compoundsPerYear, compoundsPerYear) - 1;
+      const balances = [principal];
+      for (let t = 1; t <= years; t++) {
+        balances.push(balances[t - 1] * (1 + effectiveRate) + contribution);
+      }
+      const paidIn = balances.map((_, t) => principal + contribution * t);
+      return {
+        results: [
+          result("finalBalance", "最終残高", balances[years]),
+          result("totalPaidIn", "元本と積立の合計", paidIn[years]),
+          result("interestEarned", "利息合計", balances[years] - paidIn[years]),
+          result("effectiveAnnualRate", "実効年利（%）", effectiveRate * 100),
+        ],
+        graph: {
+          type: "area",
+          title: "残高の推移",
+          xAxis: { label: "年", data: balances.map((_, t) => t) },
+          yAxis: { label: "金額" },
+          series: [
+            { name: "残高", data: balances.map(round) },
+            { name: "元本と積立", data: paidIn.map(round) },
+          ],
+        },
+      };
+    },
+  },
+
+  npv: {
+    name: "正味現在価値（NPV）",
+    description:
+      "Investment appraisal: an initial investment followed by an annual cash flow growing at g% for n years, discounted at r%. Computes the NPV, the internal rate of return and the payback period.",
+    parameters: [
+      param("initialInvestment", "初期投資額", 1000000, 0, 1000000000, 10000),
+      param("cashFlow", "毎年のキャッシュフロー", 150000, 0, 100000000, 10000),
+      integerParam("years", "年数", 10, 1, 100),
+      param("discountRate", "割引率（%）", 5, 0, 50, 0.1),
+      param("growth", "キャッシュフローの成長率（%）", 0, -20, 20, 0.5),
+    ],
+    simulate: (p) => {
+      const irr = internalRateOfReturn(p);
+      let cumulative = 0;
+      let payback: number | null = null;
+      for (let t = 1; t <= p.years && payback === null; t++) {
+        cumulative += p.cashFlow * Math.pow(1 + p.growth / 100, t - 1);
+        if (cumulative >= p.initialInvestment) payback = t;
+      }
+      const maxRate = Math.max(2 * p.discountRate, irr === null ? 0 : 150 * irr, 20);
+      const xs = linspace(0, maxRate);
+      return {
+        results: [
+          result("npv", "正味現在価値", netPresentValue(p, p.discountRate / 100)),
+          result("irr", "内部収益率（%）", irr === null ? null : irr * 100),
+          result("paybackYears", "回収期間（年）", payback),
+        ],
+        graph: {
+          type: "line",
+          title: "割引率と NPV",
+          xAxis: { label: "割引率（%）", data: xs },
+          yAxis: { label: "NPV" },
+          series: [{ name: "NPV", data: xs.map((r) => round(netPresentValue(p, r / 100))) }],
+        },
+      };
+    },
+  },
+} satisfies Record<string, EconomicModel>;
+
+export type ModelId = keyof typeof ECONOMIC_MODELS;
+
+export const MODEL_IDS = Object.keys(ECONOMIC_MODELS) as [ModelId, ...ModelId[]];
+
+/** Models with their parameters, without the simulators. */
+export function listModels() {
+  return MODEL_IDS.map((id) => {
+    const { name, description, parameters } = ECONOMIC_MODELS[id];
+    return { id, name, description, parameters };
+  });
+}
+
+/**
+ * Fill in defaults for omitted parameters and check the given ones. Values
+ * outside a parameter's range are rejected rather than clamped so a caller
+ * (or the LLM) never gets results for inputs it did not ask for.
+ */
+export function resolveParameters(id: ModelId, values: Record<string, number> = {}) {
+  const { parameters } = ECONOMIC_MODELS[id];
+  const known = new Set(parameters.map((p) => p.name));
+  const unknown = Object.keys(values).filter((name) => !known.has(name));
+  if (unknown.length > 0) {
+    throw new ModelParameterError(`Unknown parameters for ${id}: ${unknown.join(", ")}`);
+  }
+
+  return Object.fromEntries(
+    parameters.map((p) => {
+      const value = values[p.name] ?? p.value;
+      if (!Number.isFinite(value) || value < p.min || value > p.max) {
+        throw new ModelParameterError(`${p.name} must be between ${p.min} and ${p.max}`);
+      }
+      if (p.integer && !Number.isInteger(value)) {
+        throw new ModelParameterError(`${p.name} must be an integer`);
+      }
+      return [p.name, value];
+    })
+  );
+}
+
+/** Run a model with the given parameters (defaults for the rest). */
+export function simulateModel(id: ModelId, values: Record<string, number> = {}) {
+  const parameters = resolveParameters(id, values);
+  const { results, graph } = ECONOMIC_MODELS[id].simulate(parameters);
+  return { model: id, name: ECONOMIC_MODELS[id].name, parameters, results, graph };
+}
+
+export type ModelSimulation = ReturnType<typeof simulateModel>;
@@ -0,0 +1,240 @@
+import { z } from "zod";
+import type { PracticeProblem, Quiz } from "../drizzle/schema";
+import {
+  createFirstQuizAttempt,
+  enqueueReviewItem,
+  getPendingPracticeProblems,
+  getUnansweredQuizzes,
+  updatePracticeProblemSolved,
+  updateSessionPerformance,
+} from "./db";
+import { parseSkills, recordMasteryResult } from "./mastery";
+import { checkAnswer, parseAnswerSpec } from "./answerChecker";
+import { reviewDueDate } from "./spacedRepetition";
+import { invokeStructured } from "./structuredOutput";
+import type { LLMCaller } from "./llmUsage";
+
+/**
+ * Grading of quiz and practice problem answers. Every graded result goes
+ * through applyQuizResult / applyPracticeProblemResult so attempts, session
+ * performance, mastery and the review queue stay in sync no matter where the
+ * answer came from (quiz buttons, self-marking or a chat message).
+ */
+
+type ResultContext = {
+  userId: number;
+  sessionId: string;
+  topic: string;
+};
+
+/** A quiz with a known correct option. Legacy quizzes whose answer could not be migrated have none. */
+export type GradableQuiz = Quiz & { correctIndex: number };
+
+export const isGradableQuiz = (quiz: Quiz): quiz is GradableQuiz => quiz.correctIndex !== null;
+
+// How many pending items of each kind the chat grader considers
+const PENDING_ITEM_LIMIT = 5;
+
+/**
+ * Record the first answer to a quiz, graded by option index. Returns whether it
+ * was correct, or null when the quiz had already been answered: the answer is
+ * shown after the first attempt, so later ones must not count.
+ */
+export async function applyQuizResult(ctx: ResultContext, quiz: GradableQuiz, selectedIndex: number) {
+  const isCorrect = selectedIndex === quiz.correctIndex;
+
+  if (!(await createFirstQuizAttempt(quiz.id, ctx.sessionId, selectedIndex, isCorrect))) {
+    return null;
+  }
+  await recordMasteryResult({
+    userId: ctx.userId,
+    topic: ctx.topic,
+    skills: parseSkills(quiz.skills),
+    difficulty: quiz.difficulty,
+    isCorrect,
+  });
+
+  // Missed quizzes come back through the review queue
+  if (!isCorrect) {
+    await enqueueReviewItem(
+      { userId: ctx.userId, sessionId: ctx.sessionId, quizId: quiz.id },
+      reviewDueDate(1)
+    );
+  }
+
+  await updateSessionPerformance(ctx.sessionId, isCorrect, { source: "quiz", difficulty: quiz.difficulty });
+  return isCorrect;
+}
+
+/** Record whether a practice problem was solved; unsolved problems are queued for review. */
+export async function applyPracticeProblemResult(
+  ctx: ResultContext,
+  problem: PracticeProblem,
+  solved: boolean
+) {
+  await updatePracticeProblemSolved(problem.id, solved);
+  await recordMasteryResult({
+    userId: ctx.userId,
+    topic: ctx.topic,
+    skills: parseSkills(problem.skills),
+    difficulty: problem.difficulty,
+    isCorrect: solved,
+  });
+
+  if (!solved) {
+    await enqueueReviewItem(
+      { userId: ctx.userId, sessionId: ctx.sessionId, practiceProblemId: problem.id },
+      reviewDueDate(1)
+    );
+  }
+
+  await updateSessionPerformance(ctx.sessionId, solved, { source: "practice", difficulty: problem.difficulty });
+}
+
+/**
+ * Check an answer against the problem's stored answer spec. Returns null when
+ * the problem has no usable spec or the answer needs an LLM judgement.
+ */
+export function checkPracticeAnswer(problem: PracticeProblem, answer: string) {
+  const spec = parseAnswerSpec(problem.answerSpec);
+  return spec ? checkAnswer(spec, answer) : null;
+}
+
+// Feedback on a chat answer to a quiz. It is built from the stored answer
+// because the grader never sees which option is correct.
+function quizFeedback(quiz: GradableQuiz, selectedIndex: number) {
+  const options = JSON.parse(quiz.options) as string[];
+  const verdict =
+    selectedIndex === quiz.correctIndex
+      ? "正解です！"
+      : `不正解です。正解は「${options[quiz.correctIndex]}」です。`;
+  return quiz.explanation ? `${verdict}${quiz.explanation}` : verdict;
+}
+
+const answerVerdictSchema = z.object({
+  isAnswer: z.boolean(),
+  itemKey: z.string().nullable(),
+  answer: z.string().nullable(),
+  selectedOptionIndex: z.number().int().min(0).max(3).nullable(),
+  isCorrect: z.boolean().nullable(),
+  feedback: z.string(),
+});
+
+export type AnswerVerdict = {
+  itemType: "practice_problem" | "quiz";
+  itemId: number;
+  isCorrect: boolean;
+  feedback: string;
+};
+
+export type ChatAnswerGrade = {
+  verdict: AnswerVerdict;
+  // Writes the attempt, performance, mastery and review queue updates
+  record: () => Promise<void>;
+};
+
+/**
+ * Decide whether a chat message answers one of the session's pending practice
+ * problems or quizzes and, if so, grade it against that specific item.
+ * Nothing is written until `record` is called: the chat records the grade
+ * only once it has saved the turn, so a retried or duplicate turn is not
+ * graded twice. Returns null when nothing is pending, the message is not an
+ * answer, or the grader fails; grading must never break the chat itself.
+ */
+export async function gradeChatAnswer(
+  ctx: ResultContext,
+  message: string,
+  caller?: LLMCaller
+): Promise<ChatAnswerGrade | null> {
+  const [problems, unanswered] = await Promise.all([
+    getPendingPracticeProblems(ctx.sessionId, PENDING_ITEM_LIMIT),
+    getUnansweredQuizzes(ctx.sessionId, PENDING_ITEM_LIMIT),
+  ]);
+  const quizzes = unanswered.filter(isGradableQuiz);
+  if (problems.length === 0 && quizzes.length === 0) {
+    return null;
+  }
+
+  const items = [
+    ...problems.map(
+      (p) => `[P${p.id}] Practice problem: ${p.problemText}\nReference solution: ${p.solution ?? "(none)"}`
+    ),
+    ...quizzes.map((q) => {
+      const options = (JSON.parse(q.options) as string[])
+        .map((option, i) => `  (${String.fromCharCode(65 + i)}) index ${i}: ${option}`)
+        .join("\n");
+      return `[Q${q.id}] Multiple-choice quiz: ${q.question}\n${options}`;
+    }),
+  ];
+
+  try {
+    const verdict = await invokeStructured(
+      {
+        messages: [
+          {
+            role: "system",
+            content: `You grade a mathematics student's chat message. The student has these pending items:
+
+${items.join("\n\n")}
+
+Decide whether the message is an attempt to answer one of them. Questions, requests for hints and general discussion are NOT answers.
+If it is an answer:
+- "itemKey": the key of the answered item, e.g. "P12" or "Q7"
+- For a quiz, "selectedOptionIndex": the index of the option the student chose (they may give the letter, the index or the option text); "isCorrect": null; "answer": null; "feedback": ""
+- For a practice problem, "answer": the student's final answer exactly as written; "isCorrect": whether the answer is mathematically correct, compared with the reference solution; "selectedOptionIndex": null; "feedback": one or two sentences in Japanese explaining the verdict
+If it is not an answer, set "isAnswer" to false, the other fields to null and "feedback" to "".`,
+          },
+          { role: "user", content: message },
+        ],
+        maxTokens: 512,
+        caller,
+      },
+      { name: "answer_verdict", schema: answerVerdictSchema }
+    );
+
+    if (!verdict.isAnswer || !verdict.itemKey) {
+      return null;
+    }
+
+    const match = /^([PQ])(\d+)$/.exec(verdict.itemKey.trim());
+    const itemId = match ? Number(match[2]) : NaN;
+
+    if (match?.[1] === "Q") {
+      const quiz = quizzes.find((q) => q.id === itemId);
+      if (!quiz || verdict.selectedOptionIndex === null) return null;
+      // Quizzes are graded locally by index; the model only identifies the choice
+      const selectedIndex = verdict.selectedOptionIndex;
+      return {
+        verdict: {
+          itemType: "quiz",
+          itemId,
+          isCorrect: selectedIndex === quiz.correctIndex,
+          feedback: quizFeedback(quiz, selectedIndex),
+        },
+        record: async () => {
+          await applyQuizResult(ctx, quiz, selectedIndex);
+        },
+      };
+    }
+
+    if (match?.[1] === "P") {
+      const problem = problems.find((p) => p.id === itemId);
+      if (!problem) return null;
+      // A deterministic check of the extracted answer overrides the model's judgement
+      const checked = verdict.answer ? checkPracticeAnswer(problem, verdict.answer) : null;
+      const isCorrect = checked ?? verdict.isCorrect;
+      if (isCorrect === null) return null;
+      // Feedback written for the opposite verdict would contradict the grade
+      const feedback = isCorrect === verdict.isCorrect ? verdict.feedback : "";
+      return {
+        verdict: { itemType: "practice_problem", itemId, isCorrect, feedback },
+        record: () => applyPracticeProblemResult(ctx, problem, isCorrect),
+      };
+    }
+
+    return null;
+  } catch (error) {
+    console.error("[Grading] Failed to grade chat answer:", error);
+    return null;
+  }
+}
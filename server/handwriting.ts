@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { Message } from "./_core/llm";
+import { storagePut } from "./storage";
+import { buildHistory } from "./chatHistory";
+import { mathFormattingRules, MathNotation } from "./mathFormatting";
+import { invokeStructured } from "./structuredOutput";
+import type { LLMCaller } from "./llmUsage";
+import type { PhotoMimeType } from "@shared/photo";
+
+/**
+ * Feedback on photos of handwritten solutions. The photo is uploaded to
+ * storage, the model reads it line by line and judges each line, and the
+ * first incorrect line is derived from those judgements.
+ */
+
+// Expected LLM output for a photographed solution
+export const handwritingFeedbackSchema = z.object({
+  // false when the photo does not show legible mathematical work
+  readable: z.boolean(),
+  // The problem being solved, as far as it can be told from the photo and the conversation
+  problem: z.string(),
+  lines: z
+    .array(
+      z.object({
+        // The line as written, in the student's math notation
+        text: z.string(),
+        isCorrect: z.boolean(),
+        // Why the line is wrong, or a short note on the step; may be empty
+        comment: z.string(),
+      })
+    )
+    .max(40),
+  // Step-by-step guidance from the first mistake to the correct answer
+  feedback: z.string(),
+});
+
+export type HandwritingFeedback = z.infer<typeof handwritingFeedbackSchema>;
+
+const PHOTO_EXTENSIONS: Record<PhotoMimeType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/** Upload a photo under the session's prefix; returns its storage key and URL. */
+export function storePhoto(sessionId: string, data: Buffer, mimeType: PhotoMimeType) {
+  return storagePut(`photos/${sessionId}/${nanoid()}.${PHOTO_EXTENSIONS[mimeType]}`, data, mimeType);
+}
+
+/** 1-based number of the first line judged incorrect, or null when every line is correct. */
+export function firstIncorrectLine(feedback: HandwritingFeedback) {
+  const index = feedback.lines.findIndex((line) => !line.isCorrect);
+  return index === -1 ? null : index + 1;
+}
+
+/** The feedback as the tutor's chat reply. */
+export function formatHandwritingFeedback(feedback: HandwritingFeedback) {
+  if (!feedback.readable || feedback.lines.length === 0) {
+    return `写真から解答を読み取れませんでした。明るい場所で、解答全体が写るように撮り直してください。${
+      feedback.feedback ? `\n\n${feedback.feedback}` : ""
+    }`;
+  }
+
+  const first = firstIncorrectLine(feedback);
+  const lines = feedback.lines.map((line, i) => {
+    const marker = line.isCorrect ? "✓" : "✗";
+    const note = i + 1 === first ? "（最初の誤り）" : "";
+    return `${i + 1}. ${marker} ${line.text}${note}${line.comment ? `\n   ${line.comment}` : ""}`;
+  });
+
+  return [
+    ...(feedback.problem ? [`問題：${feedback.problem}`] : []),
+    lines.join("\n"),
+    first === null ? "誤りは見つかりませんでした。" : `最初の誤りは ${first} 行目です。`,
+    feedback.feedback,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** Have the model read and check the photographed solution. */
+export async function reviewHandwriting(options: {
+  sessionId: string;
+  imageUrl: string;
+  note: string;
+  notation: MathNotation;
+  caller: LLMCaller;
+}) {
+  const chatHistory = await buildHistory(options.sessionId, { maxTokens: 2000, caller: options.caller });
+
+  const messages: Message[] = [
+    {
+      role: "system",
+      content: `You are Math Mentor, a mathematics tutor checking a student's handwritten solution from a photo.
+
+Read the solution line by line, top to bottom, and transcribe each line. Judge each line: a line is correct when it follows validly from the previous lines (or from the problem). Once a line is wrong, judge later lines by whether they follow from it, but the first mistake is what matters most.
+For each incorrect line, explain in "comment" exactly what went wrong. Keep comments on correct lines short or empty.
+In "feedback", guide the student step by step from the first mistake to the correct answer without skipping steps. Be encouraging.
+If the photo does not show legible mathematical work, set "readable" to false, leave "lines" empty and say what is wrong with the photo in "feedback".
+Write "problem", comments and feedback in Japanese. Use the conversation to identify the problem when the photo does not show it.
+
+${mathFormattingRules(options.notation)}`,
+    },
+    ...chatHistory,
+    {
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: options.note
+            ? `Check my handwritten solution. ${options.note}`
+            : "Check my handwritten solution.",
+        },
+        { type: "image_url", image_url: { url: options.imageUrl, detail: "high" } },
+      ],
+    },
+  ];
+
+  return invokeStructured(
+    { messages, maxTokens: 4096, caller: options.caller },
+    { name: "handwriting_feedback", schema: handwritingFeedbackSchema }
+  );
+}
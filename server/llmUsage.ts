@@ -0,0 +1,124 @@
+import { TRPCError } from "@trpc/server";
+import type { User } from "../drizzle/schema";
+import { QUOTA_EXCEEDED_ERR_MSG } from "@shared/const";
+import { ENV } from "./_core/env";
+import { addLlmUsage, getLlmUsageSummary, sumUserTokensSince } from "./db";
+
+/**
+ * LLM usage accounting. Every LLM call made on behalf of a request carries an
+ * LLMCaller and is recorded in `llm_usage`; the recorded tokens are checked
+ * against the user's daily quota before LLM procedures run.
+ */
+
+/** Who an LLM call is made for; passed as `caller` in the invoke params. */
+export type LLMCaller = {
+  userId: number;
+  sessionId: string | null;
+  // tRPC procedure path, e.g. "chat.sendMessage"
+  procedure: string;
+};
+
+export type LLMCallRecord = {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  success: boolean;
+};
+
+/**
+ * Store one LLM call. Calls without a caller are still recorded so that no
+ * usage goes unaccounted. Failures are logged; accounting never breaks a call.
+ */
+export async function recordLLMUsage(caller: LLMCaller | undefined, call: LLMCallRecord) {
+  try {
+    await addLlmUsage({
+      userId: caller?.userId ?? null,
+      sessionId: caller?.sessionId ?? null,
+      procedure: caller?.procedure ?? "unknown",
+      model: call.model,
+      promptTokens: call.promptTokens,
+      completionTokens: call.completionTokens,
+      latencyMs: Math.round(call.latencyMs),
+      success: call.success ? 1 : 0,
+    });
+  } catch (error) {
+    console.error("Failed to record LLM usage:", error);
+  }
+}
+
+/** The user's daily token quota; 0 means unlimited. */
+export function dailyTokenQuota(user: Pick<User, "dailyTokenQuota">) {
+  return user.dailyTokenQuota ?? ENV.llmDailyTokenQuota;
+}
+
+/** Start of the current day (server time); quotas reset at midnight. */
+export function startOfDay(now: Date) {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/** Tokens used today and the quota they count against. */
+export async function getDailyUsage(user: Pick<User, "id" | "dailyTokenQuota">, now = new Date()) {
+  const quota = dailyTokenQuota(user);
+  const used = await sumUserTokensSince(user.id, startOfDay(now));
+  return { used, quota };
+}
+
+/** Reject the request when the user has used up today's tokens. */
+export async function assertWithinQuota(user: Pick<User, "id" | "dailyTokenQuota">, now = new Date()) {
+  if (dailyTokenQuota(user) <= 0) return;
+
+  const { used, quota } = await getDailyUsage(user, now);
+  if (used >= quota) {
+    throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: QUOTA_EXCEEDED_ERR_MSG });
+  }
+}
+
+type UsageTotals = {
+  calls: number | string;
+  failures: number | string | null;
+  promptTokens: number | string;
+  completionTokens: number | string;
+  avgLatencyMs: number | string;
+};
+
+// MySQL returns sums and averages as decimal strings
+const toTotals = (row: UsageTotals | undefined) => {
+  const promptTokens = Number(row?.promptTokens ?? 0);
+  const completionTokens = Number(row?.completionTokens ?? 0);
+  return {
+    calls: Number(row?.calls ?? 0),
+    failures: Number(row?.failures ?? 0),
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    avgLatencyMs: Math.round(Number(row?.avgLatencyMs ?? 0)),
+  };
+};
+
+/** Aggregate usage over the last `days` days (today included) for the admin dashboard. */
+export async function summarizeLLMUsage(days: number, now = new Date()) {
+  const since = startOfDay(now);
+  since.setDate(since.getDate() - (days - 1));
+
+  const summary = await getLlmUsageSummary(since);
+  return {
+    since,
+    defaultDailyTokenQuota: ENV.llmDailyTokenQuota,
+    totals: toTotals(summary.totals),
+    byDay: summary.byDay.map((row) => ({ day: row.day, ...toTotals(row) })),
+    byProcedure: summary.byProcedure
+      .map((row) => ({ procedure: row.procedure, ...toTotals(row) }))
+      .sort((a, b) => b.totalTokens - a.totalTokens),
+    byUser: summary.byUser
+      .map((row) => ({
+        userId: row.userId,
+        name: row.name,
+        dailyTokenQuota: row.userId === null ? null : dailyTokenQuota(row),
+        ...toTotals(row),
+      }))
+      .sort((a, b) => b.totalTokens - a.totalTokens),
+  };
+}
@@ -0,0 +1,116 @@
+import { getSkillMasteries, updateSkillMasteries } from "./db";
+
+/**
+ * Cross-session learner mastery model. Each (user, topic, skill) pair has an
+ * Elo rating that plays against the difficulty rating of the quizzes and
+ * practice problems tagged with that skill.
+ *
+ * Mastery belongs to the topic, not to a session: every session on the same
+ * topic shares it. Renaming a session moves it to the new topic's history,
+ * and the ratings earned under the old name stay with that name.
+ */
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const INITIAL_MASTERY_RATING = 1000;
+
+// Elo rating of an item at each difficulty level
+export const DIFFICULTY_RATINGS: Record<Difficulty, number> = {
+  easy: 850,
+  medium: 1000,
+  hard: 1150,
+};
+
+// How many of the weakest skills to target when generating content
+const WEAK_SKILL_COUNT = 3;
+
+/** Probability that a learner with `rating` answers an item of `itemRating` correctly. */
+export function expectedScore(rating: number, itemRating: number) {
+  return 1 / (1 + Math.pow(10, (itemRating - rating) / 400));
+}
+
+/**
+ * New rating after one result. Ratings move faster while a skill has few
+ * attempts so early results settle the estimate quickly.
+ */
+export function updateMasteryRating(
+  rating: number,
+  attempts: number,
+  difficulty: Difficulty,
+  isCorrect: boolean
+) {
+  const k = attempts < 10 ? 48 : 24;
+  const expected = expectedScore(rating, DIFFICULTY_RATINGS[difficulty]);
+  return Math.round(rating + k * ((isCorrect ? 1 : 0) - expected));
+}
+
+/** The difficulty whose item rating is closest to the learner's rating. */
+export function recommendDifficulty(rating: number): Difficulty {
+  const levels = Object.keys(DIFFICULTY_RATINGS) as Difficulty[];
+  return levels.reduce((best, level) =>
+    Math.abs(DIFFICULTY_RATINGS[level] - rating) < Math.abs(DIFFICULTY_RATINGS[best] - rating)
+      ? level
+      : best
+  );
+}
+
+/** Normalize an LLM-provided skill tag so the same skill always maps to one row. */
+export function normalizeSkill(skill: string) {
+  return skill
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .slice(0, 64);
+}
+
+/** Parse the JSON skill tags stored on a quiz or practice problem. */
+export function parseSkills(skills: string | null): string[] {
+  if (!skills) return [];
+  try {
+    const parsed = JSON.parse(skills);
+    return Array.isArray(parsed) ? parsed.filter((s): s is string => typeof s === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Summarize a user's mastery of a topic: the overall rating (mean of the
+ * skill ratings), the difficulty to serve next, and the weakest skills.
+ */
+export async function getTopicMastery(userId: number, topic: string) {
+  const skills = await getSkillMasteries(userId, topic.trim());
+  const rating =
+    skills.length > 0
+      ? Math.round(skills.reduce((sum, s) => sum + s.rating, 0) / skills.length)
+      : INITIAL_MASTERY_RATING;
+
+  return {
+    rating,
+    recommendedDifficulty: recommendDifficulty(rating),
+    skills,
+    weakSkills: skills.slice(0, WEAK_SKILL_COUNT).map((s) => s.skill),
+  };
+}
+
+/**
+ * Apply a graded quiz or practice problem result to each of its skills. The
+ * ratings are read and written under a row lock so concurrent results (a chat
+ * answer and a quiz button, say) are both counted.
+ */
+export async function recordMasteryResult(params: {
+  userId: number;
+  topic: string;
+  skills: string[];
+  difficulty: Difficulty;
+  isCorrect: boolean;
+}) {
+  const skills = Array.from(new Set(params.skills.map(normalizeSkill).filter(Boolean)));
+  if (skills.length === 0) return;
+
+  await updateSkillMasteries(params.userId, params.topic.trim(), skills, (current) => ({
+    rating: updateMasteryRating(current.rating, current.attempts, params.difficulty, params.isCorrect),
+    attempts: current.attempts + 1,
+    correct: current.correct + (params.isCorrect ? 1 : 0),
+  }));
+}
@@ -0,0 +1,33 @@
+import type { User } from "../drizzle/schema";
+
+export type MathNotation = User["mathNotation"];
+
+const LATEX_RULES = `MATH FORMATTING RULES:
+- Write mathematical expressions in LaTeX
+- Use $...$ for inline math and $$...$$ on their own lines for display equations
+- Do NOT wrap math in code blocks or backticks
+- Do NOT use \\(...\\) or \\[...\\] delimiters
+- Examples of correct formatting:
+  - "$\\sin\\theta$", "$x^2$", "$\\frac{1}{2}$", "$\\sqrt{x}$"
+  - $$\\int_0^1 x^2 \\, dx = \\frac{1}{3}$$`;
+
+const PLAIN_TEXT_RULES = `MATH FORMATTING RULES:
+- Do NOT use LaTeX notation (no $...$ or \\...)
+- Do NOT use mathematical symbols like \\sin, \\cos, \\tan, \\theta, \\pi, \\frac, \\sqrt, etc.
+- Do NOT use superscripts (^) or subscripts (_)
+- Write all mathematical expressions in plain text
+- Examples of correct formatting:
+  - Instead of "$\\sin\\theta$", write "sin(theta)" or "サインシータ"
+  - Instead of "$x^2$", write "xの2乗" or "x squared"
+  - Instead of "$\\frac{1}{2}$", write "1/2" or "2分の1"
+  - Instead of "$\\sqrt{x}$", write "xの平方根" or "sqrt(x)"
+  - Instead of "$\\pi$", write "円周率π" or "pi"
+  - Instead of "$\\int f(x)dx$", write "f(x)の積分" or "integral of f(x)"`;
+
+/**
+ * Prompt section telling the LLM how to write math for the user's
+ * preferred notation. Shared by every router that generates content.
+ */
+export function mathFormattingRules(notation: MathNotation = "latex") {
+  return notation === "plain" ? PLAIN_TEXT_RULES : LATEX_RULES;
+}
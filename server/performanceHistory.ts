@@ -0,0 +1,67 @@
+import type { PerformanceEvent } from "../drizzle/schema";
+import type { Difficulty } from "./mastery";
+
+/**
+ * Session performance history for the Performance tab: accuracy after each
+ * graded attempt and a breakdown by difficulty, built from performance_events.
+ */
+
+// Attempts in the moving accuracy window
+export const RECENT_WINDOW = 5;
+
+export type PerformancePoint = {
+  attempt: number;
+  at: Date;
+  isCorrect: boolean;
+  // Accuracy over all attempts so far (0-100)
+  accuracyRate: number;
+  // Accuracy over the last RECENT_WINDOW attempts (0-100)
+  recentAccuracyRate: number;
+};
+
+export type DifficultyBreakdown = {
+  // null for attempts without a stored difficulty
+  difficulty: Difficulty | null;
+  attempts: number;
+  correct: number;
+  accuracyRate: number;
+};
+
+const percent = (correct: number, total: number) => (total > 0 ? Math.round((correct / total) * 100) : 0);
+
+const DIFFICULTY_ORDER: Array<Difficulty | null> = ["easy", "medium", "hard", null];
+
+/** Timeline and per-difficulty totals of a session's events, given oldest first. */
+export function buildPerformanceHistory(
+  events: Pick<PerformanceEvent, "difficulty" | "isCorrect" | "createdAt">[]
+) {
+  let correct = 0;
+  const timeline: PerformancePoint[] = events.map((event, i) => {
+    correct += event.isCorrect;
+    const recent = events.slice(Math.max(0, i + 1 - RECENT_WINDOW), i + 1);
+    const recentCorrect = recent.reduce((sum, e) => sum + e.isCorrect, 0);
+    return {
+      attempt: i + 1,
+      at: event.createdAt,
+      isCorrect: event.isCorrect === 1,
+      accuracyRate: percent(correct, i + 1),
+      recentAccuracyRate: percent(recentCorrect, recent.length),
+    };
+  });
+
+  const byDifficulty: DifficultyBreakdown[] = DIFFICULTY_ORDER.flatMap((difficulty) => {
+    const matching = events.filter((event) => event.difficulty === difficulty);
+    if (matching.length === 0) return [];
+    const matchingCorrect = matching.reduce((sum, e) => sum + e.isCorrect, 0);
+    return [
+      {
+        difficulty,
+        attempts: matching.length,
+        correct: matchingCorrect,
+        accuracyRate: percent(matchingCorrect, matching.length),
+      },
+    ];
+  });
+
+  return { timeline, byDifficulty };
+}
@@ -6,6 +6,10 @@ import { sessionsRouter } from "./routers/sessions";
 import { chatRouter } from "./routers/chat";
 import { researchRouter } from "./routers/research";
 import { learningRouter } from "./routers/learning";
+import { preferencesRouter } from "./routers/preferences";
+import { modelsRouter } from "./routers/models";
+import { usageRouter } from "./routers/usage";
+import { voiceRouter } from "./routers/voice";
 
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -25,6 +29,10 @@ export const appRouter = router({
   chat: chatRouter,
   research: researchRouter,
   learning: learningRouter,
+  preferences: preferencesRouter,
+  models: modelsRouter,
+  usage: usageRouter,
+  voice: voiceRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -1,17 +1,95 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { chatRouter } from "../chat";
+import { invokeLLM, invokeLLMStream, ToolCall } from "../../_core/llm";
+import {
+  getChatLogsAfter,
+  getChatTurn,
+  getLearningSession,
+  getPendingPracticeProblems,
+  getPracticeProblem,
+  getUnansweredQuizzes,
+  saveChatTurn,
+  sumUserTokensSince,
+  updatePracticeProblemSolved,
+  updateSessionPerformance,
+} from "../../db";
+import { storagePut } from "../../storage";
+import type { User } from "../../../drizzle/schema";
+import {
+  chatLogRow,
+  chatTurnRow,
+  llmReply,
+  practiceProblemRow,
+  sessionRow,
+  testContext,
+  testUser,
+} from "../../__tests__/fixtures";
 
 // Mock the LLM function
 vi.mock("../../_core/llm", () => ({
   invokeLLM: vi.fn(),
+  invokeLLMStream: vi.fn(),
 }));
 
 vi.mock("../../db", () => ({
-  getChatLogs: vi.fn(),
+  getChatTurn: vi.fn(),
+  saveChatTurn: vi.fn(),
+  getChatLogsAfter: vi.fn(),
+  getSessionSummary: vi.fn(),
+  upsertSessionSummary: vi.fn(),
+  getLearningSession: vi.fn(),
+  updateSessionPerformance: vi.fn(),
+  getPendingPracticeProblems: vi.fn(),
+  getUnansweredQuizzes: vi.fn(),
+  getPracticeProblem: vi.fn(),
+  updatePracticeProblemSolved: vi.fn(),
+  createFirstQuizAttempt: vi.fn().mockResolvedValue(true),
+  enqueueReviewItem: vi.fn(),
+  getSkillMasteries: vi.fn(),
+  updateSkillMasteries: vi.fn(),
+  addLlmUsage: vi.fn(),
+  sumUserTokensSince: vi.fn(),
 }));
 
+vi.mock("../../storage", () => ({
+  storagePut: vi.fn(),
+}));
+
+const user = testUser();
+
+const createCaller = (ctxUser = user) => chatRouter.createCaller(testContext(ctxUser));
+
+async function* fakeStream(chunks: string[], toolCalls: ToolCall[] = []) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+  return { content: chunks.join(""), finishReason: toolCalls.length > 0 ? "tool_calls" : "stop", toolCalls };
+}
+
+// Grader verdict for a correct answer to practice problem 12
+const p12Verdict = {
+  isAnswer: true,
+  itemKey: "P12",
+  answer: "2x",
+  selectedOptionIndex: null,
+  isCorrect: true,
+  feedback: "正しい微分です",
+};
+
+const toolCall = (id: string, name: string, args: unknown): ToolCall => ({
+  id,
+  type: "function",
+  function: { name, arguments: JSON.stringify(args) },
+});
+
 describe("Chat Router", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(getLearningSession).mockResolvedValue(sessionRow());
+    vi.mocked(getPendingPracticeProblems).mockResolvedValue([]);
+    vi.mocked(getUnansweredQuizzes).mockResolvedValue([]);
+    vi.mocked(getChatTurn).mockResolvedValue(null);
+    vi.mocked(saveChatTurn).mockResolvedValue(true);
   });
 
   describe("sendMessage", () => {
@@ -46,6 +124,403 @@ describe("Chat Router", () => {
     });
   });
 
+  describe("tool calls", () => {
+    const linePlot = {
+      type: "line",
+      title: "y = ax",
+      xLabel: "x",
+      yLabel: "y",
+      domain: { min: 0, max: 10 },
+      step: null,
+      functions: [{ name: "y", expression: "a*x" }],
+      parameters: [{ name: "a", value: 2, min: 0, max: 5, step: null }],
+    };
+
+    it("should answer with tool results in sendMessage", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM)
+        .mockResolvedValueOnce(
+          llmReply("", [toolCall("call-1", "calculate", { expression: "1234 * 5678", variables: [] })])
+        )
+        .mockResolvedValueOnce(llmReply("答えは 7006652 です"));
+
+      const result = await createCaller().sendMessage({ sessionId: "test-session-123", clientMessageId: "msg-1", message: "1234×5678 は？" });
+
+      expect(result.response).toBe("答えは 7006652 です");
+      expect(result.toolCalls).toEqual(["calculate"]);
+      const [secondCall] = vi.mocked(invokeLLM).mock.calls[1];
+      expect(secondCall.messages[secondCall.messages.length - 1]).toEqual({
+        role: "tool",
+        tool_call_id: "call-1",
+        name: "calculate",
+        content: JSON.stringify({ result: "7006652" }),
+      });
+    });
+
+    it("should stream graphs shown by tools and save them before the reply", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLMStream)
+        .mockReturnValueOnce(fakeStream([], [toolCall("call-1", "plot_function", linePlot)]))
+        .mockReturnValueOnce(fakeStream(["グラフを表示しました"]));
+
+      const stream = await createCaller().streamMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "y = 2x のグラフを見せて",
+      });
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events.map((e) => e.type)).toEqual(["graph", "delta", "done"]);
+      expect(events[0]).toMatchObject({ type: "graph", graph: { title: "y = ax", plot: linePlot } });
+      const [, , logs] = vi.mocked(saveChatTurn).mock.calls[0];
+      expect(logs.map((log) => log.contentType)).toEqual(["text", "json", "markdown"]);
+    });
+
+    it("should drop text streamed before a tool call from the saved reply", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLMStream)
+        .mockReturnValueOnce(fakeStream(["グラフを描きます"], [toolCall("call-1", "plot_function", linePlot)]))
+        .mockReturnValueOnce(fakeStream(["グラフを表示しました"]));
+
+      const stream = await createCaller().streamMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "y = 2x のグラフを見せて",
+      });
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events.map((e) => e.type)).toEqual(["delta", "discard", "graph", "delta", "done"]);
+      const [, , logs] = vi.mocked(saveChatTurn).mock.calls[0];
+      expect(logs.at(-1)).toMatchObject({ contentType: "markdown", content: "グラフを表示しました" });
+    });
+  });
+
+  describe("turn persistence", () => {
+    const storedTurn = {
+      turn: chatTurnRow({ userLogId: 40, replyLogId: 41, logIds: "[40,41]" }),
+      logs: [
+        chatLogRow({ id: 40, sender: "user", content: "微分とは？", contentType: "text" }),
+        chatLogRow({ id: 41, content: "変化率です", contentType: "markdown" }),
+      ],
+    };
+
+    it("should save the message and the reply together", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockResolvedValue(llmReply("変化率です"));
+
+      const result = await createCaller().sendMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "微分とは？",
+      });
+
+      expect(result).toMatchObject({ response: "変化率です", replayed: false });
+      expect(saveChatTurn).toHaveBeenCalledWith("test-session-123", "msg-1", [
+        { sender: "user", content: "微分とは？", contentType: "text" },
+        { sender: "assistant", content: "変化率です", contentType: "markdown" },
+      ]);
+      // The new message is sent once, after the stored history
+      const [params] = vi.mocked(invokeLLM).mock.calls[0];
+      expect(params.messages.filter((m) => m.content === "微分とは？")).toHaveLength(1);
+    });
+
+    it("should return the stored turn for a retried message without calling the LLM", async () => {
+      vi.mocked(getChatTurn).mockResolvedValue(storedTurn);
+
+      const result = await createCaller().sendMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "微分とは？",
+      });
+
+      expect(result).toMatchObject({ response: "変化率です", replayed: true });
+      expect(invokeLLM).not.toHaveBeenCalled();
+      expect(saveChatTurn).not.toHaveBeenCalled();
+    });
+
+    it("should replay a stored turn over the stream", async () => {
+      vi.mocked(getChatTurn).mockResolvedValue(storedTurn);
+
+      const stream = await createCaller().streamMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "微分とは？",
+      });
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: "delta", text: "変化率です" },
+        expect.objectContaining({ type: "done", replayed: true }),
+      ]);
+      expect(invokeLLMStream).not.toHaveBeenCalled();
+    });
+
+    it("should answer with the turn saved first when the same key races", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockResolvedValue(llmReply("別の回答"));
+      vi.mocked(saveChatTurn).mockResolvedValue(false);
+      vi.mocked(getChatTurn).mockResolvedValueOnce(null).mockResolvedValueOnce(storedTurn);
+
+      const result = await createCaller().sendMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "微分とは？",
+      });
+
+      expect(result.response).toBe("変化率です");
+    });
+
+    it("should not record the grade of a turn that lost the race for its key", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(getPendingPracticeProblems).mockResolvedValue([
+        practiceProblemRow({ id: 12, problemText: "x^2 を微分せよ", solution: "2x" }),
+      ]);
+      vi.mocked(invokeLLM)
+        .mockResolvedValueOnce(llmReply(JSON.stringify(p12Verdict)))
+        .mockResolvedValueOnce(llmReply("正解です"));
+      vi.mocked(saveChatTurn).mockResolvedValue(false);
+      vi.mocked(getChatTurn).mockResolvedValueOnce(null).mockResolvedValueOnce(storedTurn);
+
+      await createCaller().sendMessage({ sessionId: "test-session-123", clientMessageId: "msg-1", message: "2x です" });
+
+      expect(updatePracticeProblemSolved).not.toHaveBeenCalled();
+      expect(updateSessionPerformance).not.toHaveBeenCalled();
+    });
+
+    it("should not save anything when the LLM fails", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockRejectedValue(new Error("LLM unavailable"));
+
+      await expect(
+        createCaller().sendMessage({ sessionId: "test-session-123", clientMessageId: "msg-1", message: "微分とは？" })
+      ).rejects.toThrow("LLM unavailable");
+      expect(saveChatTurn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("usage quota", () => {
+    const reply = llmReply("導関数は傾きです");
+
+    it("should attribute LLM calls to the user, session and procedure", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockResolvedValue(reply);
+
+      await createCaller().sendMessage({ sessionId: "test-session-123", clientMessageId: "msg-1", message: "導関数とは？" });
+
+      const [params] = vi.mocked(invokeLLM).mock.calls[0];
+      expect(params.caller).toEqual({ userId: 1, sessionId: "test-session-123", procedure: "sendMessage" });
+    });
+
+    it("should reject requests once the daily quota is used up", async () => {
+      vi.mocked(sumUserTokensSince).mockResolvedValue(5000);
+
+      await expect(
+        createCaller({ ...user, dailyTokenQuota: 5000 }).sendMessage({
+          sessionId: "test-session-123",
+          clientMessageId: "msg-1",
+          message: "導関数とは？",
+        })
+      ).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+      expect(invokeLLM).not.toHaveBeenCalled();
+    });
+
+    it("should allow requests under the quota", async () => {
+      vi.mocked(sumUserTokensSince).mockResolvedValue(4999);
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockResolvedValue(reply);
+
+      const result = await createCaller({ ...user, dailyTokenQuota: 5000 }).sendMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "導関数とは？",
+      });
+      expect(result.response).toBe("導関数は傾きです");
+    });
+  });
+
+  describe("streamMessage", () => {
+    it("should yield deltas and persist the full reply once", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLMStream).mockReturnValue(fakeStream(["微分は", "変化率です"]));
+
+      const stream = await createCaller().streamMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "微分とは？",
+      });
+
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events.filter((e) => e.type === "delta").map((e) => e.type === "delta" && e.text)).toEqual([
+        "微分は",
+        "変化率です",
+      ]);
+      expect(events[events.length - 1]).toMatchObject({ type: "done", isAnswerEvaluation: false });
+      expect(saveChatTurn).toHaveBeenCalledTimes(1);
+      expect(saveChatTurn).toHaveBeenCalledWith("test-session-123", "msg-1", [
+        { sender: "user", content: "微分とは？", contentType: "text" },
+        { sender: "assistant", content: "微分は変化率です", contentType: "markdown" },
+      ]);
+      expect(updateSessionPerformance).not.toHaveBeenCalled();
+    });
+
+    it("should grade answers to pending problems before replying", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(getPendingPracticeProblems).mockResolvedValue([
+        practiceProblemRow({ id: 12, problemText: "x^2 を微分せよ", solution: "2x" }),
+      ]);
+      vi.mocked(invokeLLM).mockResolvedValue(llmReply(JSON.stringify(p12Verdict)));
+      vi.mocked(invokeLLMStream).mockReturnValue(fakeStream(["正解です"]));
+
+      const stream = await createCaller().streamMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "2x です",
+      });
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events[events.length - 1]).toMatchObject({
+        type: "done",
+        isAnswerEvaluation: true,
+        isCorrect: true,
+        verdict: { itemType: "practice_problem", itemId: 12 },
+      });
+      expect(updatePracticeProblemSolved).toHaveBeenCalledWith(12, true);
+      expect(updateSessionPerformance).toHaveBeenCalledTimes(1);
+
+      // The reply is written with the verdict in view
+      const [params] = vi.mocked(invokeLLMStream).mock.calls[0];
+      expect(params.messages.some((m) => m.role === "system" && String(m.content).includes("CORRECT"))).toBe(
+        true
+      );
+    });
+
+    it("should persist the partial reply when the client stops early", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLMStream).mockReturnValue(fakeStream(["途中まで", "の回答"]));
+
+      const stream = await createCaller().streamMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "積分とは？",
+      });
+
+      for await (const event of stream) {
+        if (event.type === "delta") break;
+      }
+
+      expect(saveChatTurn).toHaveBeenCalledTimes(1);
+      const [, , logs] = vi.mocked(saveChatTurn).mock.calls[0];
+      expect(logs[logs.length - 1]).toMatchObject({ content: "途中まで" });
+    });
+  });
+
+  describe("math notation", () => {
+    const systemPromptFor = async (ctxUser: User) => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLMStream).mockReturnValue(fakeStream(["ok"]));
+
+      const stream = await createCaller(ctxUser).streamMessage({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        message: "微分とは？",
+      });
+      for await (const _event of stream) {
+        // drain
+      }
+
+      const [params] = vi.mocked(invokeLLMStream).mock.calls[0];
+      return params.messages[0].content as string;
+    };
+
+    it("should ask for LaTeX math by default", async () => {
+      const prompt = await systemPromptFor(user);
+
+      expect(prompt).toContain("Use $...$ for inline math");
+      expect(prompt).not.toContain("Do NOT use LaTeX");
+    });
+
+    it("should fall back to plain-text math when the user prefers it", async () => {
+      const prompt = await systemPromptFor({ ...user, mathNotation: "plain" });
+
+      expect(prompt).toContain("Do NOT use LaTeX");
+      expect(prompt).not.toContain("Use $...$ for inline math");
+    });
+  });
+
+  describe("evaluateAnswer", () => {
+    const problem = practiceProblemRow({
+      id: 12,
+      problemText: "x^2 を微分せよ",
+      solution: "2x",
+      answerSpec: JSON.stringify({ kind: "expression", value: "2*x", tolerance: null }),
+    });
+
+    it("should grade answers with a spec without calling the LLM", async () => {
+      vi.mocked(getPracticeProblem).mockResolvedValue(problem);
+
+      const result = await createCaller().evaluateAnswer({
+        sessionId: "test-session-123",
+        problemId: 12,
+        question: problem.problemText,
+        userAnswer: "$f'(x) = x \\cdot 2$",
+      });
+
+      expect(result).toMatchObject({ isCorrect: true, method: "symbolic" });
+      expect(invokeLLM).not.toHaveBeenCalled();
+      expect(updatePracticeProblemSolved).toHaveBeenCalledWith(12, true);
+    });
+
+    it("should fall back to the LLM for free-form answers", async () => {
+      vi.mocked(getPracticeProblem).mockResolvedValue({
+        ...problem,
+        answerSpec: JSON.stringify({ kind: "free_form", value: null, tolerance: null }),
+      });
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(JSON.stringify({ isCorrect: false, feedback: "定義を確認しましょう" }))
+      );
+
+      const result = await createCaller().evaluateAnswer({
+        sessionId: "test-session-123",
+        problemId: 12,
+        question: problem.problemText,
+        userAnswer: "極限の定義から示せる",
+      });
+
+      expect(result).toEqual({ evaluation: "定義を確認しましょう", isCorrect: false, method: "llm" });
+      expect(updatePracticeProblemSolved).toHaveBeenCalledWith(12, false);
+    });
+
+    it("should reject unknown problems", async () => {
+      vi.mocked(getPracticeProblem).mockResolvedValue(undefined);
+
+      await expect(
+        createCaller().evaluateAnswer({
+          sessionId: "test-session-123",
+          problemId: 99,
+          question: "?",
+          userAnswer: "2",
+        })
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+  });
+
   describe("generateGraphData", () => {
     it("should accept valid graph description", async () => {
       const input = {
@@ -66,5 +541,170 @@ describe("Chat Router", () => {
       expect(input.description).toContain("sin");
       expect(input.description).toContain("π");
     });
+
+    const graph = {
+      type: "line",
+      title: "y = x² のグラフ",
+      xAxis: { label: "x", data: [-1, 0, 1] },
+      yAxis: { label: "y" },
+      series: [{ name: "y = x²", data: [1, 0, 1] }],
+    };
+    const graphReply = (content: object) => llmReply(JSON.stringify(content));
+
+    const plot = {
+      type: "line",
+      title: "y = x² のグラフ",
+      xLabel: "x",
+      yLabel: "y",
+      domain: { min: -1, max: 1 },
+      step: null,
+      functions: [{ name: "y = x²", expression: "x^2" }],
+      parameters: [],
+    };
+
+    it("should compute the series from the plot spec and save the graph as a json chat log", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockResolvedValue(graphReply(plot));
+
+      const result = await createCaller().generateGraphData({
+        sessionId: "test-session-123",
+        clientMessageId: "msg-1",
+        description: "y = x² のグラフ",
+      });
+
+      expect(vi.mocked(invokeLLM).mock.calls[0][0].responseFormat).toMatchObject({ type: "json_schema" });
+      expect(result).toMatchObject({ type: "line", title: "y = x² のグラフ", plot });
+      result.xAxis.data.forEach((x, i) => {
+        expect(result.series[0].data[i]).toBeCloseTo((x as number) ** 2);
+      });
+      expect(saveChatTurn).toHaveBeenCalledWith("test-session-123", "msg-1", [
+        { sender: "user", content: "グラフ化: y = x² のグラフ", contentType: "text" },
+        { sender: "assistant", content: JSON.stringify(result), contentType: "json" },
+      ]);
+    });
+
+    it("should reject plots that use undeclared symbols", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(invokeLLM).mockResolvedValue(
+        graphReply({ ...plot, functions: [{ name: "y", expression: "a * x^2" }] })
+      );
+
+      await expect(
+        createCaller().generateGraphData({ sessionId: "test-session-123", clientMessageId: "msg-1", description: "y = ax²" })
+      ).rejects.toMatchObject({ code: "UNPROCESSABLE_CONTENT" });
+      expect(saveChatTurn).not.toHaveBeenCalled();
+    });
+
+    it("should show saved graphs to the tutor as a short note", async () => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([
+        chatLogRow({ content: JSON.stringify(graph), contentType: "json" }),
+      ]);
+      vi.mocked(invokeLLMStream).mockReturnValue(fakeStream(["ok"]));
+
+      const stream = await createCaller().streamMessage({ sessionId: "test-session-123", clientMessageId: "msg-1", message: "このグラフの頂点は？" });
+      for await (const _event of stream) {
+        // drain
+      }
+
+      const [params] = vi.mocked(invokeLLMStream).mock.calls[0];
+      expect(params.messages[1].content).toBe("[Graph shown to the student: y = x² のグラフ]");
+    });
+  });
+
+  describe("analyzePhoto", () => {
+    const photoInput = {
+      sessionId: "test-session-123",
+      clientMessageId: "msg-1",
+      image: Buffer.from("fake-jpeg").toString("base64"),
+      mimeType: "image/jpeg" as const,
+      note: "問題 2 の解答です",
+    };
+    const feedbackReply = (content: object) => llmReply(JSON.stringify(content));
+    const feedback = {
+      readable: true,
+      problem: "x^2 - 5x + 6 = 0 を解く",
+      lines: [
+        { text: "(x - 2)(x - 3) = 0", isCorrect: true, comment: "" },
+        { text: "x = -2, -3", isCorrect: false, comment: "符号が逆です" },
+      ],
+      feedback: "x - 2 = 0 から x = 2 です。",
+    };
+
+    beforeEach(() => {
+      vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+      vi.mocked(storagePut).mockResolvedValue({
+        key: "photos/test-session-123/a.jpg",
+        url: "https://storage.example/photos/test-session-123/a.jpg",
+      });
+    });
+
+    it("should store the photo and send it to the model as image content", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(feedbackReply(feedback));
+
+      await createCaller().analyzePhoto(photoInput);
+
+      const [key, data, contentType] = vi.mocked(storagePut).mock.calls[0];
+      expect(key).toMatch(/^photos\/test-session-123\/.+\.jpg$/);
+      expect(Buffer.from(data as Buffer).toString()).toBe("fake-jpeg");
+      expect(contentType).toBe("image/jpeg");
+
+      const [params] = vi.mocked(invokeLLM).mock.calls[0];
+      const userMessage = params.messages[params.messages.length - 1];
+      expect(userMessage.content).toContainEqual({
+        type: "image_url",
+        image_url: { url: "https://storage.example/photos/test-session-123/a.jpg", detail: "high" },
+      });
+    });
+
+    it("should point out the first incorrect line and save the photo with the reply", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(feedbackReply(feedback));
+
+      const result = await createCaller().analyzePhoto(photoInput);
+
+      expect(result.replayed).toBe(false);
+      expect(result.reply).toContain("最初の誤りは 2 行目です。");
+      expect(result.photo).toEqual({
+        url: "https://storage.example/photos/test-session-123/a.jpg",
+        key: "photos/test-session-123/a.jpg",
+        mimeType: "image/jpeg",
+        note: "問題 2 の解答です",
+        transcription: ["(x - 2)(x - 3) = 0", "x = -2, -3"],
+      });
+      expect(saveChatTurn).toHaveBeenCalledWith("test-session-123", "msg-1", [
+        { sender: "user", content: JSON.stringify(result.photo), contentType: "image" },
+        { sender: "assistant", content: result.reply, contentType: "markdown" },
+      ]);
+    });
+
+    it("should replay a saved photo turn without uploading again", async () => {
+      const photo = {
+        url: "https://storage.example/a.jpg",
+        key: "a.jpg",
+        mimeType: "image/jpeg",
+        note: "",
+        transcription: ["x = 2"],
+      };
+      vi.mocked(getChatTurn).mockResolvedValue({
+        turn: chatTurnRow(),
+        logs: [
+          chatLogRow({ id: 1, sender: "user", content: JSON.stringify(photo), contentType: "image" }),
+          chatLogRow({ id: 2, content: "保存済みの添削", contentType: "markdown" }),
+        ],
+      });
+
+      const result = await createCaller().analyzePhoto(photoInput);
+
+      expect(result).toEqual({ reply: "保存済みの添削", photo, replayed: true });
+      expect(storagePut).not.toHaveBeenCalled();
+      expect(invokeLLM).not.toHaveBeenCalled();
+    });
+
+    it("should not save anything when the upload fails", async () => {
+      vi.mocked(storagePut).mockRejectedValue(new Error("Storage upload failed"));
+
+      await expect(createCaller().analyzePhoto(photoInput)).rejects.toThrow();
+      expect(invokeLLM).not.toHaveBeenCalled();
+      expect(saveChatTurn).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { appRouter } from "../../routers";
+import { setLLMProvider } from "../../_core/llmProvider";
+import { createMockProvider } from "../../_core/mockLLMProvider";
+import { addLlmUsage, createQuiz, getChatLogsAfter, getLearningSession, saveChatTurn } from "../../db";
+import { sessionRow, testContext, testUser } from "../../__tests__/fixtures";
+
+// End-to-end through the routers, the agent loop and invokeLLM with the
+// scripted mock provider; only the database is mocked.
+vi.mock("../../db", () => ({
+  getChatTurn: vi.fn(async () => null),
+  saveChatTurn: vi.fn(async () => true),
+  addLlmUsage: vi.fn(),
+  sumUserTokensSince: vi.fn(async () => 0),
+  getChatLogsAfter: vi.fn(),
+  getSessionSummary: vi.fn(async () => null),
+  upsertSessionSummary: vi.fn(),
+  getLearningSession: vi.fn(),
+  getPendingPracticeProblems: vi.fn(async () => []),
+  getUnansweredQuizzes: vi.fn(async () => []),
+  getSkillMasteries: vi.fn(async () => []),
+  createQuiz: vi.fn(),
+  updateSessionPerformance: vi.fn(),
+}));
+
+const user = testUser();
+const sessionId = "test-session-123";
+
+const provider = createMockProvider();
+const createCaller = () => appRouter.createCaller(testContext(user));
+
+describe("Routers with the mock LLM provider", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider.reset();
+    setLLMProvider(provider);
+    vi.mocked(getLearningSession).mockResolvedValue(sessionRow({ id: sessionId, userId: user.id }));
+    vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    setLLMProvider(null);
+  });
+
+  it("should run a tool call and answer with its result", async () => {
+    provider.script(
+      { toolCalls: [{ name: "calculate", arguments: { expression: "12 * 34", variables: [] } }] },
+      (request) => {
+        const toolMessage = request.messages.find((m) => m.role === "tool");
+        return { content: `答えは ${JSON.parse(String(toolMessage?.content)).result} です` };
+      }
+    );
+
+    const result = await createCaller().chat.sendMessage({ sessionId, message: "12 × 34 は？", clientMessageId: "msg-1" });
+
+    expect(result.response).toBe("答えは 408 です");
+    expect(result.toolCalls).toEqual(["calculate"]);
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[0].tools).toBeDefined();
+    expect(addLlmUsage).toHaveBeenCalledTimes(2);
+    expect(addLlmUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 1, sessionId, procedure: "chat.sendMessage", model: "mock", success: 1 })
+    );
+  });
+
+  it("should stream a reply over server-sent events and save it", async () => {
+    provider.script({ content: "微分は 変化率 です" });
+
+    const stream = await createCaller().chat.streamMessage({ sessionId, message: "微分とは？", clientMessageId: "msg-2" });
+    const deltas: string[] = [];
+    for await (const event of stream) {
+      if (event.type === "delta") deltas.push(event.text);
+    }
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe("微分は 変化率 です");
+    expect(provider.requests[0].stream).toBe(true);
+    expect(saveChatTurn).toHaveBeenCalledWith(sessionId, "msg-2", [
+      { sender: "user", content: "微分とは？", contentType: "text" },
+      { sender: "assistant", content: "微分は 変化率 です", contentType: "markdown" },
+    ]);
+    const [usage] = vi.mocked(addLlmUsage).mock.calls[0];
+    expect(usage).toMatchObject({ procedure: "chat.streamMessage", success: 1 });
+    expect(usage.promptTokens).toBeGreaterThan(0);
+  });
+
+  it("should repair structured output that fails validation", async () => {
+    const quiz = {
+      question: "x^2 の導関数は？",
+      options: ["2x", "x", "x^3/3", "2"],
+      correctIndex: 0,
+      explanation: "べき乗の微分",
+      skills: ["power-rule"],
+    };
+    provider.script({ content: JSON.stringify({ quizzes: [] }) }, { content: JSON.stringify({ quizzes: [quiz] }) });
+    vi.mocked(createQuiz).mockResolvedValue(7);
+
+    const result = await createCaller().learning.generateQuiz({ sessionId, topic: "微分", count: 1 });
+
+    expect(result.count).toBe(1);
+    expect(provider.requests).toHaveLength(2);
+    expect(JSON.stringify(provider.requests[1].messages)).toContain("did not match the required JSON schema");
+  });
+
+  it("should fill json_schema requests with schema-valid defaults once the script runs out", async () => {
+    const result = await createCaller().chat.evaluateAnswer({
+      sessionId,
+      question: "連続関数の例を挙げよ",
+      userAnswer: "f(x) = x",
+    });
+
+    expect(result).toMatchObject({ isCorrect: false, method: "llm" });
+  });
+});
@@ -0,0 +1,527 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { learningRouter, shuffleOptions } from "../learning";
+import { invokeLLM } from "../../_core/llm";
+import {
+  addChatLog,
+  createFirstQuizAttempt,
+  createPracticeProblem,
+  createQuiz,
+  createQuizAttempt,
+  enqueueReviewItem,
+  getChatLogsAfter,
+  getLearningSession,
+  getPerformanceEvents,
+  getPracticeProblem,
+  getQuiz,
+  getReviewItem,
+  getSkillMasteries,
+  updatePracticeProblemSolved,
+  updateSkillMasteries,
+  updateReviewItemSchedule,
+  updateSessionPerformance,
+} from "../../db";
+import {
+  llmReply,
+  practiceProblemRow,
+  quizRow,
+  reviewItemRow,
+  sessionRow,
+  skillMasteryRow,
+  testContext,
+  testUser,
+} from "../../__tests__/fixtures";
+
+vi.mock("../../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock("../../db", () => ({
+  createPracticeProblem: vi.fn(),
+  getPracticeProblems: vi.fn(),
+  getPracticeProblem: vi.fn(),
+  updatePracticeProblemSolved: vi.fn(),
+  createQuiz: vi.fn(),
+  getQuizzes: vi.fn(),
+  getQuiz: vi.fn(),
+  createFirstQuizAttempt: vi.fn(),
+  createQuizAttempt: vi.fn(),
+  getQuizAttempts: vi.fn(),
+  createNote: vi.fn(),
+  getNotes: vi.fn(),
+  deleteNote: vi.fn(),
+  getChatLogsAfter: vi.fn(),
+  getSessionSummary: vi.fn(),
+  upsertSessionSummary: vi.fn(),
+  getLearningSession: vi.fn(),
+  getOrCreateSessionPerformance: vi.fn(),
+  updateSessionPerformance: vi.fn(),
+  getSessionPerformance: vi.fn(),
+  getPerformanceEvents: vi.fn(),
+  enqueueReviewItem: vi.fn(),
+  getDueReviewItems: vi.fn(),
+  countDueReviewItems: vi.fn(),
+  getReviewItem: vi.fn(),
+  updateReviewItemSchedule: vi.fn(),
+  getSkillMasteries: vi.fn(),
+  updateSkillMasteries: vi.fn(),
+  addChatLog: vi.fn(),
+}));
+
+const user = testUser();
+
+const createCaller = () => learningRouter.createCaller(testContext(user));
+
+describe("Learning Router", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getLearningSession).mockResolvedValue(sessionRow());
+    vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+    vi.mocked(getSkillMasteries).mockResolvedValue([]);
+    vi.mocked(createFirstQuizAttempt).mockResolvedValue(true);
+  });
+
+  describe("generatePracticeProblems", () => {
+    it("should request a json_schema response and save validated problems", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(JSON.stringify({ problems: [{ problem: "xの2乗を微分せよ", solution: "2x", skills: ["Power Rule"], answerSpec: { kind: "expression", value: "2*x", tolerance: null } }] }))
+      );
+
+      const result = await createCaller().generatePracticeProblems({
+        sessionId: "test-session-123",
+        topic: "微分",
+        count: 1,
+      });
+
+      expect(result.count).toBe(1);
+      expect(vi.mocked(invokeLLM).mock.calls[0][0].responseFormat).toMatchObject({
+        type: "json_schema",
+        json_schema: { name: "practice_problems", strict: true },
+      });
+      expect(createPracticeProblem).toHaveBeenCalledWith(
+        "test-session-123",
+        "xの2乗を微分せよ",
+        "2x",
+        "medium",
+        ["power-rule"],
+        { kind: "expression", value: "2*x", tolerance: null }
+      );
+    });
+
+    it("should post the saved problems to the chat", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(JSON.stringify({ problems: [{ problem: "xの2乗を微分せよ", solution: "2x", skills: ["Power Rule"], answerSpec: { kind: "expression", value: "2*x", tolerance: null } }] }))
+      );
+      vi.mocked(createPracticeProblem).mockResolvedValue(12);
+
+      const result = await createCaller().generatePracticeProblems({ sessionId: "test-session-123", topic: "微分", count: 1 });
+
+      expect(result.chatMessages).toEqual(["**問題 1:**\nxの2乗を微分せよ"]);
+      expect(addChatLog).toHaveBeenCalledWith({
+        sessionId: "test-session-123",
+        sender: "assistant",
+        content: "**問題 1:**\nxの2乗を微分せよ",
+        contentType: "markdown",
+      });
+    });
+
+    it("should drop answer specs the checker cannot evaluate", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(
+          JSON.stringify({
+            problems: [
+              {
+                problem: "√2 が無理数であることを示せ",
+                solution: "背理法で示す",
+                skills: ["proof"],
+                answerSpec: { kind: "expression", value: "背理法", tolerance: null },
+              },
+            ],
+          })
+        )
+      );
+
+      await createCaller().generatePracticeProblems({ sessionId: "test-session-123", topic: "数と式", count: 1 });
+
+      expect(vi.mocked(createPracticeProblem).mock.calls[0][5]).toBeNull();
+    });
+
+    it("should pick difficulty from mastery and target weak skills", async () => {
+      vi.mocked(getSkillMasteries).mockResolvedValue([
+        skillMasteryRow({ skill: "chain-rule", rating: 1120, attempts: 8, correct: 7 }),
+        skillMasteryRow({ skill: "product-rule", rating: 1200, attempts: 6, correct: 6 }),
+      ]);
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(JSON.stringify({ problems: [{ problem: "sin(x^2) を微分せよ", solution: "2x cos(x^2)", skills: ["chain-rule"], answerSpec: { kind: "expression", value: "2*x*cos(x^2)", tolerance: null } }] }))
+      );
+
+      const result = await createCaller().generatePracticeProblems({
+        sessionId: "test-session-123",
+        topic: "微分",
+        count: 1,
+      });
+
+      expect(result.difficulty).toBe("hard");
+      const systemPrompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[0].content as string;
+      expect(systemPrompt).toContain("at hard difficulty level");
+      expect(systemPrompt).toContain("weakest skills: chain-rule, product-rule");
+    });
+
+    it("should let an explicit difficulty override mastery", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(JSON.stringify({ problems: [{ problem: "1+1は?", solution: "2", skills: ["addition"], answerSpec: { kind: "numeric", value: "2", tolerance: null } }] }))
+      );
+
+      const result = await createCaller().generatePracticeProblems({
+        sessionId: "test-session-123",
+        topic: "微分",
+        difficulty: "easy",
+        count: 1,
+      });
+
+      expect(result.difficulty).toBe("easy");
+    });
+
+    it("should retry with a repair prompt when validation fails", async () => {
+      vi.mocked(invokeLLM)
+        .mockResolvedValueOnce(llmReply('{"problems": [{"problem": "xの2乗を微分せよ"}]}'))
+        .mockResolvedValueOnce(
+          llmReply(JSON.stringify({ problems: [{ problem: "xの2乗を微分せよ", solution: "2x", skills: ["Power Rule"], answerSpec: { kind: "expression", value: "2*x", tolerance: null } }] }))
+        );
+
+      const result = await createCaller().generatePracticeProblems({
+        sessionId: "test-session-123",
+        topic: "微分",
+        count: 1,
+      });
+
+      expect(result.count).toBe(1);
+      expect(invokeLLM).toHaveBeenCalledTimes(2);
+      const repairMessages = vi.mocked(invokeLLM).mock.calls[1][0].messages;
+      expect(repairMessages.at(-1)?.content).toContain("problems.0.solution");
+    });
+
+    it("should throw UNPROCESSABLE_CONTENT instead of returning an empty list", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmReply("すみません、生成できませんでした"));
+
+      await expect(
+        createCaller().generatePracticeProblems({
+          sessionId: "test-session-123",
+          topic: "微分",
+          count: 1,
+        })
+      ).rejects.toMatchObject({ code: "UNPROCESSABLE_CONTENT" });
+      expect(createPracticeProblem).not.toHaveBeenCalled();
+    });
+
+    it("should fail instead of dropping problems that could not be saved", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(JSON.stringify({ problems: [{ problem: "xの2乗を微分せよ", solution: "2x", skills: ["Power Rule"], answerSpec: { kind: "expression", value: "2*x", tolerance: null } }] }))
+      );
+      vi.mocked(createPracticeProblem).mockRejectedValueOnce(new Error("Database not available"));
+
+      await expect(
+        createCaller().generatePracticeProblems({ sessionId: "test-session-123", topic: "微分", count: 1 })
+      ).rejects.toMatchObject({ code: "INTERNAL_SERVER_ERROR" });
+      expect(addChatLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("generateQuiz", () => {
+    it("should reject quizzes that do not have exactly four options", async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(
+          JSON.stringify({
+            quizzes: [
+              { question: "2+2は?", options: ["3", "4"], correctIndex: 1, explanation: "2+2=4", skills: ["addition"] },
+            ],
+          })
+        )
+      );
+
+      await expect(
+        createCaller().generateQuiz({ sessionId: "test-session-123", topic: "算数", count: 1 })
+      ).rejects.toMatchObject({ code: "UNPROCESSABLE_CONTENT" });
+      expect(createQuiz).not.toHaveBeenCalled();
+    });
+
+    it("should save shuffled options with the remapped correct index and return quiz ids", async () => {
+      vi.mocked(createQuiz).mockResolvedValue(42);
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(
+          JSON.stringify({
+            quizzes: [
+              {
+                question: "2+2は?",
+                options: ["3", "4", "5", "6"],
+                correctIndex: 1,
+                explanation: "2+2=4",
+                skills: ["addition"],
+              },
+            ],
+          })
+        )
+      );
+
+      const result = await createCaller().generateQuiz({
+        sessionId: "test-session-123",
+        topic: "算数",
+        count: 1,
+      });
+
+      expect(result.quizzes).toHaveLength(1);
+      expect(result.quizzes[0].id).toBe(42);
+      expect(result.quizzes[0]).not.toHaveProperty("correctIndex");
+
+      const [sessionId, question, options, correctIndex] = vi.mocked(createQuiz).mock.calls[0];
+      expect(sessionId).toBe("test-session-123");
+      expect(question).toBe("2+2は?");
+      expect([...options].sort()).toEqual(["3", "4", "5", "6"]);
+      expect(options[correctIndex]).toBe("4");
+      expect(result.quizzes[0].options).toEqual(options);
+    });
+
+    it("should fail instead of dropping quizzes that could not be saved", async () => {
+      vi.mocked(createQuiz).mockRejectedValueOnce(new Error("Database not available"));
+      vi.mocked(invokeLLM).mockResolvedValue(
+        llmReply(
+          JSON.stringify({
+            quizzes: [{ question: "2+2は?", options: ["3", "4", "5", "6"], correctIndex: 1, explanation: "2+2=4", skills: ["addition"] }],
+          })
+        )
+      );
+
+      await expect(
+        createCaller().generateQuiz({ sessionId: "test-session-123", topic: "算数", count: 1 })
+      ).rejects.toMatchObject({ code: "INTERNAL_SERVER_ERROR" });
+    });
+  });
+
+  describe("submitQuizAnswer", () => {
+    const quiz = quizRow({
+      id: 7,
+      question: "2+2は?",
+      options: JSON.stringify(["4", "3", "5", "6"]),
+      correctIndex: 0,
+      explanation: "2+2=4",
+      skills: JSON.stringify(["addition"]),
+    });
+
+    it("should grade by option index and record an attempt", async () => {
+      vi.mocked(getQuiz).mockResolvedValue(quiz);
+
+      const correct = await createCaller().submitQuizAnswer({
+        sessionId: "test-session-123",
+        quizId: 7,
+        selectedIndex: 0,
+      });
+      const wrong = await createCaller().submitQuizAnswer({
+        sessionId: "test-session-123",
+        quizId: 7,
+        selectedIndex: 2,
+      });
+
+      expect(correct).toEqual({ isCorrect: true, correctIndex: 0, explanation: "2+2=4" });
+      expect(wrong.isCorrect).toBe(false);
+      expect(createFirstQuizAttempt).toHaveBeenNthCalledWith(1, 7, "test-session-123", 0, true);
+      expect(createFirstQuizAttempt).toHaveBeenNthCalledWith(2, 7, "test-session-123", 2, false);
+      expect(updateSessionPerformance).toHaveBeenCalledTimes(2);
+      expect(updateSessionPerformance).toHaveBeenLastCalledWith("test-session-123", false, {
+        source: "quiz",
+        difficulty: quiz.difficulty,
+      });
+    });
+
+    it("should count only the first answer to a quiz", async () => {
+      vi.mocked(getQuiz).mockResolvedValue(quiz);
+      vi.mocked(createFirstQuizAttempt).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      await createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 1 });
+      await expect(
+        createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 0 })
+      ).rejects.toMatchObject({ code: "CONFLICT" });
+
+      expect(createFirstQuizAttempt).toHaveBeenCalledTimes(2);
+      expect(updateSessionPerformance).toHaveBeenCalledTimes(1);
+      expect(updateSessionPerformance).toHaveBeenCalledWith("test-session-123", false, {
+        source: "quiz",
+        difficulty: quiz.difficulty,
+      });
+      expect(updateSkillMasteries).toHaveBeenCalledTimes(1);
+      expect(enqueueReviewItem).toHaveBeenCalledTimes(1);
+    });
+
+    it("should update the learner's mastery of the quiz skills", async () => {
+      vi.mocked(getQuiz).mockResolvedValue(quiz);
+
+      await createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 0 });
+
+      const [userId, topic, skills, update] = vi.mocked(updateSkillMasteries).mock.calls[0];
+      expect([userId, topic, skills]).toEqual([user.id, "微分", ["addition"]]);
+      expect(update({ rating: 1000, attempts: 0, correct: 0 })).toEqual({ rating: 1024, attempts: 1, correct: 1 });
+    });
+
+    it("should record mastery under the session's current topic after a rename", async () => {
+      vi.mocked(getLearningSession).mockResolvedValue(sessionRow({ topic: "導関数の応用" }));
+      vi.mocked(getQuiz).mockResolvedValue(quiz);
+
+      await createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 0 });
+
+      expect(vi.mocked(updateSkillMasteries).mock.calls[0][1]).toBe("導関数の応用");
+    });
+
+    it("should queue missed quizzes for review", async () => {
+      vi.mocked(getQuiz).mockResolvedValue(quiz);
+
+      await createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 0 });
+      expect(enqueueReviewItem).not.toHaveBeenCalled();
+
+      await createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 1 });
+      expect(enqueueReviewItem).toHaveBeenCalledWith(
+        { userId: user.id, sessionId: "test-session-123", quizId: 7 },
+        expect.any(Date)
+      );
+    });
+
+    it("should reject quizzes outside the session", async () => {
+      vi.mocked(getQuiz).mockResolvedValue(undefined);
+
+      await expect(
+        createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 99, selectedIndex: 0 })
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+      expect(createFirstQuizAttempt).not.toHaveBeenCalled();
+    });
+
+    it("should reject an option index that does not exist", async () => {
+      vi.mocked(getQuiz).mockResolvedValue(quiz);
+
+      await expect(
+        createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 4 })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      expect(createFirstQuizAttempt).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to grade legacy quizzes without a recorded answer", async () => {
+      vi.mocked(getQuiz).mockResolvedValue({ ...quiz, correctIndex: null });
+
+      await expect(
+        createCaller().submitQuizAnswer({ sessionId: "test-session-123", quizId: 7, selectedIndex: 0 })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      expect(createFirstQuizAttempt).not.toHaveBeenCalled();
+      expect(updateSessionPerformance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("markPracticeProblem", () => {
+    it("should queue unsolved problems for review", async () => {
+      vi.mocked(getPracticeProblem).mockResolvedValue(practiceProblemRow({ id: 3 }));
+
+      await createCaller().markPracticeProblem({ sessionId: "test-session-123", problemId: 3, solved: false });
+
+      expect(updatePracticeProblemSolved).toHaveBeenCalledWith(3, false);
+      expect(enqueueReviewItem).toHaveBeenCalledWith(
+        { userId: user.id, sessionId: "test-session-123", practiceProblemId: 3 },
+        expect.any(Date)
+      );
+    });
+
+    it("should not queue solved problems", async () => {
+      vi.mocked(getPracticeProblem).mockResolvedValue(practiceProblemRow({ id: 3 }));
+
+      await createCaller().markPracticeProblem({ sessionId: "test-session-123", problemId: 3, solved: true });
+
+      expect(updatePracticeProblemSolved).toHaveBeenCalledWith(3, true);
+      expect(enqueueReviewItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("performance", () => {
+    it("should record self-reported results as manual events", async () => {
+      await createCaller().updateSessionPerformance({
+        sessionId: "test-session-123",
+        isCorrect: true,
+        difficulty: "hard",
+      });
+
+      expect(updateSessionPerformance).toHaveBeenCalledWith("test-session-123", true, {
+        source: "manual",
+        difficulty: "hard",
+      });
+    });
+
+    it("should build the history from the session's events", async () => {
+      vi.mocked(getPerformanceEvents).mockResolvedValue([
+        { id: 1, sessionId: "test-session-123", source: "quiz", difficulty: "easy", isCorrect: 1, createdAt: new Date(1) },
+        { id: 2, sessionId: "test-session-123", source: "quiz", difficulty: "easy", isCorrect: 0, createdAt: new Date(2) },
+      ]);
+
+      const history = await createCaller().getPerformanceHistory({ sessionId: "test-session-123" });
+
+      expect(getPerformanceEvents).toHaveBeenCalledWith("test-session-123");
+      expect(history.timeline.map((point) => point.accuracyRate)).toEqual([100, 50]);
+      expect(history.byDifficulty).toEqual([{ difficulty: "easy", attempts: 2, correct: 1, accuracyRate: 50 }]);
+    });
+  });
+
+  describe("recordReview", () => {
+    const review = reviewItemRow({ id: 11, userId: user.id, repetitions: 2, intervalDays: 6, easeFactor: 250 });
+    const reviewedQuiz = quizRow({ id: 7, options: JSON.stringify(["4", "3", "5", "6"]), correctIndex: 0, explanation: "2+2=4" });
+
+    it("should grade quiz reviews by option and reschedule", async () => {
+      vi.mocked(getReviewItem).mockResolvedValue({ review, topic: "微分", quiz: reviewedQuiz, problem: null });
+
+      const result = await createCaller().recordReview({ reviewId: 11, selectedIndex: 0 });
+
+      expect(result).toMatchObject({ rating: "good", isCorrect: true, intervalDays: 15 });
+      expect(updateReviewItemSchedule).toHaveBeenCalledWith(
+        11,
+        expect.objectContaining({ repetitions: 3, intervalDays: 15, easeFactor: 250 })
+      );
+      expect(createQuizAttempt).toHaveBeenCalledWith(7, "test-session-123", 0, true);
+    });
+
+    it("should restart quiz reviews answered incorrectly", async () => {
+      vi.mocked(getReviewItem).mockResolvedValue({ review, topic: "微分", quiz: reviewedQuiz, problem: null });
+
+      const result = await createCaller().recordReview({ reviewId: 11, selectedIndex: 2, rating: "easy" });
+
+      expect(result).toMatchObject({ rating: "again", isCorrect: false, intervalDays: 1 });
+    });
+
+    it("should use the self-rating for practice problems", async () => {
+      vi.mocked(getReviewItem).mockResolvedValue({
+        review,
+        topic: "微分",
+        quiz: null,
+        problem: practiceProblemRow({ id: 3, problemText: "x^2 を微分せよ", solution: "2x" }),
+      });
+
+      await expect(createCaller().recordReview({ reviewId: 11 })).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+      });
+
+      const result = await createCaller().recordReview({ reviewId: 11, rating: "hard" });
+
+      expect(result).toMatchObject({ rating: "hard", isCorrect: null });
+      expect(updatePracticeProblemSolved).toHaveBeenCalledWith(3, true);
+    });
+
+    it("should not reveal other users' review items", async () => {
+      vi.mocked(getReviewItem).mockResolvedValue(undefined);
+
+      await expect(createCaller().recordReview({ reviewId: 99, rating: "good" })).rejects.toMatchObject({
+        code: "NOT_FOUND",
+      });
+      expect(updateReviewItemSchedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("shuffleOptions", () => {
+    it("should keep the correct option reachable by the new index", () => {
+      for (let i = 0; i < 20; i++) {
+        const shuffled = shuffleOptions(["a", "b", "c", "d"], 2);
+        expect([...shuffled.options].sort()).toEqual(["a", "b", "c", "d"]);
+        expect(shuffled.options[shuffled.correctIndex]).toBe("c");
+      }
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { modelsRouter } from "../models";
+import { testContext, testUser } from "../../__tests__/fixtures";
+
+const createCaller = () => modelsRouter.createCaller(testContext(testUser()));
+
+describe("Models Router", () => {
+  it("should list every model with its parameters", async () => {
+    const models = await createCaller().list();
+    expect(models.map((m) => m.id)).toContain("supply_demand");
+    expect(models.every((m) => m.parameters.length > 0)).toBe(true);
+  });
+
+  it("should simulate a model with defaults for omitted parameters", async () => {
+    const result = await createCaller().simulate({ model: "supply_demand", parameters: { t: 6 } });
+    expect(result.parameters).toMatchObject({ a: 100, t: 6 });
+    expect(result.graph.series.length).toBe(3);
+  });
+
+  it("should reject invalid parameters as a bad request", async () => {
+    await expect(
+      createCaller().simulate({ model: "solow", parameters: { s: 5 } })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("should require a logged-in user", async () => {
+    const caller = modelsRouter.createCaller(testContext(null));
+    await expect(caller.list()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { sessionsRouter } from "../sessions";
+import { chatRouter } from "../chat";
+import { learningRouter } from "../learning";
+import { researchRouter } from "../research";
+import {
+  addChatLog,
+  createLearningSession,
+  deleteNote,
+  getChatLogs,
+  getLearningSession,
+} from "../../db";
+import { invokeLLM } from "../../_core/llm";
+import { sessionRow, testContext, testUser } from "../../__tests__/fixtures";
+
+vi.mock("../../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+  invokeLLMStream: vi.fn(),
+}));
+
+vi.mock("../../db", () => ({
+  createLearningSession: vi.fn(async (session) => session),
+  getLearningSession: vi.fn(),
+  addChatLog: vi.fn(),
+  getChatLogs: vi.fn(async () => []),
+  deleteNote: vi.fn(),
+  getNotes: vi.fn(async () => []),
+  getSessionPerformance: vi.fn(),
+  getPerformanceEvents: vi.fn(),
+  getOrCreateSessionPerformance: vi.fn(),
+  updateSessionPerformance: vi.fn(),
+}));
+
+const owner = testUser({ openId: "owner" });
+const stranger = testUser({ id: 2, openId: "stranger" });
+
+describe("Session ownership", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getLearningSession).mockImplementation(async (sessionId) =>
+      sessionId === "owned-session"
+        ? sessionRow({ id: "owned-session", userId: owner.id, topic: "確率論" })
+        : null
+    );
+  });
+
+  it("should require login to create a session", async () => {
+    await expect(
+      sessionsRouter.createCaller(testContext(null)).create({ topic: "確率論" })
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    expect(createLearningSession).not.toHaveBeenCalled();
+  });
+
+  it("should record the creator as the session owner", async () => {
+    await sessionsRouter.createCaller(testContext(owner)).create({ topic: "確率論" });
+
+    expect(createLearningSession).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: owner.id, topic: "確率論" })
+    );
+  });
+
+  it("should let the owner read their chat logs", async () => {
+    await sessionsRouter
+      .createCaller(testContext(owner))
+      .getChatLogs({ sessionId: "owned-session" });
+
+    expect(getChatLogs).toHaveBeenCalledWith("owned-session");
+  });
+
+  it("should hide another user's session as not found", async () => {
+    const caller = sessionsRouter.createCaller(testContext(stranger));
+
+    await expect(caller.get({ sessionId: "owned-session" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    await expect(
+      caller.addMessage({ sessionId: "owned-session", sender: "user", content: "hi" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(addChatLog).not.toHaveBeenCalled();
+  });
+
+  it("should reject chat on a session owned by someone else", async () => {
+    await expect(
+      chatRouter
+        .createCaller(testContext(stranger))
+        .sendMessage({ sessionId: "owned-session", message: "微分とは？", clientMessageId: "msg-1" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("should reject research on a session owned by someone else", async () => {
+    await expect(
+      researchRouter
+        .createCaller(testContext(stranger))
+        .analyzeQuestion({ sessionId: "owned-session", question: "なぜ？" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("should scope note deletion to the owned session", async () => {
+    await learningRouter
+      .createCaller(testContext(owner))
+      .deleteNote({ sessionId: "owned-session", noteId: 5 });
+    expect(deleteNote).toHaveBeenCalledWith("owned-session", 5);
+
+    await expect(
+      learningRouter
+        .createCaller(testContext(stranger))
+        .deleteNote({ sessionId: "owned-session", noteId: 5 })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(deleteNote).toHaveBeenCalledTimes(1);
+  });
+
+  it("should treat unknown session IDs as not found", async () => {
+    await expect(
+      learningRouter.createCaller(testContext(owner)).getNotes({ sessionId: "missing" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { researchRouter } from "../research";
+import { invokeLLM } from "../../_core/llm";
+import { addChatLog, getChatLogs, getChatLogsAfter, getLearningSession } from "../../db";
+import { chatLogContent } from "../../chatHistory";
+import type { ChatLog } from "../../../drizzle/schema";
+import { chatLogRow, llmReply, sessionRow, testContext, testUser } from "../../__tests__/fixtures";
+
+vi.mock("../../_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock("../../db", () => ({
+  addChatLog: vi.fn(),
+  getChatLogs: vi.fn(),
+  getChatLogsAfter: vi.fn(),
+  getSessionSummary: vi.fn(),
+  upsertSessionSummary: vi.fn(),
+  getLearningSession: vi.fn(),
+}));
+
+const user = testUser();
+
+const createCaller = () => researchRouter.createCaller(testContext(user));
+
+const log = (id: number, contentType: ChatLog["contentType"], content: string) => chatLogRow({ id, content, contentType });
+
+describe("Research Router", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getLearningSession).mockResolvedValue(sessionRow({ topic: "ミクロ経済学" }));
+    vi.mocked(getChatLogs).mockResolvedValue([]);
+    vi.mocked(getChatLogsAfter).mockResolvedValue([]);
+  });
+
+  const scenario = (name: string, plot: unknown = null) => ({
+    name,
+    initialConditions: "労働市場は競争的",
+    equations: ["L = 100 - 2w"],
+    variables: [{ symbol: "w", meaning: "賃金" }],
+    predictedOutcome: "雇用が減少する",
+    assumptions: ["需要曲線は線形"],
+    plot,
+  });
+
+  const demandPlot = {
+    type: "line",
+    title: "労働需要",
+    xLabel: "賃金",
+    yLabel: "雇用量",
+    domain: { min: 0, max: 50 },
+    step: null,
+    functions: [{ name: "需要", expression: "100 - a*x" }],
+    parameters: [{ name: "a", value: 2, min: 1, max: 4, step: null }],
+  };
+
+  it("should request a json_schema response and save the scenarios as a research chat log", async () => {
+    const comparison = { scenarios: [scenario("競争市場", demandPlot), scenario("買い手独占")], comparison: "市場構造で結論が変わる" };
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply(JSON.stringify(comparison)));
+
+    const result = await createCaller().generateScenarios({
+      sessionId: "test-session-123",
+      scenario: "最低賃金を20%引き上げる",
+    });
+
+    expect(vi.mocked(invokeLLM).mock.calls[0][0].responseFormat).toMatchObject({
+      type: "json_schema",
+      json_schema: { name: "scenario_comparison" },
+    });
+    expect(result.scenarios).toEqual(comparison);
+    expect(result.entry).toMatchObject({ kind: "scenarios", prompt: "最低賃金を20%引き上げる", comparison });
+    expect(result.entry.body).toContain("### シナリオ2: 買い手独占");
+    expect(result.entry.body).toContain("### 比較\n市場構造で結論が変わる");
+    expect(addChatLog).toHaveBeenCalledWith({
+      sessionId: "test-session-123",
+      sender: "assistant",
+      content: JSON.stringify(result.entry),
+      contentType: "research",
+    });
+  });
+
+  it("should ask for a repair when a scenario plot uses undeclared symbols", async () => {
+    const badPlot = { ...demandPlot, parameters: [] };
+    const good = { scenarios: [scenario("A", demandPlot), scenario("B")], comparison: "比較" };
+    vi.mocked(invokeLLM)
+      .mockResolvedValueOnce(llmReply(JSON.stringify({ ...good, scenarios: [scenario("A", badPlot), scenario("B")] })))
+      .mockResolvedValueOnce(llmReply(JSON.stringify(good)));
+
+    const result = await createCaller().generateScenarios({ sessionId: "test-session-123", scenario: "増税" });
+
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+    expect(result.scenarios.scenarios[0].plot?.parameters).toHaveLength(1);
+  });
+
+  it("should report malformed scenarios without saving them", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply(JSON.stringify({ scenarios: [scenario("A")], comparison: "" })));
+
+    await expect(
+      createCaller().generateScenarios({ sessionId: "test-session-123", scenario: "増税" })
+    ).rejects.toMatchObject({ code: "UNPROCESSABLE_CONTENT" });
+    expect(addChatLog).not.toHaveBeenCalled();
+  });
+
+  it("should label real-world applications with both the theory and the context", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply("月々の返済額は…"));
+
+    const result = await createCaller().applyToRealWorld({
+      sessionId: "test-session-123",
+      theory: "複利計算",
+      context: "住宅ローン",
+    });
+
+    expect(result.entry).toEqual({ kind: "application", prompt: "複利計算 × 住宅ローン", body: "月々の返済額は…" });
+  });
+
+  it("should list only valid research entries from the chat log", async () => {
+    vi.mocked(getChatLogs).mockResolvedValue([
+      log(1, "text", "こんにちは"),
+      log(2, "research", JSON.stringify({ kind: "analysis", prompt: "なぜ？", body: "理由は…" })),
+      log(3, "research", "not json"),
+    ]);
+
+    const entries = await createCaller().getEntries({ sessionId: "test-session-123" });
+
+    expect(entries).toEqual([
+      { id: 2, createdAt: new Date(0), kind: "analysis", prompt: "なぜ？", body: "理由は…" },
+    ]);
+  });
+
+  it("should show earlier research results to the LLM as readable text", async () => {
+    const previous = log(1, "research", JSON.stringify({ kind: "scenarios", prompt: "増税", body: "消費が減る" }));
+    vi.mocked(getChatLogsAfter).mockResolvedValue([previous]);
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply("分析結果"));
+
+    await createCaller().analyzeQuestion({ sessionId: "test-session-123", question: "比較して" });
+
+    const messages = vi.mocked(invokeLLM).mock.calls[0][0].messages;
+    expect(messages[1]).toEqual({ role: "assistant", content: "【思考実験】増税\n\n消費が減る" });
+    expect(chatLogContent(log(2, "research", "broken"))).toBe("broken");
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { sessionsRouter } from "../sessions";
+import {
+  addChatLog,
+  deleteLearningSession,
+  getLearningSession,
+  listLearningSessions,
+  updateLearningSession,
+} from "../../db";
+import { sessionRow, testContext, testUser } from "../../__tests__/fixtures";
 
 // Mock the database functions
 vi.mock("../../db", () => ({
@@ -7,8 +15,18 @@ vi.mock("../../db", () => ({
   getLearningSession: vi.fn(),
   addChatLog: vi.fn(),
   getChatLogs: vi.fn(),
+  listLearningSessions: vi.fn(),
+  updateLearningSession: vi.fn(),
+  deleteLearningSession: vi.fn(),
 }));
 
+const user = testUser();
+
+const createCaller = () => sessionsRouter.createCaller(testContext(user));
+
+const fakeSessions = (count: number) =>
+  Array.from({ length: count }, (_, i) => sessionRow({ id: `session-${i}`, userId: user.id, topic: `トピック${i}` }));
+
 describe("Sessions Router", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -60,16 +78,75 @@ describe("Sessions Router", () => {
       expect(input.content).toBeTruthy();
     });
 
-    it("should add an assistant message to chat logs", async () => {
-      const input = {
-        sessionId: "test-session-123",
-        sender: "assistant" as const,
-        content: "微分は...",
-        contentType: "markdown" as const,
-      };
+    it("should reject assistant messages, which only the server writes", async () => {
+      vi.mocked(getLearningSession).mockResolvedValue(sessionRow());
+
+      await expect(
+        // @ts-expect-error the input type only allows user messages
+        createCaller().addMessage({ sessionId: "test-session-123", sender: "assistant", content: "微分は..." })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      expect(addChatLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("list", () => {
+    it("should return a page and a cursor for the next one", async () => {
+      vi.mocked(listLearningSessions).mockResolvedValue(fakeSessions(3));
+
+      const result = await createCaller().list({ limit: 2 });
+
+      expect(listLearningSessions).toHaveBeenCalledWith(user.id, {
+        search: undefined,
+        archived: false,
+        limit: 3,
+        offset: 0,
+      });
+      expect(result.sessions).toHaveLength(2);
+      expect(result.nextCursor).toBe(2);
+    });
+
+    it("should pass the search term and stop at the last page", async () => {
+      vi.mocked(listLearningSessions).mockResolvedValue(fakeSessions(1));
+
+      const result = await createCaller().list({ search: " 微分 ", limit: 2, cursor: 4 });
+
+      expect(listLearningSessions).toHaveBeenCalledWith(user.id, {
+        search: "微分",
+        archived: false,
+        limit: 3,
+        offset: 4,
+      });
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe("rename / archive / delete", () => {
+    beforeEach(() => {
+      vi.mocked(getLearningSession).mockResolvedValue(sessionRow({ id: "session-1" }));
+    });
+
+    it("should rename a session", async () => {
+      await createCaller().rename({ sessionId: "session-1", topic: "積分" });
+      expect(updateLearningSession).toHaveBeenCalledWith("session-1", { topic: "積分" });
+    });
+
+    it("should reject an empty topic", async () => {
+      await expect(
+        createCaller().rename({ sessionId: "session-1", topic: "  " })
+      ).rejects.toThrow();
+      expect(updateLearningSession).not.toHaveBeenCalled();
+    });
+
+    it("should archive and restore a session", async () => {
+      await createCaller().archive({ sessionId: "session-1", archived: true });
+      await createCaller().archive({ sessionId: "session-1", archived: false });
+      expect(updateLearningSession).toHaveBeenNthCalledWith(1, "session-1", { archived: 1 });
+      expect(updateLearningSession).toHaveBeenNthCalledWith(2, "session-1", { archived: 0 });
+    });
 
-      expect(input.sender).toBe("assistant");
-      expect(input.contentType).toBe("markdown");
+    it("should delete a session", async () => {
+      await createCaller().delete({ sessionId: "session-1" });
+      expect(deleteLearningSession).toHaveBeenCalledWith("session-1");
     });
   });
 });
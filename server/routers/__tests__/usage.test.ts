@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { usageRouter } from "../usage";
+import { getLlmUsageSummary, sumUserTokensSince, updateUserDailyTokenQuota } from "../../db";
+import { testContext, testUser } from "../../__tests__/fixtures";
+import type { User } from "../../../drizzle/schema";
+
+vi.mock("../../db", () => ({
+  getLlmUsageSummary: vi.fn(),
+  sumUserTokensSince: vi.fn(),
+  updateUserDailyTokenQuota: vi.fn(),
+}));
+
+const user = testUser({ dailyTokenQuota: 20000 });
+const admin = testUser({ id: 2, openId: "admin-1", role: "admin" });
+
+const createCaller = (ctxUser: User | null) => usageRouter.createCaller(testContext(ctxUser));
+
+describe("Usage Router", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should report today's usage against the user's quota", async () => {
+    vi.mocked(sumUserTokensSince).mockResolvedValue(1200);
+
+    const usage = await createCaller(user).me();
+
+    expect(usage).toEqual({ used: 1200, quota: 20000 });
+    const [userId, since] = vi.mocked(sumUserTokensSince).mock.calls[0];
+    expect(userId).toBe(1);
+    expect(since.getHours()).toBe(0);
+  });
+
+  it("should aggregate usage for admins, converting MySQL decimals", async () => {
+    const row = { calls: 3, failures: "1", promptTokens: "900", completionTokens: "300", avgLatencyMs: "812.4" };
+    vi.mocked(getLlmUsageSummary).mockResolvedValue({
+      totals: row,
+      byDay: [{ day: "2026-10-19", ...row }],
+      byProcedure: [{ procedure: "chat.streamMessage", ...row }],
+      byUser: [{ userId: 1, name: "学生", dailyTokenQuota: null, ...row }],
+    });
+
+    const summary = await createCaller(admin).summary({ days: 7 });
+
+    expect(summary.totals).toEqual({
+      calls: 3,
+      failures: 1,
+      promptTokens: 900,
+      completionTokens: 300,
+      totalTokens: 1200,
+      avgLatencyMs: 812,
+    });
+    expect(summary.byProcedure[0].procedure).toBe("chat.streamMessage");
+    expect(summary.byUser[0]).toMatchObject({ userId: 1, totalTokens: 1200 });
+  });
+
+  it("should let admins set a user's quota", async () => {
+    await createCaller(admin).setUserQuota({ userId: 1, dailyTokenQuota: 50000 });
+    expect(updateUserDailyTokenQuota).toHaveBeenCalledWith(1, 50000);
+  });
+
+  it("should keep the dashboard and quota settings admin-only", async () => {
+    await expect(createCaller(user).summary({ days: 7 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(
+      createCaller(user).setUserQuota({ userId: 1, dailyTokenQuota: null })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(updateUserDailyTokenQuota).not.toHaveBeenCalled();
+  });
+});
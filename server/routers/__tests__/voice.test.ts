@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { voiceRouter } from "../voice";
+import { transcribeAudio } from "../../_core/voiceTranscription";
+import { storagePut } from "../../storage";
+import { MAX_VOICE_BYTES } from "@shared/voice";
+import { testContext, testUser } from "../../__tests__/fixtures";
+import type { User } from "../../../drizzle/schema";
+
+vi.mock("../../_core/voiceTranscription", () => ({
+  transcribeAudio: vi.fn(),
+}));
+
+vi.mock("../../storage", () => ({
+  storagePut: vi.fn(),
+}));
+
+const user = testUser();
+
+const createCaller = (ctxUser: User | null = user) => voiceRouter.createCaller(testContext(ctxUser));
+
+const input = {
+  audio: Buffer.from("fake-webm").toString("base64"),
+  mimeType: "audio/webm" as const,
+  durationMs: 4200,
+};
+
+const whisperResult = (overrides: object = {}) => ({
+  task: "transcribe" as const,
+  language: "japanese",
+  duration: 4.2,
+  text: " 二次関数の頂点の求め方を教えてください ",
+  segments: [
+    {
+      id: 0,
+      seek: 0,
+      start: 0,
+      end: 4.2,
+      text: " 二次関数の頂点の求め方を教えてください",
+      tokens: [],
+      temperature: 0,
+      avg_logprob: -0.2,
+      compression_ratio: 1,
+      no_speech_prob: 0.01,
+    },
+  ],
+  ...overrides,
+});
+
+describe("Voice Router", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storagePut).mockResolvedValue({ key: "voice/1/a.webm", url: "https://storage.example/voice/1/a.webm" });
+    vi.mocked(transcribeAudio).mockResolvedValue(whisperResult());
+  });
+
+  it("should upload the recording and return the transcript with the detected language", async () => {
+    const result = await createCaller().transcribe(input);
+
+    const [key, data, contentType] = vi.mocked(storagePut).mock.calls[0];
+    expect(key).toMatch(/^voice\/1\/.+\.webm$/);
+    expect(Buffer.from(data as Buffer).toString()).toBe("fake-webm");
+    expect(contentType).toBe("audio/webm");
+    expect(transcribeAudio).toHaveBeenCalledWith(
+      expect.objectContaining({ audioUrl: "https://storage.example/voice/1/a.webm" })
+    );
+
+    expect(result).toEqual({
+      text: "二次関数の頂点の求め方を教えてください",
+      language: "ja",
+      duration: 4.2,
+      segments: [{ start: 0, end: 4.2, text: "二次関数の頂点の求め方を教えてください" }],
+    });
+  });
+
+  it("should report languages other than Japanese and English as null", async () => {
+    vi.mocked(transcribeAudio).mockResolvedValue(whisperResult({ language: "english" }));
+    expect((await createCaller().transcribe(input)).language).toBe("en");
+
+    vi.mocked(transcribeAudio).mockResolvedValue(whisperResult({ language: "french" }));
+    expect((await createCaller().transcribe(input)).language).toBeNull();
+  });
+
+  it("should reject recordings over the duration limit before uploading", async () => {
+    await expect(createCaller().transcribe({ ...input, durationMs: 10 * 60 * 1000 })).rejects.toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+    });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  it("should reject recordings over the size limit before uploading", async () => {
+    const audio = Buffer.alloc(MAX_VOICE_BYTES + 1).toString("base64");
+
+    await expect(createCaller().transcribe({ ...input, audio })).rejects.toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+    });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  it("should reject recordings whose transcribed length exceeds the limit", async () => {
+    vi.mocked(transcribeAudio).mockResolvedValue(whisperResult({ duration: 300 }));
+
+    await expect(createCaller().transcribe(input)).rejects.toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+  });
+
+  it("should map transcription errors to tRPC error codes", async () => {
+    vi.mocked(transcribeAudio).mockResolvedValue({
+      error: "Audio file exceeds maximum size limit",
+      code: "FILE_TOO_LARGE",
+      details: "File size is 17.00MB, maximum allowed is 16MB",
+    });
+    await expect(createCaller().transcribe(input)).rejects.toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+      message: "Audio file exceeds maximum size limit",
+    });
+
+    vi.mocked(transcribeAudio).mockResolvedValue({
+      error: "Transcription service request failed",
+      code: "TRANSCRIPTION_FAILED",
+    });
+    await expect(createCaller().transcribe(input)).rejects.toMatchObject({ code: "BAD_GATEWAY" });
+  });
+
+  it("should report a failed upload without calling the transcription service", async () => {
+    vi.mocked(storagePut).mockRejectedValue(new Error("Storage upload failed (500)"));
+
+    await expect(createCaller().transcribe(input)).rejects.toMatchObject({
+      code: "BAD_GATEWAY",
+      message: "Failed to upload the recording",
+    });
+    expect(transcribeAudio).not.toHaveBeenCalled();
+  });
+
+  it("should require a signed-in user", async () => {
+    await expect(createCaller(null).transcribe(input)).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
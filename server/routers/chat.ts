@@ -1,173 +1,263 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
-import { invokeLLM, Message } from "../_core/llm";
-import { getChatLogs, updateSessionPerformance } from "../db";
+import { TRPCError } from "@trpc/server";
+import { router } from "../_core/trpc";
+import { llmSessionProcedure } from "../sessionProcedure";
+import { Message } from "../_core/llm";
+import {
+  ChatTurnLog,
+  getChatTurn,
+  getPracticeProblem,
+  saveChatTurn,
+  updateSessionPerformance,
+} from "../db";
+import { mathFormattingRules, MathNotation } from "../mathFormatting";
+import { invokeStructured, toStructuredOutputTRPCError } from "../structuredOutput";
+import { plotSpecSchema, samplePlot } from "@shared/plotting";
+import { GraphData, parseGraphData } from "@shared/graph";
+import { MAX_PHOTO_BYTES, parsePhotoEntry, PHOTO_MIME_TYPES, PhotoEntry } from "@shared/photo";
+import { buildHistory } from "../chatHistory";
+import type { LLMCaller } from "../llmUsage";
+import { runAgent, streamAgent } from "../agent";
+import { createTutorTools, TutorToolContext } from "../tutorTools";
+import { formatHandwritingFeedback, reviewHandwriting, storePhoto } from "../handwriting";
+import {
+  AnswerVerdict,
+  applyPracticeProblemResult,
+  ChatAnswerGrade,
+  checkPracticeAnswer,
+  gradeChatAnswer,
+} from "../grading";
+
+// Expected LLM output for a free-form answer evaluation
+const answerEvaluationSchema = z.object({
+  isCorrect: z.boolean(),
+  feedback: z.string(),
+});
+
+// Build the tutor system prompt for the user's preferred math notation
+function buildSystemPrompt(notation: MathNotation) {
+  const mathGuideline =
+    notation === "plain"
+      ? "Your goal is to make mathematics accessible and understandable through clear language, not through mathematical notation. NEVER use $ symbols or LaTeX commands."
+      : "Your goal is to make mathematics accessible and understandable. Pair clear explanations with properly typeset LaTeX math.";
 
-const SYSTEM_PROMPT = `You are Math Mentor, an expert mathematics tutor. Your role is to help students understand mathematical concepts clearly and comprehensively.
+  return `You are Math Mentor, an expert mathematics tutor. Your role is to help students understand mathematical concepts clearly and comprehensively.
 
 CRITICAL FORMATTING RULES (MUST FOLLOW):
-- NEVER use LaTeX notation: no $...$ or \\...
-- NEVER use mathematical symbols like \\sin, \\cos, \\tan, \\theta, \\pi, \\frac, \\sqrt, etc.
-- NEVER use superscripts (^) or subscripts (_)
 - NEVER use markdown bold notation: no **text** or __text__
 - NEVER use markdown italic notation: no *text* or _text_
 - NEVER use markdown headers: no # or ##
-- Write ALL mathematical expressions in plain text
 - Use parentheses or Japanese quotation marks (「」) for emphasis instead of ** or *
 
-Examples of CORRECT formatting:
-- Instead of "$\\sin\\theta$", write "sin(theta)" or "サインシータ"
-- Instead of "$\\cos x$", write "cos(x)" or "コサインx"
-- Instead of "$x^2$", write "xの2乗" or "x squared"
-- Instead of "$\\frac{1}{2}$", write "1/2" or "2分の1"
-- Instead of "$\\sqrt{x}$", write "xの平方根" or "sqrt(x)"
-- Instead of "$\\pi$", write "円周率π" or "pi"
-- Instead of "$\\int f(x)dx$", write "f(x)の積分" or "integral of f(x)"
-- Instead of "$\\frac{dy}{dx}$", write "yのxによる微分" or "derivative of y with respect to x"
+${mathFormattingRules(notation)}
 
 Guidelines:
-1. Provide clear, step-by-step explanations using simple text
+1. Provide clear, step-by-step explanations
 2. Include practical examples when relevant
 3. Break down complex concepts into simpler parts
 4. Encourage understanding over memorization
 5. Respond in Japanese when the user communicates in Japanese
 6. Use clear, descriptive language to explain mathematical ideas
-7. When the user asks for graphs or visualizations, provide data in a structured format (JSON) that can be used to generate charts
-
-Remember: Your goal is to make mathematics accessible and understandable through clear language, not through mathematical notation. NEVER use $ symbols or LaTeX commands.`;
-
-// Helper function to detect if a user answer is correct
-function detectAnswerCorrectness(userMessage: string, aiResponse: string): boolean | null {
-  // Check for explicit correctness indicators in AI response
-  // Order matters: check incorrect patterns FIRST to avoid false positives
-  
-  // Incorrect patterns - check these first
-  const incorrectPatterns = [
-    /不正解/i,
-    /間違い/i,
-    /残念/i,
-    /惜しい/i,
-    /もう少し/i,
-    /違います/i,
-    /正しくありません/i,
-    /正しくない/i,
-    /誤り/i,
-    /違って/i,
-    /ではありません/i,
-    /ではない/i,
-    /ちょっと違/i,
-    /実は/i,
-    /正解は/i,
-    /incorrect/i,
-    /wrong/i,
-    /not correct/i,
-    /not right/i,
-    /not quite/i,
-    /unfortunately/i,
+7. Do not compute in your head: use the "calculate" tool for arithmetic, "symbolic" for simplifying and differentiating, and "simulate_economic_model" for the built-in economics models, then explain the results
+8. When a graph would help or the user asks for one, show it with "plot_function" (or a model's graph) instead of writing data in your reply
+
+Remember: ${mathGuideline}`;
+}
+
+// Build the LLM message list for a chat turn from the session summary and recent history
+async function buildChatMessages(
+  sessionId: string,
+  message: string,
+  notation: MathNotation,
+  verdict: AnswerVerdict | null,
+  caller: LLMCaller
+): Promise<Message[]> {
+  const chatHistory = await buildHistory(sessionId, { caller });
+
+  return [
+    {
+      role: "system",
+      content: buildSystemPrompt(notation),
+    },
+    ...chatHistory,
+    ...(verdict ? [{ role: "system" as const, content: verdictInstruction(verdict) }] : []),
+    {
+      role: "user",
+      content: message,
+    },
   ];
-  
-  for (const pattern of incorrectPatterns) {
-    if (pattern.test(aiResponse)) {
-      return false;
-    }
-  }
-  
-  // Correct patterns - check these after incorrect patterns
-  const correctPatterns = [
-    /正解です/i,
-    /正しいです/i,
-    /その通り/i,
-    /完璧/i,
-    /素晴らしい/i,
-    /よくできました/i,
-    /お見事/i,
-    /正解！/i,
-    /合っています/i,
-    /excellent/i,
-    /correct/i,
-    /that's right/i,
-    /well done/i,
-    /good job/i,
-    /exactly/i,
+}
+
+// Tell the tutor how the grader judged the message so the reply agrees with the recorded verdict
+function verdictInstruction(verdict: AnswerVerdict) {
+  const item = verdict.itemType === "quiz" ? "quiz" : "practice problem";
+  return `The student's message is an answer to a pending ${item}. It has been graded as ${
+    verdict.isCorrect ? "CORRECT" : "INCORRECT"
+  }. Grader feedback: ${verdict.feedback}
+Your reply must agree with this verdict: state clearly whether the answer is correct, then explain why.`;
+}
+
+// Ask the LLM to judge an answer that cannot be checked deterministically (e.g. a proof)
+async function evaluateWithLLM(
+  sessionId: string,
+  question: string,
+  userAnswer: string,
+  referenceSolution: string | null,
+  caller: LLMCaller
+) {
+  // Get chat history for context
+  const chatHistory = await buildHistory(sessionId, { maxTokens: 2000, caller });
+
+  const systemPrompt = `You are a mathematics educator evaluating student answers.
+
+Evaluate the student's answer to the following question:
+Question: ${question}
+Student's Answer: ${userAnswer}${referenceSolution ? `\nReference Solution: ${referenceSolution}` : ""}
+
+Decide whether the answer is mathematically correct and write feedback in Japanese:
+a brief explanation of why it is correct or incorrect and, if incorrect, guidance on the correct approach.
+
+Be encouraging and supportive in your response.`;
+
+  const messages: Message[] = [
+    {
+      role: "system",
+      content: systemPrompt,
+    },
+    ...chatHistory,
   ];
-  
-  for (const pattern of correctPatterns) {
-    if (pattern.test(aiResponse)) {
-      return true;
+
+  return invokeStructured(
+    { messages, maxTokens: 1024, caller },
+    { name: "answer_evaluation", schema: answerEvaluationSchema }
+  );
+}
+
+// Idempotency key the client generates per message and reuses when retrying it
+const clientMessageIdSchema = z.string().min(1).max(64);
+
+// Chat logs of a turn, in conversation order: the user message, graphs, then the reply
+const userLog = (content: string): ChatTurnLog => ({ sender: "user", content, contentType: "text" });
+const graphLog = (graph: GraphData): ChatTurnLog => ({
+  sender: "assistant",
+  content: JSON.stringify(graph),
+  contentType: "json",
+});
+const replyLog = (content: string): ChatTurnLog => ({ sender: "assistant", content, contentType: "markdown" });
+const photoLog = (photo: PhotoEntry): ChatTurnLog => ({
+  sender: "user",
+  content: JSON.stringify(photo),
+  contentType: "image",
+});
+
+// Reply and graphs of a turn that was saved earlier under the same idempotency key
+function storedTurn(logs: ChatTurnLog[]) {
+  const reply = logs[logs.length - 1];
+  return {
+    reply: reply?.content ?? "",
+    graphs: logs.slice(1).flatMap((log) => {
+      const graph = log.contentType === "json" ? parseGraphData(log.content) : null;
+      return graph ? [graph] : [];
+    }),
+  };
+}
+
+// Save a turn in one transaction. If a concurrent request with the same key
+// saved first, its turn is returned instead so both requests agree, and only
+// the request that saved the turn records its answer grade.
+async function persistTurn(
+  sessionId: string,
+  clientMessageId: string,
+  logs: ChatTurnLog[],
+  grade?: ChatAnswerGrade | null
+) {
+  if (!(await saveChatTurn(sessionId, clientMessageId, logs))) {
+    const existing = await getChatTurn(sessionId, clientMessageId);
+    return storedTurn(existing ? existing.logs : logs);
+  }
+  if (grade) {
+    try {
+      await grade.record();
+    } catch (error) {
+      console.error("Failed to record chat answer grade:", error);
     }
   }
-  
-  // If no explicit indicator, return null (no answer detected)
-  return null;
+  return storedTurn(logs);
 }
 
 export const chatRouter = router({
-  // Send a message and get AI response
-  sendMessage: publicProcedure
+  // Send a message and get the AI response. The message, graphs shown by tools
+  // and the reply are saved together once the reply is complete.
+  sendMessage: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         message: z.string(),
+        clientMessageId: clientMessageIdSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      try {
-        // Get previous chat history
-        const chatHistory = await getChatLogs(input.sessionId);
-
-        // Build message history for LLM
-        const messages: Message[] = [
-          {
-            role: "system",
-            content: SYSTEM_PROMPT,
-          },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
-          {
-            role: "user",
-            content: input.message,
-          },
-        ];
-
-        // Call LLM API
-        const result = await invokeLLM({
-          messages,
-          maxTokens: 2048,
-        });
+    .mutation(async ({ ctx, input }) => {
+      // A retried request gets the turn saved by the first attempt
+      const existing = await getChatTurn(input.sessionId, input.clientMessageId);
+      if (existing) {
+        const turn = storedTurn(existing.logs);
+        return {
+          response: turn.reply,
+          contentType: "markdown" as const,
+          isAnswerEvaluation: false,
+          isCorrect: null,
+          verdict: null,
+          graphs: turn.graphs,
+          toolCalls: [],
+          replayed: true,
+        };
+      }
 
-        if (!result || !result.choices || result.choices.length === 0) {
-          console.error("Invalid LLM response:", result);
-          throw new Error("Failed to get AI response: Invalid LLM response");
-        }
+      try {
+        // Grade first so the reply can be written to match the verdict; the
+        // grade is recorded with the turn
+        const grade = await gradeChatAnswer(
+          { userId: ctx.user.id, sessionId: input.sessionId, topic: ctx.session.topic },
+          input.message,
+          ctx.caller
+        );
+        const verdict = grade?.verdict ?? null;
+        const messages = await buildChatMessages(
+          input.sessionId,
+          input.message,
+          ctx.user.mathNotation,
+          verdict,
+          ctx.caller
+        );
 
-        // Extract response
-        const assistantMessage = result.choices[0]?.message?.content;
+        // Let the tutor call tools before answering
+        const toolContext: TutorToolContext = { graphs: [] };
+        const { content: assistantMessage, steps } = await runAgent(
+          { messages, maxTokens: 2048, caller: ctx.caller },
+          createTutorTools(toolContext)
+        );
 
-        if (!assistantMessage || typeof assistantMessage !== "string") {
+        if (!assistantMessage) {
           console.error("Invalid response content:", assistantMessage);
           throw new Error("Failed to get AI response: Empty or invalid response content");
         }
 
-        // Detect if this is an answer evaluation
-        const isAnswerCorrect = detectAnswerCorrectness(input.message, assistantMessage);
-        
-        // If an answer was detected, update session performance
-        if (isAnswerCorrect !== null) {
-          try {
-            await updateSessionPerformance(input.sessionId, isAnswerCorrect);
-          } catch (error) {
-            console.error("Failed to update session performance:", error);
-            // Continue anyway, don't fail the response
-          }
-        }
-        
+        const turn = await persistTurn(
+          input.sessionId,
+          input.clientMessageId,
+          [userLog(input.message), ...toolContext.graphs.map(graphLog), replyLog(assistantMessage)],
+          grade
+        );
+
         return {
-          response: assistantMessage,
+          response: turn.reply,
           contentType: "markdown" as const,
-          isAnswerEvaluation: isAnswerCorrect !== null,
-          isCorrect: isAnswerCorrect,
+          isAnswerEvaluation: verdict !== null,
+          isCorrect: verdict?.isCorrect ?? null,
+          verdict,
+          // Graphs shown by tools, saved before the reply
+          graphs: turn.graphs,
+          toolCalls: steps.map((step) => step.tool),
+          replayed: false,
         };
       } catch (error) {
         console.error("Failed to get AI response:", error);
@@ -177,74 +267,163 @@ export const chatRouter = router({
       }
     }),
 
-  // Evaluate a quiz/practice answer
-  evaluateAnswer: publicProcedure
+  // Stream the AI response token by token. Graphs shown by tools are sent as
+  // they are created. The turn is saved once the stream completes, or with
+  // whatever was received if the client aborts; nothing is saved without a reply.
+  streamMessage: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
-        question: z.string(),
-        userAnswer: z.string(),
+        message: z.string(),
+        clientMessageId: clientMessageIdSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      try {
-        // Get chat history for context
-        const chatHistory = await getChatLogs(input.sessionId);
-
-        const systemPrompt = `You are a mathematics educator evaluating student answers.
-
-Evaluate the student's answer to the following question:
-Question: ${input.question}
-Student's Answer: ${input.userAnswer}
-
-Respond with:
-1. Whether the answer is correct (start with "正解です" for correct or "不正解です" for incorrect)
-2. Brief explanation of why it's correct or incorrect
-3. If incorrect, provide guidance on the correct approach
-
-Be encouraging and supportive in your response.`;
+    .subscription(async function* ({ ctx, input, signal }) {
+      // A retried request replays the turn saved by the first attempt
+      const existing = await getChatTurn(input.sessionId, input.clientMessageId);
+      if (existing) {
+        const turn = storedTurn(existing.logs);
+        for (const graph of turn.graphs) {
+          yield { type: "graph" as const, graph };
+        }
+        yield { type: "delta" as const, text: turn.reply };
+        yield {
+          type: "done" as const,
+          contentType: "markdown" as const,
+          isAnswerEvaluation: false,
+          isCorrect: null,
+          verdict: null,
+          replayed: true,
+        };
+        return;
+      }
 
-        const messages: Message[] = [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
-        ];
+      const grade = await gradeChatAnswer(
+        { userId: ctx.user.id, sessionId: input.sessionId, topic: ctx.session.topic },
+        input.message,
+        ctx.caller
+      );
+      const verdict = grade?.verdict ?? null;
+      const messages = await buildChatMessages(
+        input.sessionId,
+        input.message,
+        ctx.user.mathNotation,
+        verdict,
+        ctx.caller
+      );
+
+      const toolContext: TutorToolContext = { graphs: [] };
+      let content = "";
+      let persisted = false;
+      const persistReply = async () => {
+        if (persisted || !content) return;
+        persisted = true;
+        await persistTurn(
+          input.sessionId,
+          input.clientMessageId,
+          [userLog(input.message), ...toolContext.graphs.map(graphLog), replyLog(content)],
+          grade
+        );
+      };
 
-        const result = await invokeLLM({
-          messages,
-          maxTokens: 1024,
-        });
+      try {
+        const stream = streamAgent(
+          { messages, maxTokens: 2048, caller: ctx.caller },
+          createTutorTools(toolContext),
+          {},
+          signal
+        );
+        let graphsSent = 0;
+        for await (const event of stream) {
+          if (event.type === "delta") {
+            content += event.text;
+            yield { type: "delta" as const, text: event.text };
+          } else if (event.type === "discard") {
+            content = "";
+            yield { type: "discard" as const };
+          }
+          while (graphsSent < toolContext.graphs.length) {
+            yield { type: "graph" as const, graph: toolContext.graphs[graphsSent++] };
+          }
+        }
 
-        if (!result || !result.choices || result.choices.length === 0) {
-          throw new Error("Failed to get AI evaluation");
+        if (!content) {
+          throw new Error("Failed to get AI response: Empty response content");
         }
 
-        const evaluation = result.choices[0]?.message?.content;
+        await persistReply();
 
-        if (!evaluation || typeof evaluation !== "string") {
-          throw new Error("Invalid evaluation response");
+        yield {
+          type: "done" as const,
+          contentType: "markdown" as const,
+          isAnswerEvaluation: verdict !== null,
+          isCorrect: verdict?.isCorrect ?? null,
+          verdict,
+          replayed: false,
+        };
+      } finally {
+        try {
+          await persistReply();
+        } catch (error) {
+          console.error("Failed to save streamed reply:", error);
         }
+      }
+    }),
 
-        // Detect correctness from evaluation
-        const isCorrect = detectAnswerCorrectness(input.userAnswer, evaluation);
+  // Evaluate a quiz/practice answer. Answers to a stored practice problem are
+  // checked against its answer spec first; the LLM only judges free-form answers.
+  evaluateAnswer: llmSessionProcedure
+    .input(
+      z.object({
+        question: z.string(),
+        userAnswer: z.string(),
+        problemId: z.number().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const problem =
+        input.problemId === undefined
+          ? null
+          : await getPracticeProblem(input.sessionId, input.problemId);
+      if (input.problemId !== undefined && !problem) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Practice problem not found" });
+      }
 
-        // Update session performance
-        if (isCorrect !== null) {
+      try {
+        const checked = problem ? checkPracticeAnswer(problem, input.userAnswer) : null;
+        const { isCorrect, feedback } =
+          checked !== null
+            ? {
+                isCorrect: checked,
+                feedback: checked
+                  ? "正解です！"
+                  : "不正解です。計算をもう一度見直してみましょう。",
+              }
+            : await evaluateWithLLM(
+                input.sessionId,
+                problem?.problemText ?? input.question,
+                input.userAnswer,
+                problem?.solution ?? null,
+                ctx.caller
+              );
+
+        if (problem) {
+          await applyPracticeProblemResult(
+            { userId: ctx.user.id, sessionId: input.sessionId, topic: ctx.session.topic },
+            problem,
+            isCorrect
+          );
+        } else {
           try {
-            await updateSessionPerformance(input.sessionId, isCorrect);
+            await updateSessionPerformance(input.sessionId, isCorrect, { source: "question" });
           } catch (error) {
             console.error("Failed to update session performance:", error);
           }
         }
 
         return {
-          evaluation,
-          isCorrect: isCorrect ?? false,
+          evaluation: feedback,
+          isCorrect,
+          method: checked !== null ? ("symbolic" as const) : ("llm" as const),
         };
       } catch (error) {
         console.error("Failed to evaluate answer:", error);
@@ -254,71 +433,119 @@ Be encouraging and supportive in your response.`;
       }
     }),
 
-  // Generate graph data for visualization
-  generateGraphData: publicProcedure
+  // Have the LLM describe a function plot, compute its series on the server and
+  // persist the graph as a "json" chat log so it is restored with the conversation
+  generateGraphData: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
-        description: z.string(),
+        description: z.string().min(1),
+        clientMessageId: clientMessageIdSchema,
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      // A retried request gets the graph saved by the first attempt
+      const existing = await getChatTurn(input.sessionId, input.clientMessageId);
+      const storedGraph = existing ? storedTurn(existing.logs).graphs[0] : undefined;
+      if (storedGraph) {
+        return storedGraph;
+      }
+
       try {
         // Get chat history for context
-        const chatHistory = await getChatLogs(input.sessionId);
+        const chatHistory = await buildHistory(input.sessionId, { maxTokens: 2000, caller: ctx.caller });
 
         const messages: Message[] = [
           {
             role: "system",
-            content: `You are a mathematics visualization expert. Generate JSON data for graphs and charts based on mathematical concepts.
-            
-When asked to create a graph, respond with ONLY valid JSON in this format:
-{
-  "type": "line|bar|scatter|area",
-  "title": "Graph Title",
-  "xAxis": { "label": "X Axis Label", "data": [...] },
-  "yAxis": { "label": "Y Axis Label" },
-  "series": [
-    {
-      "name": "Series Name",
-      "data": [...]
-    }
-  ]
-}
-
-Make sure the JSON is valid and complete.`,
+            content: `You are a mathematics visualization expert. Describe the graph to draw; the data points are computed from your description, so do NOT compute any values yourself.
+
+Respond with a JSON object with:
+- "type": "line" or "area" for curves, "bar" or "scatter" for values at discrete x (e.g. probability distributions)
+- "title": the graph title (in Japanese when the user writes Japanese)
+- "xLabel", "yLabel": axis labels
+- "domain": { "min", "max" }: the x range to plot
+- "step": null for continuous curves, or the spacing of the discrete x values (e.g. 1)
+- "functions": 1-6 objects with "name" (legend label) and "expression": y as a function of x in mathjs syntax (e.g. "sin(x)", "a*x^2 + b", "100 - 2*x", "combinations(n, x) * p^x * (1-p)^(n-x)")
+- "parameters": named constants used in the expressions (e.g. slope, intercept, price, p). The student can adjust each one with a slider, so prefer parameters over hard-coded numbers when varying them teaches something (shifting a supply curve, changing a slope). Each is { "name", "value", "min", "max", "step" } where min-max is a range worth exploring and "step" is the slider increment (null for continuous). Use [] when there are none. Do not name a parameter x, e or pi.`,
           },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
+          ...chatHistory,
           {
             role: "user",
             content: `Generate graph data for: ${input.description}`,
           },
         ];
 
-        const result = await invokeLLM({
-          messages,
-          maxTokens: 2048,
-          responseFormat: { type: "json_object" },
-        });
+        const plot = await invokeStructured(
+          { messages, maxTokens: 2048, caller: ctx.caller },
+          { name: "plot_spec", schema: plotSpecSchema }
+        );
+        const graphData = samplePlot(plot);
+
+        // The request is saved as the user's message, together with the graph
+        const turn = await persistTurn(input.sessionId, input.clientMessageId, [
+          userLog(`グラフ化: ${input.description}`),
+          graphLog(graphData),
+        ]);
+        return turn.graphs[0] ?? graphData;
+      } catch (error) {
+        console.error("Failed to generate graph data:", error);
+        throw toStructuredOutputTRPCError(error, "Failed to generate graph data");
+      }
+    }),
 
-        const responseText = result.choices[0]?.message?.content || "";
+  // Check a photo of handwritten work. The photo is stored and saved as the
+  // user's message; the reply goes through the solution line by line and
+  // points out the first incorrect line.
+  analyzePhoto: llmSessionProcedure
+    .input(
+      z.object({
+        // Base64-encoded image, without the data: URL prefix
+        image: z.string().min(1).max(Math.ceil(MAX_PHOTO_BYTES / 3) * 4),
+        mimeType: z.enum(PHOTO_MIME_TYPES),
+        // Text typed with the photo, e.g. which problem it solves
+        note: z.string().max(2000).default(""),
+        clientMessageId: clientMessageIdSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // A retried request gets the turn saved by the first attempt
+      const existing = await getChatTurn(input.sessionId, input.clientMessageId);
+      const storedPhoto = existing ? parsePhotoEntry(existing.logs[0]?.content ?? "") : null;
+      if (existing && storedPhoto) {
+        return { reply: storedTurn(existing.logs).reply, photo: storedPhoto, replayed: true };
+      }
 
-        if (typeof responseText !== "string") {
-          throw new Error("Unexpected response format from LLM");
-        }
+      const data = Buffer.from(input.image, "base64");
+      if (data.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The photo is empty" });
+      }
 
-        // Parse JSON response
-        const graphData = JSON.parse(responseText);
+      try {
+        const { key, url } = await storePhoto(input.sessionId, data, input.mimeType);
+        const feedback = await reviewHandwriting({
+          sessionId: input.sessionId,
+          imageUrl: url,
+          note: input.note,
+          notation: ctx.user.mathNotation,
+          caller: ctx.caller,
+        });
+
+        const photo: PhotoEntry = {
+          url,
+          key,
+          mimeType: input.mimeType,
+          note: input.note,
+          transcription: feedback.lines.map((line) => line.text),
+        };
+        const turn = await persistTurn(input.sessionId, input.clientMessageId, [
+          photoLog(photo),
+          replyLog(formatHandwritingFeedback(feedback)),
+        ]);
 
-        return graphData;
+        return { reply: turn.reply, photo, replayed: false };
       } catch (error) {
-        console.error("Failed to generate graph data:", error);
-        throw new Error(
-          `Failed to generate graph data: ${error instanceof Error ? error.message : "Unknown error"}`
-        );
+        console.error("Failed to check handwritten work:", error);
+        throw toStructuredOutputTRPCError(error, "Failed to check handwritten work");
       }
     }),
 });
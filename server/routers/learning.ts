@@ -1,21 +1,104 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
-import { invokeLLM, Message } from "../_core/llm";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { llmSessionProcedure, sessionProcedure } from "../sessionProcedure";
+import { Message } from "../_core/llm";
+import { invokeStructured, toStructuredOutputTRPCError } from "../structuredOutput";
+import { mathFormattingRules } from "../mathFormatting";
+import { buildHistory } from "../chatHistory";
+import { nextReviewSchedule, reviewDueDate, ReviewRating } from "../spacedRepetition";
+import { getTopicMastery, normalizeSkill, parseSkills, recordMasteryResult } from "../mastery";
+import { applyPracticeProblemResult, applyQuizResult, isGradableQuiz } from "../grading";
+import { buildPerformanceHistory } from "../performanceHistory";
+import { answerSpecSchema, isCheckableSpec } from "../answerChecker";
 import {
   createPracticeProblem,
   getPracticeProblems,
+  getPracticeProblem,
+  updatePracticeProblemSolved,
   createQuiz,
   getQuizzes,
-  updateQuizAnswer,
+  getQuiz,
+  createQuizAttempt,
+  getQuizAttempts,
   createNote,
   getNotes,
   deleteNote,
-  getChatLogs,
   getOrCreateSessionPerformance,
   updateSessionPerformance,
   getSessionPerformance,
+  getPerformanceEvents,
+  getDueReviewItems,
+  countDueReviewItems,
+  getReviewItem,
+  updateReviewItemSchedule,
+  addChatLog,
 } from "../db";
 
+const skillTagsSchema = z.array(z.string().min(1).max(64)).min(1).max(3);
+
+// Expected LLM output for generated practice problems
+const practiceProblemsSchema = (count: number) =>
+  z.object({
+    problems: z
+      .array(
+        z.object({
+          problem: z.string().min(1),
+          solution: z.string().min(1),
+          skills: skillTagsSchema,
+          answerSpec: answerSpecSchema,
+        })
+      )
+      .length(count),
+  });
+
+// Expected LLM output for generated multiple-choice quizzes
+const quizzesSchema = (count: number) =>
+  z.object({
+    quizzes: z
+      .array(
+        z.object({
+          question: z.string().min(1),
+          options: z.array(z.string().min(1)).length(4),
+          correctIndex: z.number().int().min(0).max(3),
+          explanation: z.string(),
+          skills: skillTagsSchema,
+        })
+      )
+      .length(count),
+  });
+
+// Prompt section asking for skill tags and steering generation toward the
+// learner's weakest skills
+function skillTargetingRules(mastery: Awaited<ReturnType<typeof getTopicMastery>>) {
+  const rules = [
+    `- Tag each item with 1-3 short English kebab-case skill tags (e.g. "chain-rule", "definite-integral")`,
+  ];
+  if (mastery.skills.length > 0) {
+    rules.push(`- Reuse these existing tags where they apply: ${mastery.skills.map((s) => s.skill).join(", ")}`);
+  }
+  if (mastery.weakSkills.length > 0) {
+    rules.push(`- Focus most items on the student's weakest skills: ${mastery.weakSkills.join(", ")}`);
+  }
+  return `SKILL TAGS:\n${rules.join("\n")}`;
+}
+
+/**
+ * Shuffle quiz options so the correct answer position does not follow the
+ * LLM's habits, returning the correct option's new index.
+ */
+export function shuffleOptions(options: string[], correctIndex: number) {
+  const order = options.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return {
+    options: order.map((i) => options[i]),
+    correctIndex: order.indexOf(correctIndex),
+  };
+}
+
 /**
  * Learning features router handles:
  * - Practice problem generation
@@ -24,132 +107,87 @@ import {
  */
 export const learningRouter = router({
   // Generate practice problems
-  generatePracticeProblems: publicProcedure
+  generatePracticeProblems: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         topic: z.string(),
         difficulty: z.enum(["easy", "medium", "hard"]).optional(),
         count: z.number().min(1).max(5).default(3),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const chatHistory = await getChatLogs(input.sessionId);
-
-        const systemPrompt = `You are a mathematics educator. Generate exactly ${input.count} practice problems for the topic "${input.topic}" at ${input.difficulty || "medium"} difficulty level.
+        const chatHistory = await buildHistory(input.sessionId, { maxTokens: 3000, caller: ctx.caller });
+        // Difficulty follows the learner's mastery unless explicitly overridden
+        const mastery = await getTopicMastery(ctx.user.id, ctx.session.topic);
+        const difficulty = input.difficulty ?? mastery.recommendedDifficulty;
 
-IMPORTANT FORMATTING RULES:
-- Do NOT use LaTeX notation (no $...$ or \\...)
-- Do NOT use mathematical symbols like \\cos, \\sin, \\theta, \\pi, etc.
-- Write all mathematical expressions in plain text
-- Examples of correct formatting:
-  - Instead of "$\\cos\\theta$", write "cos(theta)" or "コサインシータ"
-  - Instead of "$x^2$", write "xの2乗" or "x squared"
-  - Instead of "$\\frac{1}{2}$", write "1/2" or "2分の1"
-  - Instead of "$\\sqrt{x}$", write "xの平方根" or "sqrt(x)"
-  - Instead of "$\\pi$", write "円周率π" or "pi"
+        const systemPrompt = `You are a mathematics educator. Generate exactly ${input.count} practice problems for the topic "${input.topic}" at ${difficulty} difficulty level.
 
-For each problem, provide the problem statement and solution with step-by-step explanation in plain text.
+${mathFormattingRules(ctx.user.mathNotation)}
 
-You MUST respond with ONLY a valid JSON array. Each object must have exactly these two fields:
-- "problem": the problem statement (string, plain text only)
-- "solution": the step-by-step solution (string, plain text only)
+${skillTargetingRules(mastery)}
 
-Example:
-[{"problem":"xの2乗を微分してください","solution":"べき乗の法則を使って: d/dx(xの2乗) = 2x"}]
+For each problem, provide the problem statement and solution with step-by-step explanation.
 
-Respond with ONLY the JSON array, no additional text.`;
+Respond with a JSON object whose "problems" array contains exactly ${input.count} objects with:
+- "problem": the problem statement (string)
+- "solution": the step-by-step solution (string)
+- "skills": array of 1-3 skill tags (strings)
+- "answerSpec": the final answer in machine-checkable form, as an object with:
+  - "kind": "numeric" when the answer is a single number, "expression" when it is an algebraic expression, "free_form" for proofs, explanations or multi-part answers
+  - "value": the answer in mathjs syntax without LaTeX or "x =" (e.g. "3/4", "sqrt(2)", "2*x + 1", "cos(x)^2"), or null for "free_form"
+  - "tolerance": relative tolerance for "numeric" answers that are rounded (e.g. 0.01), otherwise null`;
 
         const messages: Message[] = [
           {
             role: "system",
             content: systemPrompt,
           },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
+          ...chatHistory,
         ];
 
-        const result = await invokeLLM({
-          messages,
-          maxTokens: 3000,
-        });
-
-        if (!result || !result.choices || result.choices.length === 0) {
-          console.error("Invalid LLM response:", result);
-          return {
-            problems: [],
-            count: 0,
-          };
-        }
-
-        const response = result.choices[0]?.message?.content;
-
-        if (!response || typeof response !== "string") {
-          console.error("Invalid response content:", response);
-          return {
-            problems: [],
-            count: 0,
-          };
-        }
-
-        // Parse the JSON response
-        let problems: Array<{ problem: string; solution: string }> = [];
-        try {
-          console.log("LLM Response length:", response.length);
-          console.log("LLM Response (first 300 chars):", response.substring(0, 300));
-          
-          // Try to extract JSON from the response
-          const jsonMatch = response.match(/\[\s*\{[\s\S]*\}\s*\]/);
-          const jsonStr = jsonMatch ? jsonMatch[0] : response;
-          console.log("Extracted JSON length:", jsonStr.length);
-          
-          problems = JSON.parse(jsonStr);
-          console.log("Parsed problems count:", problems.length);
-          
-          if (!Array.isArray(problems)) {
-            console.error("Parsed response is not an array:", problems);
-            problems = [];
-          }
-        } catch (e) {
-          console.error("Failed to parse problems JSON:", e);
-          console.error("Response preview:", response.substring(0, 500));
-          problems = [];
-        }
+        const { problems } = await invokeStructured(
+          { messages, maxTokens: 3000, caller: ctx.caller },
+          { name: "practice_problems", schema: practiceProblemsSchema(input.count) }
+        );
 
-        // Save problems to database
+        // Save problems to database. A failed save fails the request rather
+        // than returning fewer problems than were generated.
         const savedProblems = [];
         for (const problem of problems) {
-          try {
-            await createPracticeProblem(
-              input.sessionId,
-              problem.problem,
-              problem.solution,
-              input.difficulty || "medium"
-            );
-            savedProblems.push(problem);
-          } catch (error) {
-            console.error("Failed to save problem:", error);
-          }
+          const id = await createPracticeProblem(
+            input.sessionId,
+            problem.problem,
+            problem.solution,
+            difficulty,
+            problem.skills.map(normalizeSkill),
+            // Specs the checker cannot evaluate are dropped so grading falls back to the LLM
+            isCheckableSpec(problem.answerSpec) ? problem.answerSpec : null
+          );
+          savedProblems.push({ id, ...problem });
+        }
+
+        // The problems are posted to the chat here so the client never saves LLM output itself
+        const chatMessages = savedProblems.map((problem, index) => `**問題 ${index + 1}:**\n${problem.problem}`);
+        for (const content of chatMessages) {
+          await addChatLog({ sessionId: input.sessionId, sender: "assistant", content, contentType: "markdown" });
         }
 
         return {
           problems: savedProblems,
+          chatMessages,
           count: savedProblems.length,
+          difficulty,
         };
       } catch (error) {
         console.error("Failed to generate practice problems:", error);
-        throw new Error(
-          `Failed to generate practice problems: ${error instanceof Error ? error.message : "Unknown error"}`
-        );
+        throw toStructuredOutputTRPCError(error, "Failed to generate practice problems");
       }
     }),
 
   // Get practice problems for a session
-  getPracticeProblems: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
+  getPracticeProblems: sessionProcedure
     .query(async ({ input }) => {
       try {
         return await getPracticeProblems(input.sessionId);
@@ -159,187 +197,321 @@ Respond with ONLY the JSON array, no additional text.`;
       }
     }),
 
+  // Record whether the student solved a practice problem; unsolved problems
+  // are queued for spaced-repetition review
+  markPracticeProblem: sessionProcedure
+    .input(
+      z.object({
+        problemId: z.number(),
+        solved: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const problem = await getPracticeProblem(input.sessionId, input.problemId);
+      if (!problem) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Practice problem not found" });
+      }
+
+      try {
+        await applyPracticeProblemResult(
+          { userId: ctx.user.id, sessionId: input.sessionId, topic: ctx.session.topic },
+          problem,
+          input.solved
+        );
+        return { solved: input.solved, queuedForReview: !input.solved };
+      } catch (error) {
+        console.error("Failed to mark practice problem:", error);
+        throw new Error("Failed to mark practice problem");
+      }
+    }),
+
   // Generate quiz questions
-  generateQuiz: publicProcedure
+  generateQuiz: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         topic: z.string(),
+        difficulty: z.enum(["easy", "medium", "hard"]).optional(),
         count: z.number().min(1).max(5).default(3),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const chatHistory = await getChatLogs(input.sessionId);
+        const chatHistory = await buildHistory(input.sessionId, { maxTokens: 3000, caller: ctx.caller });
+        // Difficulty follows the learner's mastery unless explicitly overridden
+        const mastery = await getTopicMastery(ctx.user.id, ctx.session.topic);
+        const difficulty = input.difficulty ?? mastery.recommendedDifficulty;
 
-        const systemPrompt = `You are a mathematics educator. Create ${input.count} multiple-choice quiz questions about "${input.topic}".
+        const systemPrompt = `You are a mathematics educator. Create ${input.count} multiple-choice quiz questions about "${input.topic}" at ${difficulty} difficulty level.
 
-IMPORTANT FORMATTING RULES:
-- Do NOT use LaTeX notation (no $...$ or \\...)
-- Do NOT use mathematical symbols like \\cos, \\sin, \\theta, \\pi, etc.
-- Write all mathematical expressions in plain text
-- Examples of correct formatting:
-  - Instead of "$\\cos\\theta$", write "cos(theta)" or "コサインシータ"
-  - Instead of "$x^2$", write "xの2乗" or "x squared"
-  - Instead of "$\\frac{1}{2}$", write "1/2" or "2分の1"
-  - Instead of "$\\sqrt{x}$", write "xの平方根" or "sqrt(x)"
-  - Instead of "$\\pi$", write "円周率π" or "pi"
+${mathFormattingRules(ctx.user.mathNotation)}
 
-For each question, provide: (1) The question text in plain text, (2) Four options WITHOUT labels in plain text, (3) The correct answer as index (0, 1, 2, or 3), (4) Brief explanation in plain text.
+${skillTargetingRules(mastery)}
 
-You MUST respond with ONLY a valid JSON array. Each object must have exactly these fields:
-- "question": the question text (string, plain text only)
-- "options": array of 4 strings (the option texts WITHOUT any labels, plain text only)
-- "correctAnswer": the index of correct answer (0, 1, 2, or 3)
-- "explanation": brief explanation (string, plain text only)
+For each question, provide: (1) The question text, (2) Four options WITHOUT labels, (3) The correct answer as index (0, 1, 2, or 3), (4) Brief explanation.
 
-Respond with ONLY the JSON array, no additional text.`;
+Respond with a JSON object whose "quizzes" array contains exactly ${input.count} objects with:
+- "question": the question text (string)
+- "options": array of 4 strings (the option texts WITHOUT any labels)
+- "correctIndex": the index of correct answer (0, 1, 2, or 3)
+- "explanation": brief explanation (string)
+- "skills": array of 1-3 skill tags (strings)`;
 
         const messages: Message[] = [
           {
             role: "system",
             content: systemPrompt,
           },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
+          ...chatHistory,
         ];
 
-        const result = await invokeLLM({
-          messages,
-          maxTokens: 3000,
-        });
-
-        if (!result || !result.choices || result.choices.length === 0) {
-          console.error("Invalid LLM response:", result);
-          return {
-            quizzes: [],
-            count: 0,
-          };
-        }
-
-        const response = result.choices[0]?.message?.content;
-
-        if (!response || typeof response !== "string") {
-          console.error("Invalid response content:", response);
-          return {
-            quizzes: [],
-            count: 0,
-          };
-        }
-
-        // Parse the JSON response
-        let quizzes: Array<{
-          question: string;
-          options: string[];
-          correctAnswer: string;
-          explanation: string;
-        }> = [];
-        try {
-          const jsonMatch = response.match(/\[\s*\{[\s\S]*\}\s*\]/);
-          const jsonStr = jsonMatch ? jsonMatch[0] : response;
-          quizzes = JSON.parse(jsonStr);
-          
-          if (!Array.isArray(quizzes)) {
-            console.error("Parsed response is not an array:", quizzes);
-            quizzes = [];
-          }
-        } catch (e) {
-          console.error("Failed to parse quiz JSON:", e, "Response:", response);
-          quizzes = [];
-        }
+        const { quizzes } = await invokeStructured(
+          { messages, maxTokens: 3000, caller: ctx.caller },
+          { name: "quizzes", schema: quizzesSchema(input.count) }
+        );
 
-        // Save quizzes to database
+        // Save quizzes to database; a failed save fails the request. The
+        // correct index never leaves the server until the user has answered.
         const savedQuizzes = [];
         for (const quiz of quizzes) {
-          try {
-            await createQuiz(
-              input.sessionId,
-              quiz.question,
-              quiz.options,
-              quiz.correctAnswer,
-              quiz.explanation
-            );
-            savedQuizzes.push({
-              question: quiz.question,
-              options: quiz.options,
-              explanation: quiz.explanation,
-            });
-          } catch (error) {
-            console.error("Failed to save quiz:", error);
-          }
+          const shuffled = shuffleOptions(quiz.options, quiz.correctIndex);
+          const id = await createQuiz(
+            input.sessionId,
+            quiz.question,
+            shuffled.options,
+            shuffled.correctIndex,
+            quiz.explanation,
+            difficulty,
+            quiz.skills.map(normalizeSkill)
+          );
+          savedQuizzes.push({
+            id,
+            question: quiz.question,
+            options: shuffled.options,
+          });
         }
 
         return {
           quizzes: savedQuizzes,
           count: savedQuizzes.length,
+          difficulty,
         };
       } catch (error) {
         console.error("Failed to generate quiz:", error);
-        throw new Error(
-          `Failed to generate quiz: ${error instanceof Error ? error.message : "Unknown error"}`
-        );
+        throw toStructuredOutputTRPCError(error, "Failed to generate quiz");
       }
     }),
 
-  // Get quizzes for a session
-  getQuizzes: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
+  // Get quizzes for a session with the latest attempt for each.
+  // Answers and explanations are only included once a quiz has been attempted.
+  getQuizzes: sessionProcedure
     .query(async ({ input }) => {
       try {
-        const quizzes = await getQuizzes(input.sessionId);
-        return quizzes.map((q) => ({
-          ...q,
-          options: JSON.parse(q.options),
-        }));
+        const [quizzes, attempts] = await Promise.all([
+          getQuizzes(input.sessionId),
+          getQuizAttempts(input.sessionId),
+        ]);
+
+        return quizzes.map((q) => {
+          const lastAttempt = attempts.find((a) => a.quizId === q.id);
+          return {
+            id: q.id,
+            question: q.question,
+            options: JSON.parse(q.options) as string[],
+            createdAt: q.createdAt,
+            lastAttempt: lastAttempt
+              ? {
+                  selectedIndex: lastAttempt.selectedIndex,
+                  isCorrect: lastAttempt.isCorrect === 1,
+                  createdAt: lastAttempt.createdAt,
+                }
+              : null,
+            correctIndex: lastAttempt ? q.correctIndex : null,
+            gradable: q.correctIndex !== null,
+            explanation: lastAttempt ? q.explanation : null,
+          };
+        });
       } catch (error) {
         console.error("Failed to get quizzes:", error);
         throw new Error("Failed to get quizzes");
       }
     }),
 
-  // Submit quiz answer
-  submitQuizAnswer: publicProcedure
+  // Submit the answer to a quiz, graded by option index. Each quiz can be answered once.
+  submitQuizAnswer: sessionProcedure
     .input(
       z.object({
         quizId: z.number(),
-        userAnswer: z.string(),
-        sessionId: z.string(),
+        selectedIndex: z.number().int().min(0),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const quiz = await getQuiz(input.sessionId, input.quizId);
+      if (!quiz) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Quiz not found" });
+      }
+
+      const options: string[] = JSON.parse(quiz.options);
+      if (input.selectedIndex >= options.length) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Selected option does not exist" });
+      }
+      if (!isGradableQuiz(quiz)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This quiz has no recorded answer and cannot be graded" });
+      }
+
+      let isCorrect: boolean | null;
+      try {
+        isCorrect = await applyQuizResult(
+          { userId: ctx.user.id, sessionId: input.sessionId, topic: ctx.session.topic },
+          quiz,
+          input.selectedIndex
+        );
+      } catch (error) {
+        console.error("Failed to submit quiz answer:", error);
+        throw new Error("Failed to submit quiz answer");
+      }
+      // Only the first answer is graded; the correct option is shown after it
+      if (isCorrect === null) {
+        throw new TRPCError({ code: "CONFLICT", message: "This quiz has already been answered" });
+      }
+
+      return {
+        isCorrect,
+        correctIndex: quiz.correctIndex,
+        explanation: quiz.explanation,
+      };
+    }),
+
+  // Review items due now across all of the user's sessions
+  getDueReviews: protectedProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(50).default(20),
+        })
+        .default({ limit: 20 })
+    )
+    .query(async ({ ctx, input }) => {
       try {
-        // Get the quiz to check the answer
-        const quizzes = await getQuizzes(input.sessionId);
-        const quiz = quizzes.find((q) => q.id === input.quizId);
+        const now = new Date();
+        const [rows, dueCount] = await Promise.all([
+          getDueReviewItems(ctx.user.id, now, input.limit),
+          countDueReviewItems(ctx.user.id, now),
+        ]);
+
+        const items = rows.map(({ review, topic, quiz, problem }) => ({
+          id: review.id,
+          sessionId: review.sessionId,
+          topic,
+          dueAt: review.dueAt,
+          repetitions: review.repetitions,
+          quiz: quiz
+            ? {
+                question: quiz.question,
+                options: JSON.parse(quiz.options) as string[],
+              }
+            : null,
+          problem: problem
+            ? {
+                problemText: problem.problemText,
+                solution: problem.solution,
+              }
+            : null,
+        }));
+
+        return { items, dueCount };
+      } catch (error) {
+        console.error("Failed to get due reviews:", error);
+        throw new Error("Failed to get due reviews");
+      }
+    }),
+
+  // Record a review and reschedule the item. Quizzes are graded by the
+  // selected option; practice problems use the student's self-rating.
+  recordReview: protectedProcedure
+    .input(
+      z.object({
+        reviewId: z.number(),
+        selectedIndex: z.number().int().min(0).optional(),
+        rating: z.enum(["again", "hard", "good", "easy"]).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const item = await getReviewItem(ctx.user.id, input.reviewId);
+      if (!item) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Review item not found" });
+      }
+
+      const { review, topic, quiz, problem } = item;
+      const reviewed = quiz ?? problem;
+      if (!reviewed) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Review item not found" });
+      }
+
+      let rating: ReviewRating;
+      let isCorrect: boolean | null = null;
 
-        if (!quiz) {
-          throw new Error("Quiz not found");
+      if (quiz) {
+        const options: string[] = JSON.parse(quiz.options);
+        if (input.selectedIndex === undefined || input.selectedIndex >= options.length) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Select one of the quiz options" });
         }
+        if (!isGradableQuiz(quiz)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This quiz has no recorded answer and cannot be graded" });
+        }
+        isCorrect = input.selectedIndex === quiz.correctIndex;
+        rating = isCorrect ? input.rating ?? "good" : "again";
+      } else {
+        if (!input.rating) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Rate how well you solved the problem" });
+        }
+        rating = input.rating;
+      }
 
-        const isCorrect = quiz.correctAnswer === input.userAnswer;
-        await updateQuizAnswer(input.quizId, input.userAnswer, isCorrect);
-        
-        // Update session performance
-        await updateSessionPerformance(input.sessionId, isCorrect);
+      try {
+        const now = new Date();
+        const schedule = nextReviewSchedule(
+          {
+            repetitions: review.repetitions,
+            intervalDays: review.intervalDays,
+            easeFactor: review.easeFactor,
+          },
+          rating
+        );
+        const dueAt = reviewDueDate(schedule.intervalDays, now);
+        await updateReviewItemSchedule(review.id, { ...schedule, dueAt, lastReviewedAt: now });
+
+        if (quiz && input.selectedIndex !== undefined) {
+          await createQuizAttempt(quiz.id, review.sessionId, input.selectedIndex, isCorrect === true);
+        }
+        if (problem && rating !== "again") {
+          await updatePracticeProblemSolved(problem.id, true);
+        }
+        await recordMasteryResult({
+          userId: ctx.user.id,
+          topic,
+          skills: parseSkills(reviewed.skills),
+          difficulty: reviewed.difficulty,
+          isCorrect: quiz ? isCorrect === true : rating !== "again",
+        });
 
         return {
+          rating,
           isCorrect,
-          correctAnswer: quiz.correctAnswer,
-          explanation: quiz.explanation,
+          correctIndex: quiz ? quiz.correctIndex : null,
+          explanation: quiz ? quiz.explanation : null,
+          intervalDays: schedule.intervalDays,
+          nextDueAt: dueAt,
         };
       } catch (error) {
-        console.error("Failed to submit quiz answer:", error);
-        throw new Error("Failed to submit quiz answer");
+        console.error("Failed to record review:", error);
+        throw new Error("Failed to record review");
       }
     }),
 
   // Create a learning note
-  createNote: publicProcedure
+  createNote: sessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         noteText: z.string(),
         category: z.string().optional(),
       })
@@ -355,8 +527,7 @@ Respond with ONLY the JSON array, no additional text.`;
     }),
 
   // Get learning notes for a session
-  getNotes: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
+  getNotes: sessionProcedure
     .query(async ({ input }) => {
       try {
         return await getNotes(input.sessionId);
@@ -367,11 +538,11 @@ Respond with ONLY the JSON array, no additional text.`;
     }),
 
   // Delete a learning note
-  deleteNote: publicProcedure
+  deleteNote: sessionProcedure
     .input(z.object({ noteId: z.number() }))
     .mutation(async ({ input }) => {
       try {
-        await deleteNote(input.noteId);
+        await deleteNote(input.sessionId, input.noteId);
         return { success: true };
       } catch (error) {
         console.error("Failed to delete note:", error);
@@ -379,9 +550,29 @@ Respond with ONLY the JSON array, no additional text.`;
       }
     }),
 
+  // Learner mastery for the session topic across all of the user's sessions
+  getMastery: sessionProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const mastery = await getTopicMastery(ctx.user.id, ctx.session.topic);
+        return {
+          rating: mastery.rating,
+          recommendedDifficulty: mastery.recommendedDifficulty,
+          skills: mastery.skills.map((s) => ({
+            skill: s.skill,
+            rating: s.rating,
+            attempts: s.attempts,
+            correct: s.correct,
+          })),
+        };
+      } catch (error) {
+        console.error("Failed to get mastery:", error);
+        throw new Error("Failed to get mastery");
+      }
+    }),
+
   // Get session performance
-  getSessionPerformance: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
+  getSessionPerformance: sessionProcedure
     .query(async ({ input }) => {
       try {
         const performance = await getSessionPerformance(input.sessionId);
@@ -395,17 +586,32 @@ Respond with ONLY the JSON array, no additional text.`;
       }
     }),
 
-  // Update session performance after answering
-  updateSessionPerformance: publicProcedure
+  // Accuracy over time and per-difficulty breakdown from the graded attempts
+  getPerformanceHistory: sessionProcedure
+    .query(async ({ input }) => {
+      try {
+        const events = await getPerformanceEvents(input.sessionId);
+        return buildPerformanceHistory(events);
+      } catch (error) {
+        console.error("Failed to get performance history:", error);
+        throw new Error("Failed to get performance history");
+      }
+    }),
+
+  // Update session performance after answering (self-reported result)
+  updateSessionPerformance: sessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         isCorrect: z.boolean(),
+        difficulty: z.enum(["easy", "medium", "hard"]).optional(),
       })
     )
     .mutation(async ({ input }) => {
       try {
-        const updated = await updateSessionPerformance(input.sessionId, input.isCorrect);
+        const updated = await updateSessionPerformance(input.sessionId, input.isCorrect, {
+          source: "manual",
+          difficulty: input.difficulty,
+        });
         return updated;
       } catch (error) {
         console.error("Failed to update session performance:", error);
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { listModels, MODEL_IDS, ModelParameterError, simulateModel } from "../economicModels";
+
+/**
+ * Models router handles:
+ * - The list of built-in economics models and their parameters
+ * - Running a model to get its key values and a graph for MathGraph
+ */
+export const modelsRouter = router({
+  list: protectedProcedure.query(() => listModels()),
+
+  // Parameters left out use the model's defaults
+  simulate: protectedProcedure
+    .input(
+      z.object({
+        model: z.enum(MODEL_IDS),
+        parameters: z.record(z.string(), z.number()).default({}),
+      })
+    )
+    .query(({ input }) => {
+      try {
+        return simulateModel(input.model, input.parameters);
+      } catch (error) {
+        if (error instanceof ModelParameterError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+        throw error;
+      }
+    }),
+});
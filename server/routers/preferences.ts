@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "../_core/trpc";
+import { updateUserMathNotation } from "../db";
+
+export const preferencesRouter = router({
+  // Choose between LaTeX (rendered with KaTeX) and plain-text math in AI output
+  setMathNotation: protectedProcedure
+    .input(
+      z.object({
+        mathNotation: z.enum(["latex", "plain"]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await updateUserMathNotation(ctx.user.id, input.mathNotation);
+      return { mathNotation: input.mathNotation };
+    }),
+});
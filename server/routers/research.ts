@@ -1,27 +1,58 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
+import { router } from "../_core/trpc";
+import { llmSessionProcedure, sessionProcedure } from "../sessionProcedure";
 import { invokeLLM, Message } from "../_core/llm";
-import { getChatLogs } from "../db";
+import { addChatLog, getChatLogs } from "../db";
+import { mathFormattingRules } from "../mathFormatting";
+import { buildHistory } from "../chatHistory";
+import { invokeStructured, toStructuredOutputTRPCError } from "../structuredOutput";
+import {
+  formatScenarioComparison,
+  parseResearchEntry,
+  ResearchEntry,
+  scenarioComparisonSchema,
+} from "@shared/research";
+
+// Save a result as a "research" chat log so it shows up in the conversation
+async function saveResearchEntry(sessionId: string, entry: ResearchEntry) {
+  await addChatLog({
+    sessionId,
+    sender: "assistant",
+    content: JSON.stringify(entry),
+    contentType: "research",
+  });
+  return entry;
+}
 
 /**
  * Research router handles:
  * - Web search integration
  * - Complex question analysis
  * - Thought experiments and scenario analysis
+ *
+ * Every result is also saved to the session's chat log.
  */
 export const researchRouter = router({
+  // Research results saved in a session, oldest first
+  getEntries: sessionProcedure.query(async ({ input }) => {
+    const logs = await getChatLogs(input.sessionId);
+    return logs.flatMap((log) => {
+      const entry = log.contentType === "research" ? parseResearchEntry(log.content) : null;
+      return entry ? [{ id: log.id, createdAt: log.createdAt, ...entry }] : [];
+    });
+  }),
+
   // Analyze a complex question and provide research-based response
-  analyzeQuestion: publicProcedure
+  analyzeQuestion: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         question: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         // Get chat history for context
-        const chatHistory = await getChatLogs(input.sessionId);
+        const chatHistory = await buildHistory(input.sessionId, { maxTokens: 4000, caller: ctx.caller });
 
         const messages: Message[] = [
           {
@@ -33,12 +64,11 @@ export const researchRouter = router({
 4. Connect mathematical concepts to real-world applications
 5. Suggest relevant research directions
 
+${mathFormattingRules(ctx.user.mathNotation)}
+
 Respond in Japanese when appropriate.`,
           },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
+          ...chatHistory,
           {
             role: "user",
             content: `Please analyze this question deeply: ${input.question}`,
@@ -48,6 +78,7 @@ Respond in Japanese when appropriate.`,
         const result = await invokeLLM({
           messages,
           maxTokens: 2048,
+          caller: ctx.caller,
         });
 
         const response = result.choices[0]?.message?.content || "";
@@ -56,9 +87,16 @@ Respond in Japanese when appropriate.`,
           throw new Error("Unexpected response format from LLM");
         }
 
+        const entry = await saveResearchEntry(input.sessionId, {
+          kind: "analysis",
+          prompt: input.question,
+          body: response,
+        });
+
         return {
           analysis: response,
           contentType: "markdown" as const,
+          entry,
         };
       } catch (error) {
         console.error("Failed to analyze question:", error);
@@ -68,82 +106,81 @@ Respond in Japanese when appropriate.`,
       }
     }),
 
-  // Generate thought experiment scenarios
-  generateScenarios: publicProcedure
+  // Generate thought experiment scenarios as a structured comparison the
+  // client can show as a table and plot scenario by scenario
+  generateScenarios: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         scenario: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         // Get chat history for context
-        const chatHistory = await getChatLogs(input.sessionId);
+        const chatHistory = await buildHistory(input.sessionId, { maxTokens: 4000, caller: ctx.caller });
 
         const messages: Message[] = [
           {
             role: "system",
-            content: `You are an expert in mathematical modeling and economic analysis. When generating thought experiment scenarios:
-1. Create 3-4 distinct scenarios based on the given situation
-2. For each scenario, explain:
-   - Initial conditions
-   - Mathematical model
-   - Expected outcomes
-   - Key variables and their relationships
-3. Compare and contrast the scenarios
-4. Discuss implications and limitations
-
-Format your response as a structured analysis with clear sections for each scenario.
+            content: `You are an expert in mathematical modeling and economic analysis. Generate 2-4 distinct thought experiment scenarios for the given situation and compare them.
+
+Respond with a JSON object with:
+- "scenarios": 2-4 objects, each with:
+  - "name": a short name for the scenario
+  - "initialConditions": the starting situation and what differs from the other scenarios
+  - "equations": 1-5 equations of the scenario's mathematical model
+  - "variables": the key variables as { "symbol", "meaning" }
+  - "predictedOutcome": what the model predicts and why
+  - "assumptions": up to 5 assumptions or limitations of the model
+  - "plot": the model drawn as a function of one variable, or null when it cannot be drawn meaningfully. Use the same x axis and domain for every scenario so they can be compared. It has "type" ("line", "area", "bar" or "scatter"), "title", "xLabel", "yLabel", "domain" { "min", "max" }, "step" (null for continuous curves), "functions" (1-6 objects with "name" and "expression": y as a function of x in mathjs syntax) and "parameters" (named constants used in the expressions, each { "name", "value", "min", "max", "step" }; [] when there are none; do not name a parameter x, e or pi)
+- "comparison": how the scenarios differ, their implications and limitations
+
+${mathFormattingRules(ctx.user.mathNotation)}
+Apply these rules to every text field except the plot expressions, which are plain mathjs syntax.
 
 Respond in Japanese.`,
           },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
+          ...chatHistory,
           {
             role: "user",
             content: `Generate thought experiment scenarios for: ${input.scenario}`,
           },
         ];
 
-        const result = await invokeLLM({
-          messages,
-          maxTokens: 3000,
-        });
-
-        const response = result.choices[0]?.message?.content || "";
+        const comparison = await invokeStructured(
+          { messages, maxTokens: 4096, caller: ctx.caller },
+          { name: "scenario_comparison", schema: scenarioComparisonSchema }
+        );
 
-        if (typeof response !== "string") {
-          throw new Error("Unexpected response format from LLM");
-        }
+        const entry = await saveResearchEntry(input.sessionId, {
+          kind: "scenarios",
+          prompt: input.scenario,
+          body: formatScenarioComparison(comparison),
+          comparison,
+        });
 
         return {
-          scenarios: response,
-          contentType: "markdown" as const,
+          scenarios: comparison,
+          entry,
         };
       } catch (error) {
         console.error("Failed to generate scenarios:", error);
-        throw new Error(
-          `Failed to generate scenarios: ${error instanceof Error ? error.message : "Unknown error"}`
-        );
+        throw toStructuredOutputTRPCError(error, "Failed to generate scenarios");
       }
     }),
 
   // Apply theory to real-world context
-  applyToRealWorld: publicProcedure
+  applyToRealWorld: llmSessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
         theory: z.string(),
         context: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         // Get chat history for context
-        const chatHistory = await getChatLogs(input.sessionId);
+        const chatHistory = await buildHistory(input.sessionId, { maxTokens: 4000, caller: ctx.caller });
 
         const messages: Message[] = [
           {
@@ -156,12 +193,11 @@ Respond in Japanese.`,
 5. Suggest how parameters might change in practice
 6. Provide concrete examples
 
+${mathFormattingRules(ctx.user.mathNotation)}
+
 Be thorough but accessible. Respond in Japanese.`,
           },
-          ...chatHistory.map((log) => ({
-            role: log.sender === "user" ? ("user" as const) : ("assistant" as const),
-            content: log.content,
-          })),
+          ...chatHistory,
           {
             role: "user",
             content: `Apply the theory "${input.theory}" to this real-world context: ${input.context}`,
@@ -171,6 +207,7 @@ Be thorough but accessible. Respond in Japanese.`,
         const result = await invokeLLM({
           messages,
           maxTokens: 2048,
+          caller: ctx.caller,
         });
 
         const response = result.choices[0]?.message?.content || "";
@@ -179,9 +216,16 @@ Be thorough but accessible. Respond in Japanese.`,
           throw new Error("Unexpected response format from LLM");
         }
 
+        const entry = await saveResearchEntry(input.sessionId, {
+          kind: "application",
+          prompt: `${input.theory} × ${input.context}`,
+          body: response,
+        });
+
         return {
           application: response,
           contentType: "markdown" as const,
+          entry,
         };
       } catch (error) {
         console.error("Failed to apply theory:", error);
@@ -1,54 +1,84 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
-import { createLearningSession, getLearningSession, addChatLog, getChatLogs } from "../db";
+import { protectedProcedure, router } from "../_core/trpc";
+import {
+  createLearningSession,
+  addChatLog,
+  getChatLogs,
+  listLearningSessions,
+  updateLearningSession,
+  deleteLearningSession,
+} from "../db";
+import { sessionProcedure } from "../sessionProcedure";
 import { nanoid } from "nanoid";
 
 export const sessionsRouter = router({
-  // Create a new learning session
-  create: publicProcedure
+  // Create a new learning session owned by the current user
+  create: protectedProcedure
     .input(
       z.object({
         topic: z.string().min(1, "Topic is required"),
         description: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const sessionId = nanoid();
       const session = await createLearningSession({
         id: sessionId,
+        userId: ctx.user.id,
         topic: input.topic,
         description: input.description,
       });
       return session;
     }),
 
-  // Get a learning session by ID
-  get: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
-    .query(async ({ input }) => {
-      const session = await getLearningSession(input.sessionId);
-      if (!session) {
-        throw new Error("Session not found");
-      }
-      return session;
+  // List the current user's sessions, most recently active first.
+  // `cursor` is the offset of the next page so the client can use infinite queries.
+  list: protectedProcedure
+    .input(
+      z.object({
+        search: z.string().trim().max(255).optional(),
+        archived: z.boolean().default(false),
+        limit: z.number().min(1).max(50).default(20),
+        cursor: z.number().int().min(0).nullish(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const offset = input.cursor ?? 0;
+      // Fetch one extra row to know whether another page exists
+      const rows = await listLearningSessions(ctx.user.id, {
+        search: input.search || undefined,
+        archived: input.archived,
+        limit: input.limit + 1,
+        offset,
+      });
+      const hasMore = rows.length > input.limit;
+
+      return {
+        sessions: hasMore ? rows.slice(0, input.limit) : rows,
+        nextCursor: hasMore ? offset + input.limit : null,
+      };
     }),
 
+  // Get a learning session by ID
+  get: sessionProcedure.query(async ({ ctx }) => {
+    return ctx.session;
+  }),
+
   // Get chat logs for a session
-  getChatLogs: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
-    .query(async ({ input }) => {
-      const logs = await getChatLogs(input.sessionId);
-      return logs;
-    }),
+  getChatLogs: sessionProcedure.query(async ({ input }) => {
+    const logs = await getChatLogs(input.sessionId);
+    return logs;
+  }),
 
-  // Add a chat message
-  addMessage: publicProcedure
+  // Add a user message that is not sent to the LLM. Chat messages and their
+  // replies are saved by chat.* as one turn, and LLM output such as generated
+  // problems or graphs only by the server procedure that produced it.
+  addMessage: sessionProcedure
     .input(
       z.object({
-        sessionId: z.string(),
-        sender: z.enum(["user", "assistant"]),
+        sender: z.enum(["user"]),
         content: z.string(),
-        contentType: z.enum(["text", "json", "markdown"]).default("text"),
+        contentType: z.enum(["text", "markdown"]).default("text"),
       })
     )
     .mutation(async ({ input }) => {
@@ -60,4 +90,26 @@ export const sessionsRouter = router({
       });
       return result;
     }),
+
+  // Rename a session's topic
+  rename: sessionProcedure
+    .input(z.object({ topic: z.string().trim().min(1, "Topic is required").max(255) }))
+    .mutation(async ({ input }) => {
+      await updateLearningSession(input.sessionId, { topic: input.topic });
+      return { success: true } as const;
+    }),
+
+  // Archive or restore a session
+  archive: sessionProcedure
+    .input(z.object({ archived: z.boolean() }))
+    .mutation(async ({ input }) => {
+      await updateLearningSession(input.sessionId, { archived: input.archived ? 1 : 0 });
+      return { success: true } as const;
+    }),
+
+  // Permanently delete a session and everything recorded in it
+  delete: sessionProcedure.mutation(async ({ input }) => {
+    await deleteLearningSession(input.sessionId);
+    return { success: true } as const;
+  }),
 });
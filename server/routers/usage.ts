@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { adminProcedure, protectedProcedure, router } from "../_core/trpc";
+import { updateUserDailyTokenQuota } from "../db";
+import { getDailyUsage, summarizeLLMUsage } from "../llmUsage";
+
+export const usageRouter = router({
+  // Tokens the current user has used today and their daily quota (0 = unlimited)
+  me: protectedProcedure.query(({ ctx }) => getDailyUsage(ctx.user)),
+
+  // Admin dashboard: LLM calls, tokens, failures and latency by day, procedure and user
+  summary: adminProcedure
+    .input(
+      z.object({
+        days: z.number().int().min(1).max(90).default(7),
+      })
+    )
+    .query(({ input }) => summarizeLLMUsage(input.days)),
+
+  // Set a user's daily token quota; null falls back to LLM_DAILY_TOKEN_QUOTA, 0 is unlimited
+  setUserQuota: adminProcedure
+    .input(
+      z.object({
+        userId: z.number().int(),
+        dailyTokenQuota: z.number().int().min(0).nullable(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      await updateUserDailyTokenQuota(input.userId, input.dailyTokenQuota);
+      return input;
+    }),
+});
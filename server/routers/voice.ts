@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { transcribeVoiceQuestion } from "../voice";
+import { MAX_VOICE_BYTES, MAX_VOICE_SECONDS, VOICE_LANGUAGES, VOICE_MIME_TYPES } from "@shared/voice";
+
+export const voiceRouter = router({
+  // Transcribe a recorded question. The transcript is returned for the student
+  // to edit; nothing is sent to the chat until they do.
+  transcribe: protectedProcedure
+    .input(
+      z.object({
+        // Base64-encoded recording, without the data: URL prefix
+        audio: z.string().min(1),
+        mimeType: z.enum(VOICE_MIME_TYPES),
+        // Length measured by the recorder
+        durationMs: z.number().int().min(0),
+        // Expected language; detected from the audio when omitted
+        language: z.enum(VOICE_LANGUAGES).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const data = Buffer.from(input.audio, "base64");
+      if (data.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The recording is empty" });
+      }
+      // The limits are checked here rather than in the input schema so the
+      // client can tell an over-long recording from a malformed request.
+      // Duration gets a second of slack for the recorder's stop latency.
+      if (data.length > MAX_VOICE_BYTES || input.durationMs > (MAX_VOICE_SECONDS + 1) * 1000) {
+        throw new TRPCError({
+          code: "PAYLOAD_TOO_LARGE",
+          message: `Recordings can be at most ${MAX_VOICE_SECONDS} seconds and ${MAX_VOICE_BYTES / 1024 / 1024}MB`,
+        });
+      }
+
+      return transcribeVoiceQuestion({
+        userId: ctx.user.id,
+        data,
+        mimeType: input.mimeType,
+        language: input.language,
+      });
+    }),
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "./_core/trpc";
+import { getLearningSession } from "./db";
+import { assertWithinQuota, LLMCaller } from "./llmUsage";
+
+export const SESSION_NOT_FOUND_ERR_MSG = "Session not found";
+
+/**
+ * Load a learning session and make sure it belongs to the given user.
+ * Sessions owned by someone else are reported as missing so that session IDs
+ * cannot be probed.
+ */
+export async function assertSessionOwner(sessionId: string, userId: number) {
+  const session = await getLearningSession(sessionId);
+  if (!session || session.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: SESSION_NOT_FOUND_ERR_MSG });
+  }
+  return session;
+}
+
+/**
+ * Procedure for everything scoped to a learning session.
+ * Requires a logged-in user, takes `sessionId` as input and exposes the owned
+ * session as `ctx.session`. Extend the input with `.input(...)` as usual.
+ */
+export const sessionProcedure = protectedProcedure
+  .input(z.object({ sessionId: z.string() }))
+  .use(async ({ ctx, input, next }) => {
+    const session = await assertSessionOwner(input.sessionId, ctx.user.id);
+    return next({
+      ctx: {
+        ...ctx,
+        session,
+      },
+    });
+  });
+
+/**
+ * Session procedure that calls the LLM. Rejects the request up front when the
+ * user's daily token quota is used up, and exposes `ctx.caller` to pass as
+ * `caller` to every LLM call so the usage is attributed to this procedure.
+ */
+export const llmSessionProcedure = sessionProcedure.use(async ({ ctx, path, next }) => {
+  await assertWithinQuota(ctx.user);
+  const caller: LLMCaller = { userId: ctx.user.id, sessionId: ctx.session.id, procedure: path };
+  return next({
+    ctx: {
+      ...ctx,
+      caller,
+    },
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * SM-2 style spaced-repetition scheduling for the review queue.
+ * Pure functions only; persistence lives in db.ts.
+ */
+
+export type ReviewRating = "again" | "hard" | "good" | "easy";
+
+export type ReviewSchedule = {
+  /** Consecutive successful reviews. */
+  repetitions: number;
+  /** Days until the next review. */
+  intervalDays: number;
+  /** SM-2 ease factor x100 (250 = 2.5). */
+  easeFactor: number;
+};
+
+export const INITIAL_REVIEW_SCHEDULE: ReviewSchedule = {
+  repetitions: 0,
+  intervalDays: 0,
+  easeFactor: 250,
+};
+
+const MIN_EASE_FACTOR = 130;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 response quality (0-5) for each rating
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Compute the schedule after a review. A failed review ("again") restarts
+ * the item at a one-day interval; successful reviews grow the interval by
+ * the ease factor, which itself moves with how easy the recall was.
+ */
+export function nextReviewSchedule(schedule: ReviewSchedule, rating: ReviewRating): ReviewSchedule {
+  const quality = RATING_QUALITY[rating];
+  const penalty = 5 - quality;
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Math.round(schedule.easeFactor + 10 - penalty * (8 + penalty * 2))
+  );
+
+  if (quality < 3) {
+    return { repetitions: 0, intervalDays: 1, easeFactor };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  const intervalDays =
+    repetitions === 1
+      ? 1
+      : repetitions === 2
+        ? 6
+        : Math.round((schedule.intervalDays * schedule.easeFactor) / 100);
+
+  return { repetitions, intervalDays, easeFactor };
+}
+
+/** When an item scheduled `intervalDays` out from `from` becomes due. */
+export function reviewDueDate(intervalDays: number, from: Date = new Date()) {
+  return new Date(from.getTime() + intervalDays * DAY_MS);
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { invokeLLM, InvokeParams, Message } from "./_core/llm";
+
+/**
+ * Thrown when the LLM keeps returning output that does not match the
+ * requested schema, even after repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    public readonly rawOutput?: string
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export type StructuredOutputOptions<T> = {
+  /** Schema name sent to the LLM as part of the json_schema response format. */
+  name: string;
+  schema: z.ZodType<T>;
+  /** Total number of LLM calls including repair attempts (default: 2). */
+  maxAttempts?: number;
+};
+
+// JSON schema of a zod schema, as sent in response formats and tool definitions
+export const toJsonSchema = (schema: z.ZodType) => {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return jsonSchema;
+};
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+
+function parseOutput<T>(content: unknown, schema: z.ZodType<T>) {
+  if (typeof content !== "string" || content.trim().length === 0) {
+    return { success: false as const, issues: ["Response content was empty"] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return {
+      success: false as const,
+      issues: [`Response was not valid JSON: ${error instanceof Error ? error.message : "parse error"}`],
+    };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return { success: false as const, issues: formatIssues(result.error) };
+  }
+  return { success: true as const, data: result.data };
+}
+
+/**
+ * Invoke the LLM with a json_schema response format derived from a zod schema
+ * and validate the result. When validation fails the model is shown its
+ * previous output together with the validation issues and asked to repair it.
+ */
+export async function invokeStructured<T>(
+  params: Omit<InvokeParams, "responseFormat" | "response_format" | "outputSchema" | "output_schema">,
+  options: StructuredOutputOptions<T>
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? 2;
+  const responseFormat = {
+    type: "json_schema" as const,
+    json_schema: {
+      name: options.name,
+      schema: toJsonSchema(options.schema),
+      strict: true,
+    },
+  };
+
+  const messages: Message[] = [...params.messages];
+  let issues: string[] = [];
+  let rawOutput: string | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await invokeLLM({ ...params, messages, responseFormat });
+    const content = result.choices?.[0]?.message?.content;
+    const parsed = parseOutput(content, options.schema);
+
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    issues = parsed.issues;
+    rawOutput = typeof content === "string" ? content : JSON.stringify(content);
+    console.warn(`[StructuredOutput] ${options.name} attempt ${attempt} failed validation:`, issues);
+
+    messages.push(
+      { role: "assistant", content: rawOutput ?? "" },
+      {
+        role: "user",
+        content: `Your previous response did not match the required JSON schema "${options.name}".
+Problems found:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Respond again with ONLY the corrected JSON object. Keep the content, fix the structure.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `LLM output for "${options.name}" did not match the schema after ${maxAttempts} attempts`,
+    issues,
+    rawOutput
+  );
+}
+
+/**
+ * Convert a structured output failure into a TRPCError the client can detect
+ * by code. Other errors are wrapped as internal errors with the given label.
+ */
+export function toStructuredOutputTRPCError(error: unknown, label: string) {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+  if (error instanceof StructuredOutputError) {
+    return new TRPCError({
+      code: "UNPROCESSABLE_CONTENT",
+      message: `${label}: AI returned malformed content`,
+      cause: error,
+    });
+  }
+  return new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: `${label}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    cause: error,
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Token estimates for budgeting prompts. The characters-per-token ratio varies
+ * a lot between Japanese and English text, so it is calibrated from the
+ * `usage` the LLM API reports for each call.
+ */
+
+// Starting ratio, between typical Japanese (~1) and English (~4) text
+const DEFAULT_CHARS_PER_TOKEN = 2;
+const MIN_CHARS_PER_TOKEN = 0.8;
+const MAX_CHARS_PER_TOKEN = 6;
+// Weight of the newest observation in the running average
+const SMOOTHING = 0.2;
+
+let charsPerToken = DEFAULT_CHARS_PER_TOKEN;
+
+/** Estimated prompt tokens for a piece of text. */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / charsPerToken);
+}
+
+/** Update the ratio from a prompt of `promptChars` characters that the API counted as `promptTokens`. */
+export function recordPromptUsage(promptChars: number, promptTokens: number) {
+  if (promptChars <= 0 || promptTokens <= 0) return;
+  const observed = Math.min(Math.max(promptChars / promptTokens, MIN_CHARS_PER_TOKEN), MAX_CHARS_PER_TOKEN);
+  charsPerToken = charsPerToken * (1 - SMOOTHING) + observed * SMOOTHING;
+}
+
+export function currentCharsPerToken() {
+  return charsPerToken;
+}
+
+/** Forget the calibration (used by tests). */
+export function resetTokenEstimates() {
+  charsPerToken = DEFAULT_CHARS_PER_TOKEN;
+}
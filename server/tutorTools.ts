@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { AgentTool, defineTool } from "./agent";
+import { derivative, math, parse, simplify } from "@shared/math";
+import { plotSpecSchema, samplePlot } from "@shared/plotting";
+import type { GraphData } from "@shared/graph";
+import { listModels, MODEL_IDS, simulateModel } from "./economicModels";
+
+/**
+ * Tools the tutor can call during a chat turn so that arithmetic, algebra,
+ * graphs and economics results are computed instead of guessed.
+ */
+
+export type TutorToolContext = {
+  // Graphs shown to the student during the turn, in order; saved with the turn
+  graphs: GraphData[];
+};
+
+const namedValuesSchema = z.array(z.object({ name: z.string().min(1), value: z.number() }));
+
+const toScope = (values: z.infer<typeof namedValuesSchema>) =>
+  Object.fromEntries(values.map(({ name, value }) => [name, value]));
+
+// Graphs are sent to the student as they are created and saved before the reply
+function showGraph(ctx: TutorToolContext, graph: GraphData) {
+  ctx.graphs.push(graph);
+}
+
+const modelCatalog = () =>
+  listModels()
+    .map(
+      (model) =>
+        `- ${model.id}: ${model.description} Parameters: ${model.parameters
+          .map((p) => `${p.name} (${p.min}..${p.max}, default ${p.value})`)
+          .join(", ")}`
+    )
+    .join("\n");
+
+export function createTutorTools(ctx: TutorToolContext): AgentTool[] {
+  return [
+    defineTool({
+      name: "calculate",
+      description:
+        'Evaluate a numeric expression in mathjs syntax, e.g. "sqrt(2) * 3^4", "log(100, 10)", "combinations(10, 3) * 0.5^10". Use it for every non-trivial arithmetic step. Variables may be given values.',
+      schema: z.object({ expression: z.string().min(1), variables: namedValuesSchema }),
+      run: ({ expression, variables }) => {
+        const value = parse(expression).compile().evaluate(toScope(variables));
+        return { result: math.format(value, { precision: 14, lowerExp: -9, upperExp: 15 }) };
+      },
+    }),
+
+    defineTool({
+      name: "symbolic",
+      description:
+        'Simplify an expression or differentiate it with respect to a variable, in mathjs syntax (e.g. "x^2 * sin(x)"). "variable" is required for "derivative" and null for "simplify".',
+      schema: z.object({
+        operation: z.enum(["simplify", "derivative"]),
+        expression: z.string().min(1),
+        variable: z.string().nullable(),
+      }),
+      run: ({ operation, expression, variable }) => {
+        if (operation === "derivative") {
+          if (!variable) throw new Error("variable is required for derivative");
+          return { result: derivative(expression, variable).toString() };
+        }
+        return { result: simplify(expression).toString() };
+      },
+    }),
+
+    defineTool({
+      name: "plot_function",
+      description:
+        'Show the student a graph of one or more functions of x. Expressions are in mathjs syntax; constants the student may want to vary are declared as parameters and get sliders. Use "step": null for continuous curves, or the spacing of discrete x values for bar/scatter plots.',
+      schema: plotSpecSchema,
+      run: (spec) => {
+        const graph = samplePlot(spec);
+        showGraph(ctx, graph);
+        return { shown: true, title: graph.title };
+      },
+    }),
+
+    defineTool({
+      name: "simulate_economic_model",
+      description: `Run a built-in economics model and get its computed results (equilibria, steady states, NPV...). Omitted parameters use their defaults. Set "showGraph" to show the model's graph to the student. Models:\n${modelCatalog()}`,
+      schema: z.object({
+        model: z.enum(MODEL_IDS),
+        parameters: namedValuesSchema,
+        showGraph: z.boolean(),
+      }),
+      run: ({ model, parameters, showGraph: show }) => {
+        const simulation = simulateModel(model, toScope(parameters));
+        if (show) {
+          showGraph(ctx, simulation.graph);
+        }
+        return {
+          model: simulation.name,
+          parameters: simulation.parameters,
+          results: simulation.results.map(({ label, value }) => ({ label, value })),
+        };
+      },
+    }),
+  ];
+}
@@ -0,0 +1,116 @@
+import { TRPCError } from "@trpc/server";
+import { nanoid } from "nanoid";
+import {
+  transcribeAudio,
+  TranscriptionError,
+  TranscriptionResponse,
+} from "./_core/voiceTranscription";
+import { storagePut } from "./storage";
+import { MAX_VOICE_SECONDS, VoiceLanguage, VoiceMimeType } from "@shared/voice";
+
+/**
+ * Voice questions: the recording is uploaded to storage, transcribed, and the
+ * transcript is returned for the student to edit before sending it to the chat.
+ */
+
+const VOICE_EXTENSIONS: Record<VoiceMimeType, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
+
+// HTTP status of each transcription failure as seen by the client
+const TRANSCRIPTION_ERROR_CODES: Record<TranscriptionError["code"], TRPCError["code"]> = {
+  FILE_TOO_LARGE: "PAYLOAD_TOO_LARGE",
+  INVALID_FORMAT: "BAD_REQUEST",
+  UPLOAD_FAILED: "BAD_GATEWAY",
+  TRANSCRIPTION_FAILED: "BAD_GATEWAY",
+  SERVICE_ERROR: "INTERNAL_SERVER_ERROR",
+};
+
+export function isTranscriptionError(
+  result: TranscriptionResponse | TranscriptionError
+): result is TranscriptionError {
+  return "error" in result;
+}
+
+export function toTranscriptionTRPCError(error: TranscriptionError) {
+  return new TRPCError({
+    code: TRANSCRIPTION_ERROR_CODES[error.code],
+    message: error.error,
+    cause: new Error(`${error.code}${error.details ? `: ${error.details}` : ""}`),
+  });
+}
+
+// Whisper reports the detected language by name ("japanese"), some servers by code ("ja")
+const LANGUAGE_NAMES: Record<string, VoiceLanguage> = {
+  ja: "ja",
+  japanese: "ja",
+  en: "en",
+  english: "en",
+};
+
+/** The detected language as "ja" or "en"; null for anything else. */
+export function normalizeLanguage(language: string | undefined) {
+  return LANGUAGE_NAMES[language?.trim().toLowerCase() ?? ""] ?? null;
+}
+
+// Vocabulary hint so formulas and math terms are spelled the way the tutor expects
+const transcriptionPrompt = (language?: VoiceLanguage) => {
+  const speaker =
+    language === "ja" ? "in Japanese" : language === "en" ? "in English" : "in Japanese or English";
+  return `A student asks a mathematics question ${speaker}. Math terms and formulas may appear, e.g. 微分, 積分, 二次関数, derivative, x squared.`;
+};
+
+/**
+ * Upload a recording and transcribe it. Throws a TRPCError for every
+ * TranscriptionError code and for recordings over the duration limit.
+ */
+export async function transcribeVoiceQuestion(options: {
+  userId: number;
+  data: Buffer;
+  mimeType: VoiceMimeType;
+  language?: VoiceLanguage;
+}) {
+  let audioUrl: string;
+  try {
+    const key = `voice/${options.userId}/${nanoid()}.${VOICE_EXTENSIONS[options.mimeType]}`;
+    ({ url: audioUrl } = await storagePut(key, options.data, options.mimeType));
+  } catch (error) {
+    throw toTranscriptionTRPCError({
+      error: "Failed to upload the recording",
+      code: "UPLOAD_FAILED",
+      details: error instanceof Error ? error.message : undefined,
+    });
+  }
+
+  const result = await transcribeAudio({
+    audioUrl,
+    language: options.language,
+    prompt: transcriptionPrompt(options.language),
+  });
+  if (isTranscriptionError(result)) {
+    throw toTranscriptionTRPCError(result);
+  }
+
+  // The declared duration is checked before upload; this catches recordings that under-report it
+  if (result.duration > MAX_VOICE_SECONDS + 1) {
+    throw new TRPCError({
+      code: "PAYLOAD_TOO_LARGE",
+      message: `Recordings can be at most ${MAX_VOICE_SECONDS} seconds long`,
+    });
+  }
+
+  return {
+    text: result.text.trim(),
+    language: normalizeLanguage(result.language) ?? options.language ?? null,
+    duration: result.duration,
+    segments: (result.segments ?? []).map((segment) => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+    })),
+  };
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { MAX_GRAPH_POINTS, plotSpecSchema } from "./plotting";
+
+/**
+ * Graph data shared by the server (persistence as a "json" chat log) and the
+ * client (MathGraph rendering). Function graphs also carry the plot spec
+ * they were sampled from (see plotting.ts).
+ */
+
+export const graphDataSchema = z
+  .object({
+    type: z.enum(["line", "bar", "scatter", "area"]),
+    title: z.string(),
+    xAxis: z.object({
+      label: z.string(),
+      data: z.array(z.union([z.string(), z.number()])).min(1).max(MAX_GRAPH_POINTS),
+    }),
+    yAxis: z.object({
+      label: z.string(),
+    }),
+    series: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          data: z.array(z.number().nullable()),
+        })
+      )
+      .min(1)
+      .max(6),
+    // The function plot the series were computed from, if any
+    plot: plotSpecSchema.optional(),
+  })
+  .refine((graph) => graph.series.every((s) => s.data.length === graph.xAxis.data.length), {
+    message: "Every series must have one value per x-axis point",
+    path: ["series"],
+  });
+
+export type GraphData = z.infer<typeof graphDataSchema>;
+
+/** Parse a graph stored in a "json" chat log; null if it is not a valid graph. */
+export function parseGraphData(content: string): GraphData | null {
+  try {
+    const result = graphDataSchema.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+import { all, create, MathNode } from "mathjs";
+
+/**
+ * mathjs instance for evaluating untrusted expressions (student answers, LLM
+ * graph specs). Functions that could redefine the evaluator are disabled;
+ * use the exported `parse` and compile the resulting node instead.
+ */
+
+export const math = create(all);
+export const parse = math.parse;
+// Symbolic operations for server-side tools; unavailable inside expressions
+export const simplify = math.simplify;
+export const derivative = math.derivative;
+
+function disabled() {
+  throw new Error("Function is disabled");
+}
+
+math.import(
+  {
+    import: disabled,
+    createUnit: disabled,
+    evaluate: disabled,
+    parse: disabled,
+    simplify: disabled,
+    derivative: disabled,
+  },
+  { override: true }
+);
+
+/** Free variables of an expression: symbols that are not mathjs functions or constants. */
+export function freeVariables(node: MathNode) {
+  const names = node
+    .filter((n) => "isSymbolNode" in n && n.isSymbolNode === true)
+    .map((n) => (n as MathNode & { name: string }).name);
+  return Array.from(new Set(names.filter((name) => !(name in math))));
+}
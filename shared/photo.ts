@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+/**
+ * Photos of handwritten work sent from the chat input, stored as "image" chat
+ * logs. The transcription is kept with the photo so later turns can refer to
+ * the student's work without sending the image again.
+ */
+
+export const PHOTO_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+export type PhotoMimeType = (typeof PHOTO_MIME_TYPES)[number];
+
+// Upload limit for one photo, after decoding
+export const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+export const photoEntrySchema = z.object({
+  url: z.string().min(1),
+  // Storage key of the uploaded file
+  key: z.string(),
+  mimeType: z.enum(PHOTO_MIME_TYPES),
+  // What the student typed with the photo; may be empty
+  note: z.string(),
+  // The handwritten solution line by line, as read by the model
+  transcription: z.array(z.string()),
+});
+
+export type PhotoEntry = z.infer<typeof photoEntrySchema>;
+
+/** Parse an "image" chat log; null if it is not a valid entry. */
+export function parsePhotoEntry(content: string): PhotoEntry | null {
+  try {
+    const result = photoEntrySchema.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,243 @@
+import type { EvalFunction } from "mathjs";
+import { z } from "zod";
+import { freeVariables, math, parse } from "./math";
+import type { GraphData } from "./graph";
+
+/**
+ * Function plotting engine. The LLM only describes what to plot (expressions,
+ * domain, parameters); the series are computed here so curves are exact.
+ * Shared so the client can re-evaluate a plot without a server round trip.
+ */
+
+const VARIABLE = "x";
+
+// Most x values in one graph; graphDataSchema rejects graphs with more
+export const MAX_GRAPH_POINTS = 500;
+
+// A named constant in the plot's expressions, adjustable with a slider between min and max
+const plotParameterSchema = z
+  .object({
+    name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/),
+    value: z.number(),
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive().nullable(),
+  })
+  .refine((p) => p.min <= p.value && p.value <= p.max, {
+    message: "value must lie between min and max",
+  });
+
+export const plotSpecSchema = z
+  .object({
+    type: z.enum(["line", "area", "bar", "scatter"]),
+    title: z.string(),
+    xLabel: z.string(),
+    yLabel: z.string(),
+    domain: z.object({ min: z.number(), max: z.number() }),
+    step: z.number().positive().nullable(),
+    functions: z
+      .array(z.object({ name: z.string().min(1), expression: z.string().min(1) }))
+      .min(1)
+      .max(6),
+    parameters: z.array(plotParameterSchema).max(5),
+  })
+  .superRefine((spec, ctx) => {
+    if (!(spec.domain.min < spec.domain.max)) {
+      ctx.addIssue({ code: "custom", path: ["domain"], message: "domain.min must be less than domain.max" });
+    }
+    if (spec.step !== null && (spec.domain.max - spec.domain.min) / spec.step + 1 > MAX_GRAPH_POINTS) {
+      ctx.addIssue({ code: "custom", path: ["step"], message: `step gives more than ${MAX_GRAPH_POINTS} points` });
+    }
+
+    const allowed = new Set([VARIABLE, ...spec.parameters.map((p) => p.name)]);
+    spec.parameters.forEach((p, i) => {
+      if (p.name === VARIABLE || p.name in math) {
+        ctx.addIssue({ code: "custom", path: ["parameters", i, "name"], message: `"${p.name}" is reserved` });
+      }
+    });
+    spec.functions.forEach((fn, i) => {
+      try {
+        const unknown = freeVariables(parse(fn.expression)).filter((name) => !allowed.has(name));
+        if (unknown.length > 0) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["functions", i, "expression"],
+            message: `Unknown symbols ${unknown.join(", ")}; declare them as parameters`,
+          });
+        }
+      } catch (error) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["functions", i, "expression"],
+          message: `Not a valid mathjs expression: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    });
+  });
+
+export type PlotSpec = z.infer<typeof plotSpecSchema>;
+export type PlotParameter = PlotSpec["parameters"][number];
+
+/** Slider increment for a parameter: its own step, or 1/100 of its range. */
+export function parameterStep(parameter: PlotParameter) {
+  return parameter.step ?? (parameter.max - parameter.min) / 100;
+}
+
+// Uniform samples taken before adaptive refinement
+const INITIAL_SAMPLES = 80;
+// Maximum halvings of an interval while refining
+const MAX_DEPTH = 6;
+// Point budget per function; the whole graph is capped at MAX_GRAPH_POINTS
+const MAX_POINTS_PER_FUNCTION = 400;
+// A segment is refined when its midpoint is this far (relative to the y range) from the chord
+const FLATNESS_TOLERANCE = 0.005;
+// A jump this large (relative to the y range) that survives bisection is a discontinuity
+const JUMP_THRESHOLD = 0.2;
+const BISECTION_STEPS = 30;
+
+type Fn = (x: number) => number | null;
+
+function compileFunction(expression: string, parameters: Record<string, number>): Fn {
+  const compiled: EvalFunction = parse(expression).compile();
+  return (x) => {
+    try {
+      const y = compiled.evaluate({ ...parameters, [VARIABLE]: x });
+      return typeof y === "number" && Number.isFinite(y) ? y : null;
+    } catch {
+      return null;
+    }
+  };
+}
+
+// Robust y range of a set of samples, ignoring the extreme tails (asymptotes)
+function visibleRange(values: Array<number | null>) {
+  const finite = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (finite.length === 0) return null;
+  const lo = finite[Math.floor(finite.length * 0.05)];
+  const hi = finite[Math.ceil(finite.length * 0.95) - 1];
+  const span = Math.max(hi - lo, 1e-9);
+  return { min: lo - span, max: hi + span, span };
+}
+
+// Narrow a large jump between x0 and x1; a jump that does not shrink is a discontinuity
+function isDiscontinuity(f: Fn, x0: number, x1: number, threshold: number) {
+  let a = x0;
+  let b = x1;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const m = (a + b) / 2;
+    const [ya, ym, yb] = [f(a), f(m), f(b)];
+    if (ya === null || ym === null || yb === null) return true;
+    if (Math.abs(ym - ya) >= Math.abs(yb - ym)) {
+      b = m;
+    } else {
+      a = m;
+    }
+  }
+  const [ya, yb] = [f(a), f(b)];
+  return ya === null || yb === null || Math.abs(yb - ya) > threshold;
+}
+
+/**
+ * Sample a continuous function adaptively: start uniform, split segments that
+ * are not flat enough, and record where the function breaks (poles, jumps,
+ * undefined regions) so the curve is not drawn across them.
+ */
+function sampleContinuous(f: Fn, min: number, max: number) {
+  const xs = Array.from({ length: INITIAL_SAMPLES + 1 }, (_, i) => min + ((max - min) * i) / INITIAL_SAMPLES);
+  const range = visibleRange(xs.map(f));
+  const points = new Set<number>(xs);
+  const breaks = new Set<number>();
+  if (!range) return { points, breaks };
+
+  const refine = (x0: number, y0: number | null, x1: number, y1: number | null, depth: number) => {
+    if (points.size >= MAX_POINTS_PER_FUNCTION) return;
+    const xm = (x0 + x1) / 2;
+    const ym = f(xm);
+
+    if (y0 === null || y1 === null || ym === null) {
+      // Refine towards the edge of an undefined region
+      if (depth < MAX_DEPTH && !(y0 === null && y1 === null && ym === null)) {
+        points.add(xm);
+        refine(x0, y0, xm, ym, depth + 1);
+        refine(xm, ym, x1, y1, depth + 1);
+      }
+      return;
+    }
+
+    const deviation = Math.abs(ym - (y0 + y1) / 2) / range.span;
+    if (depth < MAX_DEPTH && deviation > FLATNESS_TOLERANCE) {
+      points.add(xm);
+      refine(x0, y0, xm, ym, depth + 1);
+      refine(xm, ym, x1, y1, depth + 1);
+    } else if (
+      Math.abs(y1 - y0) > JUMP_THRESHOLD * range.span &&
+      isDiscontinuity(f, x0, x1, JUMP_THRESHOLD * range.span * 0.5)
+    ) {
+      breaks.add(xm);
+    }
+  };
+
+  for (let i = 0; i < xs.length - 1; i++) {
+    refine(xs[i], f(xs[i]), xs[i + 1], f(xs[i + 1]), 0);
+  }
+  return { points, breaks };
+}
+
+const roundX = (x: number) => Number(x.toPrecision(10));
+
+/** Compute the graph for a plot spec, using `parameterValues` in place of the spec's defaults. */
+export function samplePlot(spec: PlotSpec, parameterValues: Record<string, number> = {}): GraphData {
+  const parameters = Object.fromEntries(
+    spec.parameters.map((p) => [p.name, parameterValues[p.name] ?? p.value])
+  );
+  const functions = spec.functions.map((fn) => compileFunction(fn.expression, parameters));
+  const { min, max } = spec.domain;
+
+  let xs: number[];
+  const breaksByFunction = functions.map(() => new Set<number>());
+
+  if (spec.step !== null) {
+    // Discrete plots (bar/scatter or an explicit step) are sampled uniformly
+    const count = Math.min(MAX_GRAPH_POINTS - 1, Math.floor((max - min) / spec.step + 1e-9));
+    xs = Array.from({ length: count + 1 }, (_, i) => roundX(min + i * spec.step!));
+  } else {
+    const all = new Set<number>();
+    functions.forEach((f, i) => {
+      const { points, breaks } = sampleContinuous(f, min, max);
+      points.forEach((x) => all.add(roundX(x)));
+      breaks.forEach((x) => {
+        all.add(roundX(x));
+        breaksByFunction[i].add(roundX(x));
+      });
+    });
+    xs = Array.from(all).sort((a, b) => a - b);
+    if (xs.length > MAX_GRAPH_POINTS) {
+      // Thin out the samples but keep every break, so curves are still not drawn across them
+      const breaks = new Set(breaksByFunction.flatMap((set) => Array.from(set)));
+      const kept = breaks.size < MAX_GRAPH_POINTS ? Array.from(breaks) : [];
+      const rest = kept.length > 0 ? xs.filter((x) => !breaks.has(x)) : xs;
+      const budget = MAX_GRAPH_POINTS - kept.length;
+      const stride = rest.length / budget;
+      xs = [...kept, ...Array.from({ length: budget }, (_, i) => rest[Math.floor(i * stride)])].sort((a, b) => a - b);
+    }
+  }
+
+  const series = spec.functions.map((fn, i) => {
+    const values = xs.map((x) => (breaksByFunction[i].has(x) ? null : functions[i](x)));
+    // Hide asymptote spikes next to breaks that would flatten the rest of the curve
+    const range = breaksByFunction[i].size > 0 ? visibleRange(values) : null;
+    return {
+      name: fn.name,
+      data: values.map((y) => (y !== null && range && (y < range.min || y > range.max) ? null : y)),
+    };
+  });
+
+  return {
+    type: spec.type,
+    title: spec.title,
+    xAxis: { label: spec.xLabel, data: xs },
+    yAxis: { label: spec.yLabel },
+    series,
+    plot: spec,
+  };
+}
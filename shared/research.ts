@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { plotSpecSchema } from "./plotting";
+
+/**
+ * Results of the research panel (question analysis, thought-experiment
+ * scenarios, real-world application), stored as "research" chat logs.
+ */
+
+export const RESEARCH_KIND_LABELS = {
+  analysis: "分析",
+  scenarios: "思考実験",
+  application: "現実への応用",
+} as const;
+
+export type ResearchKind = keyof typeof RESEARCH_KIND_LABELS;
+
+/** One thought-experiment scenario, as a column of the comparison table. */
+export const scenarioSchema = z.object({
+  name: z.string().min(1),
+  initialConditions: z.string(),
+  // Model equations in the student's math notation
+  equations: z.array(z.string().min(1)).min(1).max(5),
+  variables: z.array(z.object({ symbol: z.string().min(1), meaning: z.string() })).max(8),
+  predictedOutcome: z.string(),
+  assumptions: z.array(z.string()).max(5),
+  // The scenario's model as a function plot, when it can be drawn
+  plot: plotSpecSchema.nullable(),
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+export const scenarioComparisonSchema = z.object({
+  scenarios: z.array(scenarioSchema).min(2).max(4),
+  // How the scenarios differ, their implications and limitations
+  comparison: z.string(),
+});
+
+export type ScenarioComparison = z.infer<typeof scenarioComparisonSchema>;
+
+export const researchEntrySchema = z.object({
+  kind: z.enum(["analysis", "scenarios", "application"]),
+  // What the student asked for, shown as the entry's heading
+  prompt: z.string(),
+  body: z.string(),
+  // Structured scenarios; absent for other kinds and for older essay-style entries
+  comparison: scenarioComparisonSchema.optional(),
+});
+
+export type ResearchEntry = z.infer<typeof researchEntrySchema>;
+
+/** Parse a "research" chat log; null if it is not a valid entry. */
+export function parseResearchEntry(content: string): ResearchEntry | null {
+  try {
+    const result = researchEntrySchema.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Markdown rendering of a scenario comparison, used as the entry body (chat
+ * history for the LLM, text export, and clients that do not draw the table).
+ */
+export function formatScenarioComparison(result: ScenarioComparison) {
+  const sections = result.scenarios.map((scenario, i) => {
+    const lines = [
+      `### シナリオ${i + 1}: ${scenario.name}`,
+      `**初期条件**: ${scenario.initialConditions}`,
+      `**モデル**:`,
+      ...scenario.equations.map((equation) => `- ${equation}`),
+    ];
+    if (scenario.variables.length > 0) {
+      lines.push(`**変数**: ${scenario.variables.map((v) => `${v.symbol}（${v.meaning}）`).join("、")}`);
+    }
+    lines.push(`**予測される結果**: ${scenario.predictedOutcome}`);
+    if (scenario.assumptions.length > 0) {
+      lines.push(`**仮定**:`, ...scenario.assumptions.map((assumption) => `- ${assumption}`));
+    }
+    return lines.join("\n");
+  });
+  return [...sections, `### 比較\n${result.comparison}`].join("\n\n");
+}
@@ -0,0 +1,20 @@
+/**
+ * Limits and formats of voice questions recorded in the chat input and
+ * transcribed by voice.transcribe.
+ */
+
+// What MediaRecorder produces in common browsers (webm/ogg: Chrome and Firefox, mp4: Safari)
+export const VOICE_MIME_TYPES = ["audio/webm", "audio/ogg", "audio/mp4", "audio/mpeg", "audio/wav"] as const;
+
+export type VoiceMimeType = (typeof VOICE_MIME_TYPES)[number];
+
+// Recordings stop automatically at this length
+export const MAX_VOICE_SECONDS = 120;
+
+// Upload limit for one recording, after decoding (the transcription service accepts up to 16MB)
+export const MAX_VOICE_BYTES = 10 * 1024 * 1024;
+
+// Languages a question may be transcribed in
+export const VOICE_LANGUAGES = ["ja", "en"] as const;
+
+export type VoiceLanguage = (typeof VOICE_LANGUAGES)[number];